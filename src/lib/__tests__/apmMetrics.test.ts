@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compareApmWindows,
+  summarizeWindow,
+  transactionAggs,
+} from '../apmMetrics';
+
+const HOUR_MS = 3_600_000;
+
+/** A `windows` bucket of the transaction search. */
+function transactionBucket(count: number, failures: number, p95Us: number) {
+  return {
+    doc_count: count,
+    latency: {
+      values: { '50.0': 42_000, '95.0': p95Us, '99.0': p95Us * 2 },
+    },
+    outcomes: {
+      buckets: [
+        { key: 'success', doc_count: count - failures - 10 },
+        { key: 'failure', doc_count: failures },
+        { key: 'unknown', doc_count: 10 },
+      ],
+    },
+    slow_transactions: {
+      buckets: [
+        {
+          key: 'POST /payments/sepa-instant',
+          doc_count: 120,
+          avg_latency: { value: 812_345 },
+          latency: { values: { '95.0': 1_950_000 } },
+        },
+      ],
+    },
+  };
+}
+
+describe('transactionAggs', () => {
+  it('adds a per-service breakdown only when no service is selected', () => {
+    expect(transactionAggs(5, true).services.terms.field).toBe('service.name');
+    expect(transactionAggs(5, false).services).toBeUndefined();
+    expect(transactionAggs(3, false).slow_transactions.terms).toEqual({
+      field: 'transaction.name',
+      size: 3,
+      order: { avg_latency: 'desc' },
+    });
+  });
+});
+
+describe('summarizeWindow', () => {
+  it('derives throughput, error rate, latency and slow transactions', () => {
+    const window = summarizeWindow(
+      transactionBucket(6010, 300, 250_000),
+      {
+        error_groups: {
+          buckets: [
+            {
+              key: 'a1b2c3',
+              doc_count: 280,
+              last_seen: { value_as_string: '2025-10-01T10:59:00.000Z' },
+              example: {
+                hits: {
+                  hits: [
+                    {
+                      _source: {
+                        error: {
+                          exception: [
+                            { message: 'Ledger timeout after 3000 ms' },
+                          ],
+                          log: { message: 'Booking failed' },
+                          culprit: 'LedgerClient.book',
+                        },
+                      },
+                    },
+                  ],
+                },
+              },
+            },
+          ],
+        },
+      },
+      HOUR_MS,
+    );
+
+    expect(window).toEqual({
+      transactions: 6010,
+      throughput_per_minute: 100.17,
+      error_rate: 0.05,
+      latency_ms: { p50: 42, p95: 250, p99: 500 },
+      slow_transactions: [
+        {
+          name: 'POST /payments/sepa-instant',
+          count: 120,
+          avg_ms: 812.3,
+          p95_ms: 1950,
+        },
+      ],
+      error_groups: [
+        {
+          grouping_key: 'a1b2c3',
+          message: 'Ledger timeout after 3000 ms',
+          culprit: 'LedgerClient.book',
+          count: 280,
+          last_seen: '2025-10-01T10:59:00.000Z',
+        },
+      ],
+    });
+  });
+
+  it('summarizes services and leaves metrics undefined without data', () => {
+    const window = summarizeWindow(
+      {
+        doc_count: 0,
+        latency: { values: { '50.0': null, '95.0': null, '99.0': null } },
+        outcomes: { buckets: [] },
+        slow_transactions: { buckets: [] },
+        services: {
+          buckets: [
+            {
+              key: 'payment-gateway',
+              doc_count: 600,
+              outcomes: { buckets: [{ key: 'failure', doc_count: 6 }] },
+              latency: { values: { '95.0': 90_000 } },
+            },
+          ],
+        },
+      },
+      undefined,
+      HOUR_MS,
+    );
+
+    expect(window.error_rate).toBeUndefined();
+    expect(window.latency_ms).toEqual({
+      p50: undefined,
+      p95: undefined,
+      p99: undefined,
+    });
+    expect(window.error_groups).toEqual([]);
+    expect(window.services).toEqual([
+      {
+        service: 'payment-gateway',
+        transactions: 600,
+        throughput_per_minute: 10,
+        error_rate: 1,
+        p95_ms: 90,
+      },
+    ]);
+  });
+});
+
+describe('compareApmWindows', () => {
+  it('reports relative changes, error rate points and new error groups', () => {
+    const previous = summarizeWindow(
+      transactionBucket(6010, 300, 250_000),
+      { error_groups: { buckets: [{ key: 'old', doc_count: 5 }] } },
+      HOUR_MS,
+    );
+    const current = summarizeWindow(
+      transactionBucket(3010, 600, 850_000),
+      {
+        error_groups: {
+          buckets: [
+            { key: 'new', doc_count: 400 },
+            { key: 'old', doc_count: 4 },
+          ],
+        },
+      },
+      HOUR_MS,
+    );
+
+    expect(compareApmWindows(current, previous)).toEqual({
+      throughput_pct: -49.9,
+      error_rate_pts: 15,
+      p50_pct: 0,
+      p95_pct: 240,
+      p99_pct: 240,
+      new_error_groups: ['new'],
+    });
+  });
+});
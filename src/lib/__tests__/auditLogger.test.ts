@@ -12,6 +12,15 @@ function makeConfig(overrides: Partial<ServerConfig> = {}): ServerConfig {
     requestTimeoutMs: 30000,
     retryAttempts: 3,
     retryDelayMs: 1000,
+    pitIdleTimeoutMs: 300000,
+    asyncSearchTtlMs: 3600000,
+    cacheTtlMs: 60000,
+    cacheMaxEntries: 500,
+    queryCostMode: 'limit',
+    maxAggBucketSize: 1000,
+    maxAggBuckets: 10000,
+    maxAggDepth: 4,
+    maxUnboundedSearchBytes: 50 * 1024 ** 3,
     kibanaSpace: '',
     auditEnabled: true,
     piiRedactionEnabled: true,
@@ -28,6 +37,8 @@ function makeEntry(overrides: Partial<AuditEntry> = {}): AuditEntry {
     redaction_count: 0,
     redacted_types: [],
     execution_time_ms: 50,
+    cache_hits: 0,
+    cache_misses: 0,
     status: 'success',
     ...overrides,
   };
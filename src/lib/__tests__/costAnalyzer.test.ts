@@ -0,0 +1,234 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  analyzeQueryCost,
+  enforceQueryCost,
+  CostThresholds,
+} from '../costAnalyzer';
+
+const thresholds: CostThresholds = {
+  queryCostMode: 'limit',
+  maxAggBucketSize: 1000,
+  maxAggBuckets: 10000,
+  maxAggDepth: 3,
+  maxUnboundedSearchBytes: 50 * 1024 ** 3,
+};
+
+const timeBounded = {
+  query: { range: { '@timestamp': { gte: 'now-24h' } } },
+};
+
+const smallIndex = () => Promise.resolve(1024);
+
+describe('analyzeQueryCost', () => {
+  it('multiplies bucket estimates across nesting levels', () => {
+    const analysis = analyzeQueryCost(
+      {
+        aggs: {
+          by_service: {
+            terms: { field: 'service.name', size: 20 },
+            aggs: {
+              by_status: {
+                terms: { field: 'status' },
+                aggs: { avg_amount: { avg: { field: 'amount' } } },
+              },
+            },
+          },
+        },
+      },
+      1000,
+    );
+
+    expect(analysis.estimated_buckets).toBe(20 * (1 + 10));
+    expect(analysis.aggregation_depth).toBe(3);
+  });
+
+  it('reports oversized terms aggregations', () => {
+    const analysis = analyzeQueryCost(
+      {
+        aggs: {
+          by_customer: { terms: { field: 'customer.id', size: 100000 } },
+        },
+      },
+      1000,
+    );
+
+    expect(analysis.oversized_aggregations).toMatchObject([
+      { path: '$.aggs.by_customer.terms.size', size: 100000 },
+    ]);
+  });
+
+  it('flags leading wildcards in wildcard, regexp and query_string clauses', () => {
+    const analysis = analyzeQueryCost(
+      {
+        query: {
+          bool: {
+            should: [
+              { wildcard: { message: { value: '*timeout' } } },
+              { regexp: { 'host.name': '.*-prod' } },
+              { query_string: { query: 'error AND *Exception' } },
+              { wildcard: { 'payment.id': 'PAY-*' } },
+            ],
+          },
+        },
+      },
+      1000,
+    );
+
+    expect(analysis.expensive_clauses.map((c) => c.path)).toEqual([
+      '$.query.bool.should[0].wildcard',
+      '$.query.bool.should[1].regexp',
+      '$.query.bool.should[2].query_string',
+    ]);
+  });
+
+  it('detects a lower time bound but ignores must_not ranges', () => {
+    expect(analyzeQueryCost(timeBounded, 1000).time_bounded).toBe(true);
+    expect(
+      analyzeQueryCost(
+        { query: { range: { created_at: { gt: '2026-01-01' } } } },
+        1000,
+      ).time_bounded,
+    ).toBe(true);
+    expect(
+      analyzeQueryCost(
+        {
+          query: {
+            bool: { must_not: { range: { '@timestamp': { gte: 'now-1h' } } } },
+          },
+        },
+        1000,
+      ).time_bounded,
+    ).toBe(false);
+    expect(
+      analyzeQueryCost({ query: { range: { amount: { gte: 100 } } } }, 1000)
+        .time_bounded,
+    ).toBe(false);
+    expect(
+      analyzeQueryCost(
+        {
+          aggs: {
+            rising: {
+              significant_terms: {
+                field: 'error.code',
+                background_filter: {
+                  range: { '@timestamp': { gte: 'now-1d' } },
+                },
+              },
+            },
+          },
+        },
+        1000,
+      ).time_bounded,
+    ).toBe(false);
+  });
+});
+
+describe('enforceQueryCost', () => {
+  it('caps oversized bucket sizes in limit mode without mutating the input', async () => {
+    const body = {
+      ...timeBounded,
+      aggs: { by_customer: { terms: { field: 'customer.id', size: 100000 } } },
+    };
+
+    const result = await enforceQueryCost(body, thresholds, smallIndex);
+
+    expect(result.body.aggs.by_customer.terms.size).toBe(1000);
+    expect(body.aggs.by_customer.terms.size).toBe(100000);
+    expect(result.adjustments).toEqual([
+      'Capped $.aggs.by_customer.terms.size from 100000 to 1000.',
+    ]);
+  });
+
+  it('rejects oversized bucket sizes in reject mode', async () => {
+    await expect(
+      enforceQueryCost(
+        {
+          ...timeBounded,
+          aggs: {
+            by_customer: { terms: { field: 'customer.id', size: 5000 } },
+          },
+        },
+        { ...thresholds, queryCostMode: 'reject' },
+        smallIndex,
+      ),
+    ).rejects.toThrow(/requests 5000 buckets \(limit 1000\).*composite/);
+  });
+
+  it('rejects deeply nested aggregations', async () => {
+    const nested = (depth: number): any =>
+      depth === 0
+        ? { terms: { field: 'f' } }
+        : { terms: { field: 'f' }, aggs: { inner: nested(depth - 1) } };
+
+    await expect(
+      enforceQueryCost(
+        { ...timeBounded, aggs: { outer: nested(5) } },
+        thresholds,
+        smallIndex,
+      ),
+    ).rejects.toThrow(/nested 6 levels deep \(limit 3\).*multi_terms/);
+  });
+
+  it('rejects trees whose estimated total buckets exceed the limit', async () => {
+    await expect(
+      enforceQueryCost(
+        {
+          ...timeBounded,
+          aggs: {
+            a: {
+              terms: { field: 'a', size: 500 },
+              aggs: { b: { terms: { field: 'b', size: 500 } } },
+            },
+          },
+        },
+        thresholds,
+        smallIndex,
+      ),
+    ).rejects.toThrow(/estimated 250500 buckets/);
+  });
+
+  it('rejects leading wildcards with a suggestion', async () => {
+    await expect(
+      enforceQueryCost(
+        { query: { wildcard: { message: '*timeout' } } },
+        thresholds,
+        smallIndex,
+      ),
+    ).rejects.toThrow(
+      /leading wildcard "\*timeout" at \$\.query\.wildcard.*literal prefix/,
+    );
+  });
+
+  it('rejects unbounded searches against large indices', async () => {
+    const getSize = vi.fn().mockResolvedValue(3 * 1024 ** 4);
+
+    await expect(
+      enforceQueryCost(
+        { query: { term: { status: 'failed' } } },
+        thresholds,
+        getSize,
+      ),
+    ).rejects.toThrow(/no time filter on an index of 3\.0tb.*time_range/);
+    expect(getSize).toHaveBeenCalledOnce();
+  });
+
+  it('skips the index size lookup for time-bounded searches', async () => {
+    const getSize = vi.fn();
+
+    await enforceQueryCost(timeBounded, thresholds, getSize);
+
+    expect(getSize).not.toHaveBeenCalled();
+  });
+
+  it('passes everything through when the guard is off', async () => {
+    const body = { query: { wildcard: { message: '*timeout' } } };
+
+    const result = await enforceQueryCost(
+      body,
+      { ...thresholds, queryCostMode: 'off' },
+      smallIndex,
+    );
+
+    expect(result).toEqual({ body, adjustments: [] });
+  });
+});
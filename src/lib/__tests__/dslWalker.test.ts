@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { walkSearchBody } from '../dslWalker';
+
+describe('walkSearchBody', () => {
+  it('reports query clauses with paths and nesting depth', () => {
+    const clauses: [string, string, number][] = [];
+    walkSearchBody(
+      {
+        query: {
+          bool: {
+            filter: [{ term: { status: 'failed' } }],
+            must_not: { nested: { path: 'items', query: { exists: { field: 'items.sku' } } } },
+          },
+        },
+      },
+      { queryClause: ({ type, path, depth }) => clauses.push([type, path, depth]) },
+    );
+
+    expect(clauses).toEqual([
+      ['bool', '$.query.bool', 1],
+      ['term', '$.query.bool.filter[0].term', 2],
+      ['nested', '$.query.bool.must_not.nested', 2],
+      ['exists', '$.query.bool.must_not.nested.query.exists', 3],
+    ]);
+  });
+
+  it('reports aggregations and walks filter aggregation queries', () => {
+    const aggs: [string, string, number][] = [];
+    const clauses: string[] = [];
+    walkSearchBody(
+      {
+        aggs: {
+          failed: {
+            filter: { term: { status: 'failed' } },
+            aggs: { by_day: { date_histogram: { field: '@timestamp' } } },
+          },
+        },
+      },
+      {
+        aggregation: ({ name, type, depth }) => aggs.push([name, type, depth]),
+        queryClause: ({ path }) => clauses.push(path),
+      },
+    );
+
+    expect(aggs).toEqual([
+      ['failed', 'filter', 1],
+      ['by_day', 'date_histogram', 2],
+    ]);
+    expect(clauses).toEqual(['$.aggs.failed.filter.term']);
+  });
+
+  it('does not report field names of field-keyed clauses as option keys', () => {
+    const keys: string[] = [];
+    walkSearchBody(
+      { query: { range: { amount: { gte: 10 } } } },
+      { optionKey: ({ key }) => keys.push(key) },
+    );
+
+    expect(keys).toEqual(['gte']);
+  });
+
+  it('throws on malformed query positions', () => {
+    expect(() =>
+      walkSearchBody({ query: { term: {}, match: {} } }, {}),
+    ).toThrow(/expected a single query clause at \$\.query/);
+  });
+});
@@ -0,0 +1,403 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// ---------------------------------------------------------------------------
+// Mock axios so the client talks to stub Elasticsearch and Kibana instances
+// ---------------------------------------------------------------------------
+const { esHttp, kibanaHttp } = vi.hoisted(() => {
+  const http = () => ({ get: vi.fn(), post: vi.fn(), delete: vi.fn() });
+  return { esHttp: http(), kibanaHttp: http() };
+});
+
+vi.mock('axios', () => ({
+  default: {
+    create: vi.fn((options: any) =>
+      options.headers['kbn-xsrf'] ? kibanaHttp : esHttp,
+    ),
+  },
+}));
+
+import { ElasticsearchClient } from '../esClient';
+import { ServerConfig } from '../config';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function makeConfig(overrides: Partial<ServerConfig> = {}): ServerConfig {
+  return {
+    kibanaUrl: 'https://bank.kb.example.com',
+    elasticsearchUrl: 'https://bank.es.example.com',
+    kibanaApiKey: 'test-key',
+    allowedIndexPatterns: [],
+    maxSearchSize: 100,
+    requestTimeoutMs: 1000,
+    retryAttempts: 1,
+    retryDelayMs: 0,
+    pitIdleTimeoutMs: 300_000,
+    asyncSearchTtlMs: 3_600_000,
+    cacheTtlMs: 60_000,
+    cacheMaxEntries: 100,
+    queryCostMode: 'limit',
+    maxAggBucketSize: 1000,
+    maxAggBuckets: 10_000,
+    maxAggDepth: 4,
+    maxUnboundedSearchBytes: 50 * 1024 ** 3,
+    kibanaSpace: '',
+    auditEnabled: false,
+    piiRedactionEnabled: false,
+    awsRegion: 'us-east-1',
+    comprehendEnabled: false,
+    ...overrides,
+  };
+}
+
+/** Routes GET requests to canned responses by path prefix. */
+function routeGets(routes: Record<string, any>): void {
+  esHttp.get.mockImplementation(async (path: string) => {
+    const prefix = Object.keys(routes).find((p) => path.startsWith(p));
+    if (prefix === undefined) throw new Error(`Unexpected GET ${path}`);
+    return { data: routes[prefix] };
+  });
+}
+
+/** An axios-style HTTP error carrying an Elasticsearch error body. */
+function httpError(status: number, type: string): Error {
+  return Object.assign(new Error(`Request failed with status code ${status}`), {
+    response: { status, data: { error: { type, reason: type } } },
+  });
+}
+
+const LOGS_MAPPING = {
+  'logs-2025.10.01': {
+    mappings: { properties: { '@timestamp': { type: 'date' } } },
+  },
+};
+const MATCH_ALL = { query: { match_all: {} } };
+/** Time-bounded, so the cost guard does not look up the index size. */
+const LAST_HOUR = { query: { range: { '@timestamp': { gte: 'now-1h' } } } };
+
+// ---------------------------------------------------------------------------
+// Point-in-time pagination
+// ---------------------------------------------------------------------------
+
+describe('ElasticsearchClient point-in-time pagination', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('runs the cost guard before opening a point-in-time', async () => {
+    const client = new ElasticsearchClient(
+      makeConfig({ maxUnboundedSearchBytes: 1024 }),
+    );
+    routeGets({ '/_cat/indices/logs-*': [{ 'store.size': '4096' }] });
+
+    await expect(client.openPointInTime('logs-*', MATCH_ALL)).rejects.toThrow(
+      /Query rejected by cost guard/,
+    );
+    expect(esHttp.post).not.toHaveBeenCalled();
+  });
+
+  it('closes a point-in-time once it has been idle', async () => {
+    vi.useFakeTimers();
+    const client = new ElasticsearchClient(makeConfig());
+    esHttp.post.mockResolvedValue({ data: { id: 'pit-1' } });
+    esHttp.delete.mockResolvedValue({ data: {} });
+
+    const pitId = await client.openPointInTime('logs-*', LAST_HOUR);
+    expect(esHttp.post).toHaveBeenCalledWith('/logs-*/_pit?keep_alive=300s');
+
+    await vi.advanceTimersByTimeAsync(300_000);
+    expect(esHttp.delete).toHaveBeenCalledWith('/_pit', {
+      data: { id: 'pit-1' },
+    });
+    await expect(
+      client.searchPointInTime(pitId, 'logs-*', LAST_HOUR, 10),
+    ).rejects.toThrow(/unknown or has expired/);
+  });
+
+  it('only searches a point-in-time on the allowed index it was opened on', async () => {
+    const config = makeConfig({ allowedIndexPatterns: ['logs-*'] });
+    const client = new ElasticsearchClient(config);
+    routeGets({ '/_resolve/index/logs-*': { indices: [], aliases: [] } });
+    esHttp.post.mockResolvedValue({ data: { id: 'pit-1' } });
+    const pitId = await client.openPointInTime('logs-*', LAST_HOUR);
+
+    await expect(
+      client.searchPointInTime(pitId, 'payments-*', LAST_HOUR, 10),
+    ).rejects.toThrow(/unknown or has expired/);
+
+    config.allowedIndexPatterns = ['audit-*'];
+    await expect(
+      client.searchPointInTime(pitId, 'logs-*', LAST_HOUR, 10),
+    ).rejects.toThrow(/not in the allowed index patterns/);
+    expect(esHttp.post).toHaveBeenCalledTimes(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Metadata cache
+// ---------------------------------------------------------------------------
+
+describe('ElasticsearchClient metadata cache', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('fetches data view time fields once per TTL', async () => {
+    const client = new ElasticsearchClient(makeConfig());
+    kibanaHttp.get.mockResolvedValue({
+      data: {
+        saved_objects: [
+          { attributes: { title: 'logs-*', timeFieldName: '@timestamp' } },
+        ],
+      },
+    });
+
+    const [first, second] = await Promise.all([
+      client.getDataViewTimeFields(),
+      client.getDataViewTimeFields(),
+    ]);
+    const third = await client.getDataViewTimeFields();
+
+    expect(first).toEqual([
+      { attributes: { title: 'logs-*', timeFieldName: '@timestamp' } },
+    ]);
+    expect(second).toBe(first);
+    expect(third).toBe(first);
+    expect(kibanaHttp.get).toHaveBeenCalledTimes(1);
+    expect(kibanaHttp.get.mock.calls[0][0]).toMatch(
+      /^\/api\/saved_objects\/_find\?type=index-pattern/,
+    );
+  });
+
+  it('counts cache hits and misses per tracked call', async () => {
+    const client = new ElasticsearchClient(makeConfig());
+    routeGets({ '/logs-*/_mapping': LOGS_MAPPING });
+
+    const first = { hits: 0, misses: 0 };
+    await client.trackCacheStats(first, () => client.getMapping('logs-*'));
+    const second = { hits: 0, misses: 0 };
+    await client.trackCacheStats(second, async () => {
+      await client.getMapping('logs-*');
+      await client.getMapping('logs-*');
+    });
+
+    expect(first).toEqual({ hits: 0, misses: 1 });
+    expect(second).toEqual({ hits: 2, misses: 0 });
+    expect(esHttp.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not cache failed requests', async () => {
+    const client = new ElasticsearchClient(makeConfig());
+    esHttp.get
+      .mockRejectedValueOnce(httpError(404, 'index_not_found_exception'))
+      .mockResolvedValue({ data: LOGS_MAPPING });
+
+    await expect(client.getMapping('logs-*')).rejects.toThrow();
+    expect(await client.getMapping('logs-*')).toEqual(LOGS_MAPPING);
+    expect(await client.getMapping('logs-*')).toEqual(LOGS_MAPPING);
+    expect(esHttp.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps a refreshed entry when the request it replaced fails late', async () => {
+    const client = new ElasticsearchClient(makeConfig());
+    let failStale!: (error: Error) => void;
+    esHttp.get
+      .mockReturnValueOnce(
+        new Promise((_, reject) => {
+          failStale = reject;
+        }),
+      )
+      .mockResolvedValue({ data: LOGS_MAPPING });
+
+    const stale = client.getMapping('logs-*');
+    await vi.waitFor(() => expect(esHttp.get).toHaveBeenCalledTimes(1));
+    client.invalidateCache('logs-*');
+    const fresh = await client.getMapping('logs-*');
+    failStale(httpError(404, 'index_not_found_exception'));
+    await expect(stale).rejects.toThrow();
+
+    expect(await client.getMapping('logs-*')).toBe(fresh);
+    expect(esHttp.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('invalidates patterns covering an index that fails with a mapping error', async () => {
+    const client = new ElasticsearchClient(makeConfig());
+    routeGets({
+      '/logs-*/_mapping': LOGS_MAPPING,
+      '/logs-*/_field_caps': { indices: [], fields: {} },
+      '/payments-*/_mapping': {},
+    });
+    await client.getMapping('logs-*');
+    await client.fieldCaps('logs-*');
+    await client.getMapping('payments-*');
+    esHttp.post.mockRejectedValue(httpError(404, 'index_not_found_exception'));
+
+    await expect(
+      client.search('logs-2025.10.01', LAST_HOUR, 10),
+    ).rejects.toThrow();
+    await client.getMapping('logs-*');
+    await client.fieldCaps('logs-*');
+    await client.getMapping('payments-*');
+
+    expect(esHttp.get.mock.calls.map(([path]) => path)).toEqual([
+      '/logs-*/_mapping',
+      '/logs-*/_field_caps?fields=*',
+      '/payments-*/_mapping',
+      '/logs-*/_mapping',
+      '/logs-*/_field_caps?fields=*',
+    ]);
+  });
+
+  it('invalidates on a mapping error inside a multi-search', async () => {
+    const client = new ElasticsearchClient(makeConfig());
+    routeGets({ '/logs-*/_mapping': LOGS_MAPPING });
+    await client.getMapping('logs-*');
+    esHttp.post.mockResolvedValue({
+      data: {
+        responses: [
+          {
+            error: {
+              type: 'search_phase_execution_exception',
+              root_cause: [{ type: 'query_shard_exception', reason: 'x' }],
+            },
+          },
+        ],
+      },
+    });
+
+    await client.multiSearch([
+      { index: 'logs-2025.10.01', body: LAST_HOUR, size: 10 },
+    ]);
+    await client.getMapping('logs-*');
+
+    expect(esHttp.get).toHaveBeenCalledTimes(2);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Multi-search
+// ---------------------------------------------------------------------------
+
+describe('ElasticsearchClient multiSearch', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('reports rejected searches in their slot and sends the rest', async () => {
+    const client = new ElasticsearchClient(
+      makeConfig({ allowedIndexPatterns: ['logs-*'] }),
+    );
+    routeGets({ '/_resolve/index/logs-*': { indices: [], aliases: [] } });
+    esHttp.post.mockResolvedValue({
+      data: { responses: [{ hits: { hits: [], total: { value: 0 } } }] },
+    });
+
+    const results = await client.multiSearch([
+      { index: 'audit-*', body: LAST_HOUR, size: 10 },
+      { index: 'logs-*', body: LAST_HOUR, size: 500 },
+    ]);
+
+    expect(results[0].error.reason).toMatch(
+      /"audit-\*" is not in the allowed index patterns/,
+    );
+    expect(results[1]).toEqual({ hits: { hits: [], total: { value: 0 } } });
+    const [path, ndjson] = esHttp.post.mock.calls[0];
+    expect(path).toBe('/_msearch');
+    expect(ndjson.trim().split('\n')).toEqual([
+      JSON.stringify({ index: 'logs-*' }),
+      JSON.stringify({ ...LAST_HOUR, size: 100 }),
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Alias and data stream access checks
+// ---------------------------------------------------------------------------
+
+describe('ElasticsearchClient index access', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('rejects an allowed alias that points at a disallowed index', async () => {
+    const client = new ElasticsearchClient(
+      makeConfig({ allowedIndexPatterns: ['payments-*'] }),
+    );
+    routeGets({
+      '/_resolve/index/payments-all': {
+        indices: [],
+        aliases: [
+          {
+            name: 'payments-all',
+            indices: ['payments-2025.10', 'audit-2025.10'],
+          },
+        ],
+        data_streams: [],
+      },
+    });
+
+    await expect(client.search('payments-all', LAST_HOUR, 10)).rejects.toThrow(
+      'Alias "payments-all" points to "audit-2025.10", which is not in the allowed index patterns: payments-*',
+    );
+    expect(esHttp.post).not.toHaveBeenCalled();
+  });
+
+  it('accepts data stream backing indices through their stream name', async () => {
+    const client = new ElasticsearchClient(
+      makeConfig({ allowedIndexPatterns: ['logs-payments*'] }),
+    );
+    routeGets({
+      '/_resolve/index/logs-payments-current': {
+        indices: [],
+        aliases: [
+          {
+            name: 'logs-payments-current',
+            indices: [
+              '.ds-logs-payments-2025.10.01-000041',
+              '.ds-logs-payments-2025.10.02-000042',
+            ],
+          },
+        ],
+        data_streams: [],
+      },
+    });
+    esHttp.post.mockResolvedValue({ data: { hits: { hits: [] } } });
+
+    await client.search('logs-payments-current', LAST_HOUR, 10);
+
+    expect(esHttp.post).toHaveBeenCalledWith('/logs-payments-current/_search', {
+      ...LAST_HOUR,
+      size: 10,
+    });
+  });
+
+  it('checks every ES|QL source when an index name contains METADATA', async () => {
+    const client = new ElasticsearchClient(
+      makeConfig({ allowedIndexPatterns: ['allowed-*'] }),
+    );
+    routeGets({
+      '/_resolve/index/': { indices: [], aliases: [], data_streams: [] },
+    });
+
+    await expect(
+      client.esqlQuery('FROM allowed-metadata, secret-idx', 5),
+    ).rejects.toThrow(
+      'Index "secret-idx" is not in the allowed index patterns',
+    );
+    expect(esHttp.post).not.toHaveBeenCalled();
+  });
+
+  it('skips the alias lookup when no allow-list is set', async () => {
+    const client = new ElasticsearchClient(makeConfig());
+    esHttp.post.mockResolvedValue({ data: { hits: { hits: [] } } });
+
+    await client.search('payments-all', LAST_HOUR, 10);
+
+    expect(esHttp.get).not.toHaveBeenCalled();
+  });
+});
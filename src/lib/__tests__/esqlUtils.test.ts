@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { splitEsqlPipeline, extractEsqlSources } from '../esqlUtils';
+
+describe('splitEsqlPipeline', () => {
+  it('splits a pipeline into upper-cased commands', () => {
+    expect(
+      splitEsqlPipeline('from logs-* | where status == "failed" | stats c = count(*)'),
+    ).toEqual([
+      { name: 'FROM', args: 'logs-*' },
+      { name: 'WHERE', args: 'status == "failed"' },
+      { name: 'STATS', args: 'c = count(*)' },
+    ]);
+  });
+
+  it('keeps pipes inside string literals', () => {
+    const commands = splitEsqlPipeline(
+      'FROM logs | WHERE message == "a | b" | WHERE raw == """x | y"""',
+    );
+    expect(commands).toHaveLength(3);
+    expect(commands[1].args).toBe('message == "a | b"');
+    expect(commands[2].args).toBe('raw == """x | y"""');
+  });
+
+  it('strips line and block comments', () => {
+    const commands = splitEsqlPipeline(
+      'FROM logs // | DROP x\n| /* | ENRICH p */ LIMIT 5',
+    );
+    expect(commands).toEqual([
+      { name: 'FROM', args: 'logs' },
+      { name: 'LIMIT', args: '5' },
+    ]);
+  });
+
+  it('returns an empty array for an empty query', () => {
+    expect(splitEsqlPipeline('   ')).toEqual([]);
+  });
+});
+
+describe('extractEsqlSources', () => {
+  it('extracts comma-separated sources and ignores METADATA', () => {
+    expect(
+      extractEsqlSources('FROM logs-*, "transactions-2025" METADATA _id | LIMIT 1'),
+    ).toEqual(['logs-*', 'transactions-2025']);
+  });
+
+  it('keeps index names that contain METADATA', () => {
+    expect(
+      extractEsqlSources('FROM allowed-metadata, secret-idx | LIMIT 5'),
+    ).toEqual(['allowed-metadata', 'secret-idx']);
+    expect(extractEsqlSources('FROM metadata-logs')).toEqual(['metadata-logs']);
+  });
+
+  it('rejects a FROM without sources', () => {
+    expect(() => extractEsqlSources('FROM METADATA _id | LIMIT 1')).toThrow(
+      'names no index sources',
+    );
+  });
+
+  it('returns no sources for ROW pipelines', () => {
+    expect(extractEsqlSources('ROW a = 1')).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  indexFamily,
+  groupIndexFamilies,
+  parseByteSize,
+} from '../indexFamilies';
+
+describe('indexFamily', () => {
+  it('strips daily, monthly and compact date suffixes', () => {
+    expect(indexFamily('app-logs-2025.10.01')).toEqual({
+      family: 'app-logs',
+      pattern: 'app-logs-*',
+      date: '2025-10-01',
+    });
+    expect(indexFamily('metrics_2025-10')?.date).toBe('2025-10');
+    expect(indexFamily('audit-20251001')?.family).toBe('audit');
+  });
+
+  it('strips rollover counters, with or without a date', () => {
+    expect(indexFamily('transactions-000042')).toEqual({
+      family: 'transactions',
+      pattern: 'transactions-*',
+    });
+    expect(indexFamily('app-logs-2025.10.01-000003')).toEqual({
+      family: 'app-logs',
+      pattern: 'app-logs-*',
+      date: '2025-10-01',
+    });
+  });
+
+  it('ignores names without a recognized suffix', () => {
+    expect(indexFamily('customers')).toBeUndefined();
+    expect(indexFamily('index-7')).toBeUndefined();
+    expect(indexFamily('orders-2025.13')).toBeUndefined();
+  });
+});
+
+describe('groupIndexFamilies', () => {
+  it('groups members and drops single-member families', () => {
+    const groups = groupIndexFamilies([
+      'app-logs-2025.10.01',
+      'app-logs-2025.10.02',
+      'customers',
+      'audit-000001',
+    ]);
+
+    expect(Array.from(groups.keys())).toEqual(['app-logs']);
+    expect(groups.get('app-logs')?.members).toEqual([
+      'app-logs-2025.10.01',
+      'app-logs-2025.10.02',
+    ]);
+  });
+
+  it('narrows the pattern when it would cover indices outside the family', () => {
+    const groups = groupIndexFamilies([
+      'app-logs-2025.10.01',
+      'app-logs-2025.10.02',
+      'app-logs-archive',
+      'audit-000001',
+      'audit-000002',
+      'audit-000001-legacy',
+    ]);
+
+    expect(groups.get('app-logs')?.family.pattern).toBe('app-logs-2025.10.0*');
+    expect(groups.get('audit')?.family.pattern).toBe(
+      'audit-000001,audit-000002',
+    );
+  });
+
+  it('narrows the pattern to one the caller can query', () => {
+    const groups = groupIndexFamilies(
+      ['app-logs-2025.09.30', 'app-logs-2025.10.01'],
+      (pattern) => pattern.startsWith('app-logs-2025'),
+    );
+
+    expect(groups.get('app-logs')?.family.pattern).toBe('app-logs-2025.*');
+  });
+});
+
+describe('parseByteSize', () => {
+  it('parses _cat sizes into bytes', () => {
+    expect(parseByteSize('512b')).toBe(512);
+    expect(parseByteSize('1.5kb')).toBe(1536);
+    expect(parseByteSize('2gb')).toBe(2 * 1024 ** 3);
+  });
+
+  it('returns 0 for missing or unparseable sizes', () => {
+    expect(parseByteSize(undefined)).toBe(0);
+    expect(parseByteSize('')).toBe(0);
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import { matchTemplate, summarizeLifecycle } from '../indexLifecycle';
+
+const templates = [
+  {
+    name: 'logs',
+    index_template: { index_patterns: ['logs-*-*'], priority: 100 },
+  },
+  {
+    name: 'transactions',
+    index_template: { index_patterns: ['transactions-*'], priority: 200 },
+  },
+  {
+    name: 'catch-all',
+    index_template: { index_patterns: ['*'], priority: 0 },
+  },
+];
+
+const policies = {
+  'transactions-90d': {
+    policy: {
+      phases: {
+        hot: { min_age: '0ms', actions: { rollover: { max_age: '7d' } } },
+        warm: {
+          min_age: '30d',
+          actions: {
+            forcemerge: { max_num_segments: 1 },
+            shrink: { number_of_shards: 1 },
+          },
+        },
+        delete: { min_age: '90d', actions: { delete: {} } },
+      },
+    },
+  },
+};
+
+describe('matchTemplate', () => {
+  it('picks the highest-priority template with a matching pattern', () => {
+    expect(matchTemplate('transactions-000001', templates)).toEqual({
+      name: 'transactions',
+      priority: 200,
+    });
+    expect(matchTemplate('logs-payments-default', templates)?.name).toBe(
+      'logs',
+    );
+    expect(matchTemplate('customers', templates)?.name).toBe('catch-all');
+    expect(matchTemplate('customers', [])).toBeUndefined();
+  });
+});
+
+describe('summarizeLifecycle', () => {
+  it('reports phase, next phase, rollover and retention from the ILM policy', () => {
+    const [summary] = summarizeLifecycle({
+      ilm: {
+        'transactions-000001': {
+          index: 'transactions-000001',
+          managed: true,
+          policy: 'transactions-90d',
+          phase: 'hot',
+          action: 'rollover',
+          step: 'check-rollover-ready',
+          age: '3.2d',
+          step_info: { message: 'Waiting for [1] rollover conditions' },
+        },
+      },
+      dataStreamLifecycle: {},
+      policies,
+      templates,
+    });
+
+    expect(summary).toEqual({
+      index: 'transactions-000001',
+      data_stream: undefined,
+      managed_by: 'ilm',
+      policy: 'transactions-90d',
+      phase: 'hot',
+      action: 'rollover',
+      step: 'check-rollover-ready',
+      age: '3.2d',
+      next_phase: { phase: 'warm', min_age: '30d' },
+      next_action: { phase: 'warm', action: 'shrink' },
+      rollover: { max_age: '7d' },
+      retention: '90d',
+      info: 'Waiting for [1] rollover conditions',
+      error: undefined,
+      template: { name: 'transactions', priority: 200 },
+    });
+  });
+
+  it('reports failed ILM steps', () => {
+    const [summary] = summarizeLifecycle({
+      ilm: {
+        'transactions-000002': {
+          managed: true,
+          policy: 'transactions-90d',
+          phase: 'warm',
+          action: 'shrink',
+          step: 'ERROR',
+          failed_step: 'shrink',
+          failed_step_retry_count: 3,
+          is_auto_retryable_error: true,
+          step_info: {
+            type: 'illegal_argument_exception',
+            reason: 'index has no replicas',
+          },
+        },
+      },
+      dataStreamLifecycle: {},
+      policies,
+      templates: [],
+    });
+
+    expect(summary.error).toEqual({
+      failed_step: 'shrink',
+      type: 'illegal_argument_exception',
+      reason: 'index has no replicas',
+      retry_count: 3,
+      auto_retryable: true,
+    });
+    expect(summary.info).toBeUndefined();
+    expect(summary.next_phase).toEqual({ phase: 'delete', min_age: '90d' });
+    expect(summary.next_action).toEqual({
+      phase: 'warm',
+      action: 'forcemerge',
+    });
+  });
+
+  it('moves to the next phase once the current one is complete', () => {
+    const [summary] = summarizeLifecycle({
+      ilm: {
+        'transactions-000003': {
+          managed: true,
+          policy: 'transactions-90d',
+          phase: 'warm',
+          action: 'complete',
+          step: 'complete',
+        },
+      },
+      dataStreamLifecycle: {},
+      policies,
+      templates: [],
+    });
+
+    expect(summary.next_action).toEqual({ phase: 'delete', action: 'delete' });
+  });
+
+  it('reports data stream lifecycle retention and unmanaged indices', () => {
+    const summaries = summarizeLifecycle({
+      ilm: { customers: { index: 'customers', managed: false } },
+      dataStreamLifecycle: {
+        '.ds-logs-payments-default-2025.10.01-000003': {
+          managed_by_lifecycle: true,
+          time_since_index_creation: '12d',
+          lifecycle: { data_retention: '30d', effective_retention: '14d' },
+        },
+      },
+      policies: {},
+      templates,
+    });
+
+    expect(summaries.map((s) => s.index)).toEqual([
+      '.ds-logs-payments-default-2025.10.01-000003',
+      'customers',
+    ]);
+    expect(summaries[0]).toMatchObject({
+      data_stream: 'logs-payments-default',
+      managed_by: 'data_stream_lifecycle',
+      age: '12d',
+      retention: '14d',
+      template: { name: 'logs' },
+    });
+    expect(summaries[1]).toMatchObject({
+      managed_by: 'unmanaged',
+      retention: undefined,
+      template: { name: 'catch-all' },
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { validateReadOnlyQuery, validateIndexName } from '../inputSanitizer';
+import { validateReadOnlyQuery, validateReadOnlyEsql, validateIndexName } from '../inputSanitizer';
 
 describe('inputSanitizer', () => {
   describe('validateReadOnlyQuery', () => {
@@ -41,13 +41,172 @@ describe('inputSanitizer', () => {
       ).toThrow(/_bulk/);
     });
 
-    it('rejects queries with ctx._source keyword', () => {
+    it('rejects unknown top-level keys', () => {
       expect(() =>
         validateReadOnlyQuery({
           query: { match_all: {} },
           note: 'ctx._source.field = value',
         }),
-      ).toThrow(/ctx._source/);
+      ).toThrow(/unknown search body key "note" at \$\.note/);
+    });
+
+    it('allows field names and values that merely contain "script"', () => {
+      expect(() =>
+        validateReadOnlyQuery({
+          query: {
+            bool: {
+              must: [
+                { match: { transcript: 'JavaScript error' } },
+                { term: { script: 'payments.js' } },
+              ],
+            },
+          },
+          aggs: { by_script: { terms: { field: 'script_name' } } },
+        }),
+      ).not.toThrow();
+    });
+
+    it('reports the JSON path of a nested script_score', () => {
+      expect(() =>
+        validateReadOnlyQuery({
+          query: {
+            bool: {
+              filter: [
+                { term: { status: 'failed' } },
+                { function_score: { query: { match_all: {} }, script_score: { script: 'x' } } },
+              ],
+            },
+          },
+        }),
+      ).toThrow(/"script_score" is not allowed at \$\.query\.bool\.filter\[1\]\.function_score\.script_score/);
+    });
+
+    it('rejects scripted_metric aggregations in sub-aggregations', () => {
+      expect(() =>
+        validateReadOnlyQuery({
+          aggs: {
+            by_day: {
+              date_histogram: { field: '@timestamp', calendar_interval: 'day' },
+              aggs: { custom: { scripted_metric: { map_script: 'x' } } },
+            },
+          },
+        }),
+      ).toThrow(/\$\.aggs\.by_day\.aggs\.custom\.scripted_metric/);
+    });
+
+    it('rejects runtime field scripts but allows source-backed runtime fields', () => {
+      expect(() =>
+        validateReadOnlyQuery({
+          runtime_mappings: { day: { type: 'keyword', script: { source: "emit('x')" } } },
+        }),
+      ).toThrow(/\$\.runtime_mappings\.day\.script/);
+      expect(() =>
+        validateReadOnlyQuery({ runtime_mappings: { day: { type: 'keyword' } } }),
+      ).not.toThrow();
+    });
+
+    it('rejects stored script references', () => {
+      expect(() =>
+        validateReadOnlyQuery({
+          aggs: { total: { sum: { script: { id: 'calc-fees' } } } },
+        }),
+      ).toThrow(/stored script reference at \$\.aggs\.total\.sum\.script/);
+    });
+
+    it('rejects unknown query clauses and aggregation types', () => {
+      expect(() =>
+        validateReadOnlyQuery({ query: { percolate: { field: 'q' } } }),
+      ).toThrow(/unknown query clause "percolate" at \$\.query\.percolate/);
+      expect(() =>
+        validateReadOnlyQuery({ aggs: { x: { made_up: {} } } }),
+      ).toThrow(/unknown aggregation type "made_up"/);
+    });
+
+    it('rejects wrapper queries hidden in filter aggregations', () => {
+      expect(() =>
+        validateReadOnlyQuery({
+          aggs: { f: { filter: { wrapper: { query: 'eyJzY3JpcHQiOnt9fQ==' } } } },
+        }),
+      ).toThrow(/\$\.aggs\.f\.filter\.wrapper/);
+    });
+
+    it('rejects percolate queries in rescore queries', () => {
+      expect(() =>
+        validateReadOnlyQuery({
+          query: { match: { message: 'timeout' } },
+          rescore: {
+            window_size: 50,
+            query: { rescore_query: { percolate: { field: 'q' } } },
+          },
+        }),
+      ).toThrow(/\$\.rescore\.query\.rescore_query\.percolate/);
+    });
+
+    it('rejects percolate queries in significant_terms background filters', () => {
+      const aggs = (backgroundFilter: any) => ({
+        aggs: {
+          rising: {
+            significant_terms: {
+              field: 'error.code',
+              background_filter: backgroundFilter,
+            },
+          },
+        },
+      });
+
+      expect(() =>
+        validateReadOnlyQuery(aggs({ range: { '@timestamp': { lt: 'now-1h' } } })),
+      ).not.toThrow();
+      expect(() =>
+        validateReadOnlyQuery(aggs({ percolate: { field: 'q' } })),
+      ).toThrow(/\$\.aggs\.rising\.significant_terms\.background_filter\.percolate/);
+    });
+
+    it('rejects percolate queries in adjacency_matrix filters', () => {
+      expect(() =>
+        validateReadOnlyQuery({
+          aggs: {
+            pairs: {
+              adjacency_matrix: {
+                filters: {
+                  failed: { term: { status: 'failed' } },
+                  stored: { percolate: { field: 'q' } },
+                },
+              },
+            },
+          },
+        }),
+      ).toThrow(/\$\.aggs\.pairs\.adjacency_matrix\.filters\.stored\.percolate/);
+    });
+  });
+
+  describe('validateReadOnlyEsql', () => {
+    it('allows a FROM pipeline with processing commands', () => {
+      expect(() =>
+        validateReadOnlyEsql(
+          'FROM logs-* | WHERE status == "failed" | STATS c = COUNT(*) BY service.name | SORT c DESC',
+        ),
+      ).not.toThrow();
+    });
+
+    it('rejects an empty query', () => {
+      expect(() => validateReadOnlyEsql('  ')).toThrow(/empty/);
+    });
+
+    it('rejects pipelines that do not start with a source command', () => {
+      expect(() => validateReadOnlyEsql('WHERE a == 1')).toThrow(/must start with/);
+    });
+
+    it('rejects commands outside the allow-list', () => {
+      expect(() =>
+        validateReadOnlyEsql('FROM logs | ENRICH customers_policy'),
+      ).toThrow(/"ENRICH" is not allowed/);
+    });
+
+    it('does not treat pipes inside strings as commands', () => {
+      expect(() =>
+        validateReadOnlyEsql('FROM logs | WHERE message == "x | ENRICH y"'),
+      ).not.toThrow();
     });
   });
 
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { buildJourney, JourneyEvent } from '../journey';
+
+function event(
+  timestamp: string | undefined,
+  service: string | undefined,
+  extra: Partial<JourneyEvent> = {},
+): JourneyEvent {
+  return {
+    timestamp,
+    index: `${service ?? 'audit'}-2025.10`,
+    _id: `${service}-${timestamp}`,
+    service,
+    status: undefined,
+    message: undefined,
+    matched_field: 'uetr',
+    ...extra,
+  };
+}
+
+describe('buildJourney', () => {
+  it('orders events and collapses consecutive services into hops with latency', () => {
+    const journey = buildJourney(
+      [
+        event('2025-10-01T10:00:02Z', 'gateway', { status: 'success' }),
+        event('2025-10-01T10:00:00Z', 'gateway', { status: 'received' }),
+        event('2025-10-01T10:00:05Z', 'core-banking', { status: 'booked' }),
+      ],
+      60_000,
+    );
+
+    expect(journey.events.map((e) => e.timestamp)).toEqual([
+      '2025-10-01T10:00:00Z',
+      '2025-10-01T10:00:02Z',
+      '2025-10-01T10:00:05Z',
+    ]);
+    expect(journey.hops).toEqual([
+      {
+        service: 'gateway',
+        indices: ['gateway-2025.10'],
+        status: 'success',
+        start: '2025-10-01T10:00:00Z',
+        end: '2025-10-01T10:00:02Z',
+        events: 2,
+        latency_ms: undefined,
+      },
+      {
+        service: 'core-banking',
+        indices: ['core-banking-2025.10'],
+        status: 'booked',
+        start: '2025-10-01T10:00:05Z',
+        end: '2025-10-01T10:00:05Z',
+        events: 1,
+        latency_ms: 3000,
+      },
+    ]);
+    expect(journey.gaps).toEqual([]);
+  });
+
+  it('reports silences longer than the threshold as gaps', () => {
+    const journey = buildJourney(
+      [
+        event('2025-10-01T10:00:00Z', 'gateway'),
+        event('2025-10-01T10:00:01Z', 'sanctions'),
+        event('2025-10-01T10:45:01Z', 'sanctions'),
+      ],
+      300_000,
+    );
+
+    expect(journey.gaps).toEqual([
+      {
+        after: { service: 'sanctions', timestamp: '2025-10-01T10:00:01Z' },
+        before: { service: 'sanctions', timestamp: '2025-10-01T10:45:01Z' },
+        duration_ms: 2_700_000,
+      },
+    ]);
+  });
+
+  it('places events without a timestamp last and names their hop by index', () => {
+    const journey = buildJourney(
+      [event(undefined, undefined), event('2025-10-01T10:00:00Z', 'gateway')],
+      300_000,
+    );
+
+    expect(journey.events.map((e) => e.service)).toEqual([
+      'gateway',
+      undefined,
+    ]);
+    expect(journey.hops.map((h) => [h.service, h.latency_ms])).toEqual([
+      ['gateway', undefined],
+      ['audit-2025.10', undefined],
+    ]);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { tokenize, rankByKeywords } from '../keywordScoring';
+
+describe('tokenize', () => {
+  it('lowercases, splits identifiers and drops stop words', () => {
+    expect(tokenize('Where are the SEPA paymentFailures by_bank?')).toEqual([
+      'sepa',
+      'payment',
+      'fail',
+      'bank',
+    ]);
+  });
+
+  it('stems plurals and verb forms to a shared term', () => {
+    expect(tokenize('failed failure failures')).toEqual([
+      'fail',
+      'fail',
+      'fail',
+    ]);
+    expect(tokenize('process status')).toEqual(['process', 'status']);
+  });
+});
+
+describe('rankByKeywords', () => {
+  const docs = [
+    { title: 'Card authorizations', tags: 'cards' },
+    { title: 'SEPA payment failures', tags: 'payments' },
+    { title: 'Payments overview', tags: 'sepa' },
+  ];
+  const textOf = (d: (typeof docs)[number]) => [
+    { text: d.title, weight: 3 },
+    { text: d.tags, weight: 2 },
+  ];
+
+  it('ranks by weighted term matches and drops non-matching items', () => {
+    const ranked = rankByKeywords('failed SEPA payments', docs, textOf);
+
+    expect(ranked.map((r) => r.item.title)).toEqual([
+      'SEPA payment failures',
+      'Payments overview',
+    ]);
+    expect(ranked[0].matched_terms).toEqual(['fail', 'sepa', 'payment']);
+    expect(ranked[0].score).toBeGreaterThan(ranked[1].score);
+  });
+
+  it('returns nothing for a query made of stop words', () => {
+    expect(rankByKeywords('what is the', docs, textOf)).toEqual([]);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { parseKql, luceneToQuery } from '../kqlParser';
+
+describe('parseKql', () => {
+  it('returns match_all for an empty query', () => {
+    expect(parseKql('  ')).toEqual({ match_all: {} });
+  });
+
+  it('translates field:value into a match query', () => {
+    expect(parseKql('status:failed')).toEqual({ match: { status: 'failed' } });
+  });
+
+  it('combines and / or / not into bool clauses', () => {
+    expect(
+      parseKql('status:failed and (payment_type:SWIFT or payment_type:SEPA) and not channel:mobile'),
+    ).toEqual({
+      bool: {
+        filter: [
+          { match: { status: 'failed' } },
+          {
+            bool: {
+              should: [
+                { match: { payment_type: 'SWIFT' } },
+                { match: { payment_type: 'SEPA' } },
+              ],
+              minimum_should_match: 1,
+            },
+          },
+          { bool: { must_not: [{ match: { channel: 'mobile' } }] } },
+        ],
+      },
+    });
+  });
+
+  it('treats keywords case-insensitively', () => {
+    expect(parseKql('a:1 AND b:2')).toEqual({
+      bool: { filter: [{ match: { a: '1' } }, { match: { b: '2' } }] },
+    });
+  });
+
+  it('translates quoted values into match_phrase', () => {
+    expect(parseKql('message:"connection reset by peer"')).toEqual({
+      match_phrase: { message: 'connection reset by peer' },
+    });
+  });
+
+  it('joins unquoted multi-word values', () => {
+    expect(parseKql('message:connection reset and status:failed')).toEqual({
+      bool: {
+        filter: [
+          { match: { message: 'connection reset' } },
+          { match: { status: 'failed' } },
+        ],
+      },
+    });
+  });
+
+  it('expands value lists for a single field', () => {
+    expect(parseKql('status:(failed or rejected)')).toEqual({
+      bool: {
+        should: [{ match: { status: 'failed' } }, { match: { status: 'rejected' } }],
+        minimum_should_match: 1,
+      },
+    });
+  });
+
+  it('translates wildcards and exists', () => {
+    expect(parseKql('error_code:PAY-4*')).toEqual({
+      wildcard: { error_code: { value: 'PAY-4*' } },
+    });
+    expect(parseKql('trace.id:*')).toEqual({ exists: { field: 'trace.id' } });
+  });
+
+  it('treats escaped asterisks as literals', () => {
+    expect(parseKql('name:a\\*b')).toEqual({ match: { name: 'a*b' } });
+  });
+
+  it('translates range operators', () => {
+    expect(parseKql('amount >= 10000 and amount < 50000')).toEqual({
+      bool: {
+        filter: [
+          { range: { amount: { gte: '10000' } } },
+          { range: { amount: { lt: '50000' } } },
+        ],
+      },
+    });
+  });
+
+  it('translates nested queries with prefixed field paths', () => {
+    expect(parseKql('items:{ sku:ABC and qty > 2 }')).toEqual({
+      nested: {
+        path: 'items',
+        query: {
+          bool: {
+            filter: [
+              { match: { 'items.sku': 'ABC' } },
+              { range: { 'items.qty': { gt: '2' } } },
+            ],
+          },
+        },
+        score_mode: 'none',
+      },
+    });
+  });
+
+  it('translates free text into multi_match', () => {
+    expect(parseKql('"timeout exceeded"')).toEqual({
+      multi_match: { query: 'timeout exceeded', type: 'phrase', lenient: true },
+    });
+  });
+
+  it('reports the position of syntax errors', () => {
+    expect(() => parseKql('status:(failed or')).toThrow(/position 17/);
+    expect(() => parseKql('message:"unterminated')).toThrow(/unterminated/);
+  });
+});
+
+describe('luceneToQuery', () => {
+  it('wraps the string in a query_string query', () => {
+    expect(luceneToQuery('status:failed AND amount:[100 TO *]')).toEqual({
+      query_string: { query: 'status:failed AND amount:[100 TO *]', analyze_wildcard: true },
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { maskMessage, mineTemplates } from '../logTemplates';
+
+describe('maskMessage', () => {
+  it('masks timestamps, UUIDs, IPs, emails, identifiers and numbers', () => {
+    expect(
+      maskMessage(
+        '2025-10-01T09:12:44.120Z payment 3f2b8c1e-9a4d-4e2f-8b1a-0c9d8e7f6a5b for TX-48213 of 120.50 EUR from 10.0.3.17:8443 failed (ops@bank.example)',
+      ),
+    ).toBe(
+      '<TS> payment <UUID> for <ID> of <NUM> EUR from <IP> failed (<EMAIL>)',
+    );
+  });
+
+  it('keeps plain words and collapses whitespace', () => {
+    expect(maskMessage('  Connection   refused  ')).toBe('Connection refused');
+  });
+});
+
+describe('mineTemplates', () => {
+  it('groups masked messages and tracks time span, services and an example', () => {
+    const clusters = mineTemplates(
+      [
+        {
+          message: 'Timeout calling ledger after 3000 ms',
+          timestamp: '2025-10-01T10:00:00Z',
+          service: 'payments',
+        },
+        {
+          message: 'Timeout calling ledger after 5000 ms',
+          timestamp: '2025-10-01T09:00:00Z',
+          service: 'payments',
+        },
+        {
+          message: 'Timeout calling ledger after 4500 ms',
+          timestamp: '2025-10-01T11:00:00Z',
+          service: 'cards',
+        },
+        { message: 'Insufficient funds', service: 'payments' },
+      ],
+      10,
+    );
+
+    expect(clusters).toEqual([
+      {
+        template: 'Timeout calling ledger after <NUM> ms',
+        count: 3,
+        first_seen: '2025-10-01T09:00:00Z',
+        last_seen: '2025-10-01T11:00:00Z',
+        services: [
+          { service: 'payments', count: 2 },
+          { service: 'cards', count: 1 },
+        ],
+        example: 'Timeout calling ledger after 3000 ms',
+      },
+      {
+        template: 'Insufficient funds',
+        count: 1,
+        first_seen: undefined,
+        last_seen: undefined,
+        services: [{ service: 'payments', count: 1 }],
+        example: 'Insufficient funds',
+      },
+    ]);
+  });
+
+  it('merges templates differing in one word into a wildcard', () => {
+    const clusters = mineTemplates(
+      [
+        { message: 'Payment rejected by bank ING' },
+        { message: 'Payment rejected by bank ING' },
+        { message: 'Payment rejected by bank ABN' },
+        { message: 'Payment rejected by bank RABO' },
+        { message: 'Card rejected by issuer' },
+      ],
+      1,
+    );
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0]).toMatchObject({
+      template: 'Payment rejected by bank <*>',
+      count: 4,
+    });
+  });
+});
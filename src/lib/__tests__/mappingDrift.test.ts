@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { compareMappings, sortByGeneration } from '../mappingDrift';
+
+const mapping = (properties: Record<string, any>) => ({
+  mappings: { properties },
+});
+
+describe('sortByGeneration', () => {
+  it('orders dated and rollover indices oldest first', () => {
+    expect(
+      sortByGeneration([
+        'transactions-2025.07',
+        'transactions-2025.06',
+        'transactions-2024.12',
+      ]),
+    ).toEqual([
+      'transactions-2024.12',
+      'transactions-2025.06',
+      'transactions-2025.07',
+    ]);
+    expect(sortByGeneration(['audit-000010', 'audit-000009'])).toEqual([
+      'audit-000009',
+      'audit-000010',
+    ]);
+  });
+});
+
+describe('compareMappings', () => {
+  const mappings = {
+    'transactions-2025.05': mapping({
+      amount: { type: 'long' },
+      legacy_ref: { type: 'keyword' },
+    }),
+    'transactions-2025.06': mapping({
+      amount: { type: 'long' },
+      legacy_ref: { type: 'keyword' },
+    }),
+    'transactions-2025.07': mapping({
+      amount: { type: 'scaled_float' },
+      channel: { type: 'keyword' },
+    }),
+  };
+  const order = [
+    'transactions-2025.05',
+    'transactions-2025.06',
+    'transactions-2025.07',
+  ];
+
+  it('reports type conflicts with the index where the type changed', () => {
+    const { type_conflicts } = compareMappings(mappings, order);
+
+    expect(type_conflicts).toEqual([
+      {
+        field: 'amount',
+        types: {
+          long: {
+            index_count: 2,
+            first_seen: 'transactions-2025.05',
+            last_seen: 'transactions-2025.06',
+          },
+          scaled_float: {
+            index_count: 1,
+            first_seen: 'transactions-2025.07',
+            last_seen: 'transactions-2025.07',
+          },
+        },
+        changes: [
+          {
+            index: 'transactions-2025.07',
+            date: '2025-07',
+            from: 'long',
+            to: 'scaled_float',
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('reports added and removed fields between generations', () => {
+    const { added, removed } = compareMappings(mappings, order);
+
+    expect(added).toEqual([
+      {
+        field: 'channel',
+        type: 'keyword',
+        first_seen: 'transactions-2025.07',
+        first_seen_date: '2025-07',
+      },
+    ]);
+    expect(removed).toEqual([
+      {
+        field: 'legacy_ref',
+        type: 'keyword',
+        last_seen: 'transactions-2025.06',
+        last_seen_date: '2025-06',
+      },
+    ]);
+  });
+
+  it('reports nothing for identical mappings', () => {
+    const same = mapping({ status: { type: 'keyword' } });
+    expect(compareMappings({ a: same, b: same }, ['a', 'b'])).toEqual({
+      indices: ['a', 'b'],
+      added: [],
+      removed: [],
+      type_conflicts: [],
+    });
+  });
+});
@@ -1,5 +1,11 @@
 import { describe, it, expect } from 'vitest';
-import { flattenProperties, FieldMapping } from '../mappingUtils';
+import {
+  aggregatableFieldFor,
+  applyFieldCaps,
+  flattenProperties,
+  flattenRuntimeFields,
+  FieldMapping,
+} from '../mappingUtils';
 
 describe('flattenProperties', () => {
   it('flattens simple top-level fields', () => {
@@ -127,3 +133,160 @@ describe('flattenProperties', () => {
     expect(result).toEqual([{ field: 'metadata.tag', type: 'keyword' }]);
   });
 });
+
+describe('flattenRuntimeFields', () => {
+  it('flags runtime fields', () => {
+    const result: FieldMapping[] = [];
+    flattenRuntimeFields(
+      { day_of_week: { type: 'keyword', script: { source: '...' } } },
+      result,
+    );
+
+    expect(result).toEqual([
+      { field: 'day_of_week', type: 'keyword', runtime: true },
+    ]);
+  });
+});
+
+describe('aggregatableFieldFor', () => {
+  const fields: FieldMapping[] = [
+    { field: 'status', type: 'keyword' },
+    { field: 'message', type: 'text' },
+    { field: 'customer_name', type: 'text' },
+    { field: 'customer_name.raw', type: 'keyword' },
+    { field: 'customer_name.keyword', type: 'keyword' },
+  ];
+
+  it('returns aggregatable fields as they are', () => {
+    expect(aggregatableFieldFor(fields, 'status')).toEqual({
+      field: 'status',
+      type: 'keyword',
+    });
+  });
+
+  it('prefers the .keyword multi-field of a text field', () => {
+    expect(aggregatableFieldFor(fields, 'customer_name')?.field).toBe(
+      'customer_name.keyword',
+    );
+  });
+
+  it('returns undefined for unmapped fields and text without a multi-field', () => {
+    expect(aggregatableFieldFor(fields, 'missing')).toBeUndefined();
+    expect(aggregatableFieldFor(fields, 'message')).toBeUndefined();
+  });
+});
+
+describe('applyFieldCaps', () => {
+  const caps = (type: string, searchable: boolean, aggregatable: boolean) => ({
+    [type]: { type, searchable, aggregatable },
+  });
+
+  it('adds searchable and aggregatable flags', () => {
+    const result = applyFieldCaps(
+      [
+        { field: 'amount', type: 'double' },
+        { field: 'payload', type: 'keyword' },
+      ],
+      {
+        fields: {
+          amount: caps('double', true, true),
+          payload: caps('keyword', false, false),
+        },
+      },
+    );
+
+    expect(result).toEqual([
+      { field: 'amount', type: 'double', searchable: true, aggregatable: true },
+      {
+        field: 'payload',
+        type: 'keyword',
+        searchable: false,
+        aggregatable: false,
+      },
+    ]);
+  });
+
+  it('points non-aggregatable fields at their .keyword sibling', () => {
+    const result = applyFieldCaps(
+      [
+        { field: 'message', type: 'text' },
+        { field: 'message.raw', type: 'keyword' },
+        { field: 'message.keyword', type: 'keyword' },
+      ],
+      {
+        fields: {
+          message: caps('text', true, false),
+          'message.raw': caps('keyword', true, true),
+          'message.keyword': caps('keyword', true, true),
+        },
+      },
+    );
+
+    expect(result[0].aggregatable_sibling).toBe('message.keyword');
+  });
+
+  it('falls back to another aggregatable multi-field', () => {
+    const result = applyFieldCaps(
+      [
+        { field: 'message', type: 'text' },
+        { field: 'message.raw', type: 'keyword' },
+      ],
+      {
+        fields: {
+          message: caps('text', true, false),
+          'message.raw': caps('keyword', true, true),
+        },
+      },
+    );
+
+    expect(result[0].aggregatable_sibling).toBe('message.raw');
+  });
+
+  it('does not treat properties of nested fields as siblings', () => {
+    const result = applyFieldCaps(
+      [
+        { field: 'items', type: 'nested' },
+        { field: 'items.sku', type: 'keyword' },
+      ],
+      {
+        fields: {
+          items: caps('nested', false, false),
+          'items.sku': caps('keyword', true, true),
+        },
+      },
+    );
+
+    expect(result[0].aggregatable_sibling).toBeUndefined();
+  });
+
+  it('reports conflicting types with the indices using each', () => {
+    const result = applyFieldCaps([{ field: 'amount', type: 'double' }], {
+      fields: {
+        amount: {
+          double: {
+            type: 'double',
+            searchable: true,
+            aggregatable: true,
+            indices: ['transactions-2025.07'],
+          },
+          keyword: {
+            type: 'keyword',
+            searchable: true,
+            aggregatable: true,
+            indices: ['transactions-2025.08'],
+          },
+        },
+      },
+    });
+
+    expect(result[0].conflicting_types).toEqual({
+      double: ['transactions-2025.07'],
+      keyword: ['transactions-2025.08'],
+    });
+  });
+
+  it('leaves fields missing from the response unchanged', () => {
+    const fields = [{ field: 'status', type: 'keyword' }];
+    expect(applyFieldCaps(fields, { fields: {} })).toEqual(fields);
+  });
+});
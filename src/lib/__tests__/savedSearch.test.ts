@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { toSearchRequest } from '../savedSearch';
+
+function savedSearch(source: Record<string, any>, attributes = {}) {
+  return {
+    id: 'failed-sepa',
+    type: 'search',
+    attributes: {
+      title: 'Failed SEPA instant payments',
+      columns: ['status', 'amount'],
+      sort: [['@timestamp', 'desc']],
+      kibanaSavedObjectMeta: {
+        searchSourceJSON: JSON.stringify({
+          indexRefName: 'kibanaSavedObjectMeta.searchSourceJSON.index',
+          ...source,
+        }),
+      },
+      ...attributes,
+    },
+    references: [
+      {
+        name: 'kibanaSavedObjectMeta.searchSourceJSON.index',
+        type: 'index-pattern',
+        id: 'payments-view',
+      },
+    ],
+  };
+}
+
+describe('toSearchRequest', () => {
+  it('translates the KQL query, columns, sort and data view reference', () => {
+    const request = toSearchRequest(
+      savedSearch({ query: { query: 'status:failed', language: 'kuery' } }),
+    );
+
+    expect(request).toEqual({
+      title: 'Failed SEPA instant payments',
+      data_view: { id: 'payments-view' },
+      body: {
+        query: { bool: { must: [{ match: { status: 'failed' } }] } },
+        sort: [{ '@timestamp': { order: 'desc' } }],
+      },
+      columns: ['status', 'amount'],
+      time_range: undefined,
+    });
+  });
+
+  it('routes filter pills by negation and skips disabled ones', () => {
+    const { body } = toSearchRequest(
+      savedSearch({
+        query: { query: 'scheme:SCT_INST', language: 'lucene' },
+        filter: [
+          {
+            meta: { key: 'amount', type: 'range', negate: false },
+            query: { range: { amount: { gte: 100, lt: 1000 } } },
+          },
+          {
+            meta: { key: 'channel', type: 'phrase', negate: true },
+            query: { match_phrase: { channel: 'batch' } },
+          },
+          {
+            meta: { key: 'region', type: 'phrase', disabled: true },
+            query: { match_phrase: { region: 'EU' } },
+          },
+          // Kibana 7.x stored the clause next to meta
+          {
+            meta: { key: 'bank_bic', type: 'exists' },
+            exists: { field: 'bank_bic' },
+            $state: { store: 'appState' },
+          },
+        ],
+      }),
+    );
+
+    expect(body.query.bool).toEqual({
+      must: [
+        { query_string: { query: 'scheme:SCT_INST', analyze_wildcard: true } },
+      ],
+      filter: [
+        { range: { amount: { gte: 100, lt: 1000 } } },
+        { exists: { field: 'bank_bic' } },
+      ],
+      must_not: [{ match_phrase: { channel: 'batch' } }],
+    });
+  });
+
+  it('turns combined OR pills into a should clause', () => {
+    const { body } = toSearchRequest(
+      savedSearch({
+        filter: [
+          {
+            meta: {
+              type: 'combined',
+              relation: 'OR',
+              params: [
+                { meta: {}, query: { match_phrase: { status: 'failed' } } },
+                { meta: {}, query: { match_phrase: { status: 'rejected' } } },
+              ],
+            },
+          },
+        ],
+      }),
+    );
+
+    expect(body.query.bool.filter).toEqual([
+      {
+        bool: {
+          should: [
+            { match_phrase: { status: 'failed' } },
+            { match_phrase: { status: 'rejected' } },
+          ],
+          minimum_should_match: 1,
+        },
+      },
+    ]);
+  });
+
+  it('keeps the stored time range and ad hoc data views', () => {
+    const request = toSearchRequest(
+      savedSearch(
+        { index: { title: 'payments-*', timeFieldName: 'settled_at' } },
+        {
+          columns: ['_source'],
+          timeRestore: true,
+          timeRange: { from: 'now-24h', to: 'now' },
+        },
+      ),
+    );
+
+    expect(request.data_view).toEqual({
+      title: 'payments-*',
+      time_field: 'settled_at',
+    });
+    expect(request.columns).toEqual([]);
+    expect(request.time_range).toEqual({ from: 'now-24h', to: 'now' });
+    expect(request.body.query).toBeUndefined();
+  });
+
+  it('rejects searches without a data view', () => {
+    const search = savedSearch({});
+    search.references = [];
+
+    expect(() => toSearchRequest(search)).toThrow(
+      'does not reference a data view',
+    );
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { encodeCursor, decodeCursor, SearchCursor } from '../searchCursor';
+import { redactPII } from '../piiRedaction';
+
+const cursor: SearchCursor = {
+  pit_id: 'i6-xAwEWc3RyaW5nX3BpdF9pZA==',
+  index: 'transactions-*',
+  body: { query: { match: { iban: 'DE89370400440532013000' } }, sort: ['_score'] },
+  size: 50,
+  search_after: [1.5, 4111111111111111],
+};
+
+describe('searchCursor', () => {
+  it('round-trips cursor state', () => {
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+  });
+
+  it('round-trips the include_metadata flag', () => {
+    const withMetadata = { ...cursor, include_metadata: true };
+    expect(decodeCursor(encodeCursor(withMetadata))).toEqual(withMetadata);
+  });
+
+  it('produces tokens that PII redaction leaves untouched', () => {
+    const token = encodeCursor(cursor);
+    const { redactedData, redactionCount } = redactPII({ next_cursor: token });
+    expect(redactionCount).toBe(0);
+    expect(redactedData.next_cursor).toBe(token);
+  });
+
+  it('rejects malformed tokens', () => {
+    expect(() => decodeCursor('not-a-cursor')).toThrow(/Invalid cursor/);
+    expect(() => decodeCursor('7b7d')).toThrow(/Invalid cursor/); // "{}"
+    expect(() => decodeCursor('7b')).toThrow(/Invalid cursor/); // "{"
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { buildHighlight, mapHits, valueAt } from '../searchHits';
+import { redactPII } from '../piiRedaction';
+
+const hit = {
+  _id: 'abc123',
+  _index: 'transactions-2025.07',
+  _score: 1.5,
+  sort: [1.5, 42],
+  _source: { status: 'failed', amount: 120 },
+};
+
+describe('buildHighlight', () => {
+  it('highlights each field with bounded fragments', () => {
+    expect(buildHighlight(['message', 'error.reason'])).toEqual({
+      pre_tags: ['<em>'],
+      post_tags: ['</em>'],
+      fragment_size: 150,
+      number_of_fragments: 3,
+      fields: { message: {}, 'error.reason': {} },
+    });
+  });
+});
+
+describe('mapHits', () => {
+  it('returns _source only when nothing else was requested', () => {
+    expect(mapHits([hit], { query: { match_all: {} } }, false)).toEqual([
+      { status: 'failed', amount: 120 },
+    ]);
+  });
+
+  it('includes hit metadata when requested', () => {
+    expect(mapHits([hit], {}, true)).toEqual([
+      {
+        _id: 'abc123',
+        _index: 'transactions-2025.07',
+        _score: 1.5,
+        sort: [1.5, 42],
+        _source: { status: 'failed', amount: 120 },
+      },
+    ]);
+  });
+
+  it('returns fields and highlights as objects without metadata', () => {
+    const [mapped] = mapHits(
+      [
+        {
+          ...hit,
+          fields: { 'customer_name.keyword': ['Jane'] },
+          highlight: { message: ['payment <em>declined</em> by issuer'] },
+        },
+      ],
+      {
+        fields: ['customer_name.keyword'],
+        highlight: buildHighlight(['message']),
+      },
+      false,
+    );
+
+    expect(mapped).toEqual({
+      _source: { status: 'failed', amount: 120 },
+      fields: { 'customer_name.keyword': ['Jane'] },
+      highlight: { message: ['payment <em>declined</em> by issuer'] },
+    });
+  });
+
+  it('unwraps highlight fragments that would hide PII from redaction', () => {
+    const [mapped] = mapHits(
+      [
+        {
+          ...hit,
+          highlight: {
+            message: [
+              'card <em>4111</em> 1111 1111 1111 declined',
+              'contact <em>john.doe</em>@bank.com',
+            ],
+          },
+        },
+      ],
+      { highlight: buildHighlight(['message']) },
+      false,
+    );
+
+    expect(mapped.highlight.message).toEqual([
+      'card 4111 1111 1111 1111 declined',
+      'contact john.doe@bank.com',
+    ]);
+    const redacted = redactPII(mapped.highlight).redactedData;
+    expect(JSON.stringify(redacted)).not.toContain('4111 1111 1111 1111');
+    expect(JSON.stringify(redacted)).not.toContain('john.doe@bank.com');
+  });
+
+  it('uses custom highlight tags from the body', () => {
+    const [mapped] = mapHits(
+      [{ ...hit, highlight: { message: ['card [4111] 1111 1111 1111'] } }],
+      {
+        highlight: {
+          pre_tags: ['['],
+          post_tags: [']'],
+          fields: { message: {} },
+        },
+      },
+      false,
+    );
+
+    expect(mapped.highlight.message).toEqual(['card 4111 1111 1111 1111']);
+  });
+});
+
+describe('valueAt', () => {
+  it('reads nested objects, dotted keys and mixes of both', () => {
+    expect(valueAt({ error: { message: 'boom' } }, 'error.message')).toBe(
+      'boom',
+    );
+    expect(valueAt({ 'error.message': 'boom' }, 'error.message')).toBe('boom');
+    expect(
+      valueAt({ service: { 'node.name': 'n1' } }, 'service.node.name'),
+    ).toBe('n1');
+    expect(valueAt({ error: 'boom' }, 'error.message')).toBeUndefined();
+  });
+});
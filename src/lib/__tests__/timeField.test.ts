@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from 'vitest';
+import { resolveTimeField } from '../timeField';
+import type { ElasticsearchClient } from '../esClient';
+
+function makeClient(dataViews: any[] | Error, properties: Record<string, any>) {
+  return {
+    getDataViewTimeFields: vi.fn(() =>
+      dataViews instanceof Error
+        ? Promise.reject(dataViews)
+        : Promise.resolve(dataViews),
+    ),
+    getMapping: vi.fn().mockResolvedValue({
+      'payments-2025.07': { mappings: { properties } },
+    }),
+  } as unknown as ElasticsearchClient;
+}
+
+describe('resolveTimeField', () => {
+  it('prefers the time field of a data view whose title matches the index', async () => {
+    const client = makeClient(
+      [
+        { attributes: { title: 'logs-*', timeFieldName: '@timestamp' } },
+        {
+          attributes: {
+            title: 'payments-*,settlements-*',
+            timeFieldName: 'settlement_date',
+          },
+        },
+      ],
+      { '@timestamp': { type: 'date' } },
+    );
+
+    expect(await resolveTimeField(client, 'payments-*')).toBe(
+      'settlement_date',
+    );
+    expect(client.getMapping).not.toHaveBeenCalled();
+  });
+
+  it('falls back to @timestamp when Kibana is unavailable', async () => {
+    const client = makeClient(new Error('ECONNREFUSED'), {
+      '@timestamp': { type: 'date' },
+      settlement_date: { type: 'date' },
+    });
+
+    expect(await resolveTimeField(client, 'payments-*')).toBe('@timestamp');
+  });
+
+  it('uses the only date field in the mapping', async () => {
+    const client = makeClient([], {
+      amount: { type: 'double' },
+      event: { properties: { time: { type: 'date_nanos' } } },
+    });
+
+    expect(await resolveTimeField(client, 'payments-*')).toBe('event.time');
+  });
+
+  it('counts runtime date fields alongside mapped ones', async () => {
+    const client = makeClient([], { amount: { type: 'double' } });
+    vi.mocked(client.getMapping).mockResolvedValue({
+      'payments-2025.07': {
+        mappings: {
+          properties: { amount: { type: 'double' } },
+          runtime: { booked_at: { type: 'date' } },
+        },
+      },
+    });
+
+    expect(await resolveTimeField(client, 'payments-*')).toBe('booked_at');
+  });
+
+  it('asks for time_field when several date fields are mapped', async () => {
+    const client = makeClient([], {
+      event_time: { type: 'date' },
+      settlement_date: { type: 'date' },
+    });
+
+    await expect(resolveTimeField(client, 'payments-*')).rejects.toThrow(
+      '"payments-*" has several date fields (event_time, settlement_date). Pass time_field to choose one.',
+    );
+  });
+
+  it('asks for time_field when no date field is mapped', async () => {
+    const client = makeClient([], { amount: { type: 'double' } });
+
+    await expect(resolveTimeField(client, 'payments-*')).rejects.toThrow(
+      /No date field found in "payments-\*"/,
+    );
+  });
+});
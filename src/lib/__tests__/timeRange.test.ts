@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyTimeRange,
+  previousWindow,
+  timeRangeFilter,
+  windowDurationMs,
+} from '../timeRange';
+
+const NOW = Date.parse('2025-10-01T12:00:00Z');
+
+describe('applyTimeRange', () => {
+  it('adds the range filter next to existing bool filters', () => {
+    const body = applyTimeRange(
+      { query: { bool: { filter: { term: { status: 'failed' } } } } },
+      'now-24h',
+      'event_time',
+    );
+    expect(body.query.bool.filter).toEqual([
+      { term: { status: 'failed' } },
+      timeRangeFilter('now-24h', 'event_time'),
+    ]);
+  });
+
+  it('filters up to an exclusive end', () => {
+    expect(timeRangeFilter({ from: 'now-2h', before: 'now-1h' })).toEqual({
+      range: { '@timestamp': { gte: 'now-2h', lt: 'now-1h' } },
+    });
+  });
+});
+
+describe('windowDurationMs', () => {
+  it('measures relative and absolute windows', () => {
+    expect(windowDurationMs('now-15m', NOW)).toBe(900_000);
+    expect(
+      windowDurationMs({ from: 'now-2d', to: 'now-1d', time_zone: '+02:00' }),
+    ).toBe(86_400_000);
+    expect(
+      windowDurationMs({
+        from: '2025-10-01T10:00:00Z',
+        to: '2025-10-01T12:30:00Z',
+      }),
+    ).toBe(9_000_000);
+  });
+
+  it('counts an inclusive date-only end as the whole day', () => {
+    expect(windowDurationMs({ from: '2025-09-01', to: '2025-09-30' })).toBe(
+      30 * 86_400_000,
+    );
+    expect(windowDurationMs({ from: '2025-09-01', before: '2025-10-01' })).toBe(
+      30 * 86_400_000,
+    );
+  });
+
+  it('reads bounds without an offset in the time zone', () => {
+    const now = Date.parse('2025-10-01T15:00:00Z');
+    expect(
+      windowDurationMs(
+        { from: '2025-10-01T14:00:00', time_zone: 'Europe/Amsterdam' },
+        now,
+      ),
+    ).toBe(3 * 3_600_000);
+    expect(
+      windowDurationMs(
+        { from: '2025-10-01T14:00:00', time_zone: '+02:00' },
+        now,
+      ),
+    ).toBe(3 * 3_600_000);
+    expect(
+      windowDurationMs(
+        { from: '2025-10-01T14:00:00+00:00', time_zone: '+02:00' },
+        now,
+      ),
+    ).toBe(3_600_000);
+    // The day the clocks go back lasts 25 hours
+    expect(
+      windowDurationMs({
+        from: '2025-10-26',
+        to: '2025-10-26',
+        time_zone: 'Europe/Amsterdam',
+      }),
+    ).toBe(25 * 3_600_000);
+  });
+
+  it('rejects calendar units and empty windows', () => {
+    expect(() => windowDurationMs('now-1M', NOW)).toThrow(
+      /Cannot derive the length/,
+    );
+    expect(() => windowDurationMs({ from: 'now', to: 'now-1h' }, NOW)).toThrow(
+      /is empty/,
+    );
+  });
+});
+
+describe('previousWindow', () => {
+  it('ends where a relative window starts', () => {
+    expect(previousWindow('now-1h', NOW)).toEqual({
+      from: 'now-1h-3600s',
+      before: 'now-1h',
+    });
+    expect(windowDurationMs(previousWindow('now-1h', NOW), NOW)).toBe(
+      3_600_000,
+    );
+  });
+
+  it('gives absolute UTC bounds before an absolute window', () => {
+    expect(
+      previousWindow({
+        from: '2025-10-01',
+        to: '2025-10-01',
+        time_zone: 'Europe/Amsterdam',
+      }),
+    ).toEqual({
+      from: '2025-09-29T22:00:00.000Z',
+      before: '2025-09-30T22:00:00.000Z',
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TtlCache } from '../ttlCache';
+
+describe('TtlCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns entries until they expire', () => {
+    const cache = new TtlCache<string>(1000, 10);
+    cache.set('mapping:logs', 'cached');
+
+    vi.advanceTimersByTime(999);
+    expect(cache.get('mapping:logs')).toBe('cached');
+
+    vi.advanceTimersByTime(1);
+    expect(cache.get('mapping:logs')).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+
+  it('evicts the least recently used entry when full', () => {
+    const cache = new TtlCache<number>(1000, 2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toBe(3);
+  });
+
+  it('restarts the expiry when an entry is set again', () => {
+    const cache = new TtlCache<number>(1000, 10);
+    cache.set('a', 1);
+    vi.advanceTimersByTime(800);
+    cache.set('a', 2);
+    vi.advanceTimersByTime(800);
+
+    expect(cache.get('a')).toBe(2);
+  });
+
+  it('deletes entries matching a predicate', () => {
+    const cache = new TtlCache<number>(1000, 10);
+    cache.set('mapping:logs', 1);
+    cache.set('field_caps:logs', 2);
+    cache.set('mapping:transactions', 3);
+
+    cache.deleteWhere((key) => key.endsWith(':logs'));
+
+    expect(cache.get('mapping:logs')).toBeUndefined();
+    expect(cache.get('field_caps:logs')).toBeUndefined();
+    expect(cache.get('mapping:transactions')).toBe(3);
+  });
+});
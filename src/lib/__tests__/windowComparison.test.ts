@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  fieldShift,
+  rankByShift,
+  significantValues,
+} from '../windowComparison';
+
+/** A `terms` bucket with per-window document counts. */
+function bucket(key: string, baseline: number, comparison: number) {
+  return {
+    key,
+    doc_count: baseline + comparison,
+    baseline: { doc_count: baseline },
+    comparison: { doc_count: comparison },
+  };
+}
+
+describe('fieldShift', () => {
+  it('reports new values, share changes and the distribution distance', () => {
+    const shift = fieldShift(
+      'error.code',
+      [
+        bucket('LEDGER_TIMEOUT', 0, 60),
+        bucket('CARD_DECLINED', 80, 30),
+        bucket('INSUFFICIENT_FUNDS', 20, 10),
+      ],
+      { baseline: 100, comparison: 100 },
+      2,
+    );
+
+    expect(shift.field).toBe('error.code');
+    expect(shift.new_values).toEqual([{ value: 'LEDGER_TIMEOUT', count: 60 }]);
+    expect(shift.top_changes).toEqual([
+      {
+        value: 'LEDGER_TIMEOUT',
+        baseline: 0,
+        comparison: 60,
+        baseline_share: 0,
+        comparison_share: 0.6,
+        change_pts: 60,
+      },
+      {
+        value: 'CARD_DECLINED',
+        baseline: 80,
+        comparison: 30,
+        baseline_share: 0.8,
+        comparison_share: 0.3,
+        change_pts: -50,
+      },
+    ]);
+    // (0.6 + 0.5 + 0.1) / 2
+    expect(shift.shift).toBe(0.6);
+  });
+
+  it('counts values outside the buckets as one remaining category', () => {
+    const shift = fieldShift(
+      'service.name',
+      [bucket('checkout', 50, 50)],
+      { baseline: 100, comparison: 200 },
+      10,
+    );
+
+    // checkout 0.5 -> 0.25, the rest 0.5 -> 0.75
+    expect(shift.shift).toBe(0.25);
+    expect(shift.new_values).toEqual([]);
+  });
+
+  it('leaves the shift unknown when a window is empty', () => {
+    expect(
+      fieldShift(
+        'host.name',
+        [bucket('pod-7', 0, 5)],
+        {
+          baseline: 0,
+          comparison: 5,
+        },
+        10,
+      ).shift,
+    ).toBeUndefined();
+  });
+});
+
+describe('significantValues', () => {
+  it('reads significant_terms buckets', () => {
+    expect(
+      significantValues({
+        doc_count: 120,
+        bg_count: 900,
+        buckets: [
+          { key: 'visa', doc_count: 90, bg_count: 100, score: 1.23456 },
+        ],
+      }),
+    ).toEqual([{ value: 'visa', comparison: 90, baseline: 100, score: 1.235 }]);
+    expect(significantValues(undefined)).toEqual([]);
+  });
+});
+
+describe('rankByShift', () => {
+  it('sorts by shift with unknown shifts last', () => {
+    const ranked = rankByShift([
+      { field: 'a', shift: undefined },
+      { field: 'b', shift: 0.1 },
+      { field: 'c', shift: 0.7 },
+    ]);
+    expect(ranked.map((f) => f.field)).toEqual(['c', 'b', 'a']);
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * Service health metrics from Elastic APM transaction and error documents.
+ *
+ * The APM app derives its service overview from raw `transaction` events
+ * (`transaction.duration.us`, `event.outcome`, `transaction.name`) and
+ * `error` events grouped by `error.grouping_key`. {@link transactionAggs}
+ * and {@link errorAggs} build the aggregations for one time window;
+ * {@link summarizeWindow} turns their buckets into throughput, error rate,
+ * latency percentiles, slowest transactions and top error groups, and
+ * {@link compareApmWindows} reports how a window differs from the previous
+ * one.
+ *
+ * @module
+ */
+import { valueAt } from './searchHits';
+
+const DURATION_FIELD = 'transaction.duration.us';
+
+/** Services listed when no service is selected. */
+const MAX_SERVICES = 20;
+
+/** Error fields read for an error group's example. */
+const ERROR_SOURCE_FIELDS = [
+  'error.exception',
+  'error.log.message',
+  'error.grouping_name',
+  'error.culprit',
+];
+
+/** Per-service health when no service is selected. */
+export interface ApmServiceSummary {
+  service: string;
+  transactions: number;
+  throughput_per_minute: number;
+  error_rate: number | undefined;
+  p95_ms: number | undefined;
+}
+
+/** Service health in one time window. */
+export interface ApmWindow {
+  transactions: number;
+  throughput_per_minute: number;
+  /**
+   * Share of failed transactions among those with a known outcome (0–1).
+   * `undefined` when no transaction has a known outcome.
+   */
+  error_rate: number | undefined;
+  latency_ms: {
+    p50: number | undefined;
+    p95: number | undefined;
+    p99: number | undefined;
+  };
+  /** Transaction names with the highest average latency. */
+  slow_transactions: {
+    name: string;
+    count: number;
+    avg_ms: number | undefined;
+    p95_ms: number | undefined;
+  }[];
+  /** Most frequent error groups. */
+  error_groups: {
+    grouping_key: string;
+    message: string | undefined;
+    culprit: string | undefined;
+    count: number;
+    last_seen: string | undefined;
+  }[];
+  /** Busiest services, when no service is selected. */
+  services?: ApmServiceSummary[];
+}
+
+/** Changes from the previous window to the current one. */
+export interface ApmChange {
+  /** Relative change in throughput, in percent. */
+  throughput_pct: number | undefined;
+  /** Difference in error rate, in percentage points. */
+  error_rate_pts: number | undefined;
+  p50_pct: number | undefined;
+  p95_pct: number | undefined;
+  p99_pct: number | undefined;
+  /** Current top error groups missing from the previous top groups. */
+  new_error_groups: string[];
+}
+
+/** Aggregations over `transaction` events for one window. */
+export function transactionAggs(
+  topN: number,
+  perService: boolean,
+): Record<string, any> {
+  return {
+    latency: {
+      percentiles: { field: DURATION_FIELD, percents: [50, 95, 99] },
+    },
+    outcomes: { terms: { field: 'event.outcome', size: 3 } },
+    slow_transactions: {
+      terms: {
+        field: 'transaction.name',
+        size: topN,
+        order: { avg_latency: 'desc' },
+      },
+      aggs: {
+        avg_latency: { avg: { field: DURATION_FIELD } },
+        latency: { percentiles: { field: DURATION_FIELD, percents: [95] } },
+      },
+    },
+    ...(perService
+      ? {
+          services: {
+            terms: { field: 'service.name', size: MAX_SERVICES },
+            aggs: {
+              outcomes: { terms: { field: 'event.outcome', size: 3 } },
+              latency: {
+                percentiles: { field: DURATION_FIELD, percents: [95] },
+              },
+            },
+          },
+        }
+      : {}),
+  };
+}
+
+/** Aggregations over `error` events for one window. */
+export function errorAggs(topN: number): Record<string, any> {
+  return {
+    error_groups: {
+      terms: { field: 'error.grouping_key', size: topN },
+      aggs: {
+        last_seen: { max: { field: '@timestamp' } },
+        example: {
+          top_hits: {
+            size: 1,
+            sort: [{ '@timestamp': 'desc' }],
+            _source: ERROR_SOURCE_FIELDS,
+          },
+        },
+      },
+    },
+  };
+}
+
+/** Microseconds to milliseconds, rounded to 0.1 ms. */
+function toMs(us: number | null | undefined): number | undefined {
+  return us == null ? undefined : Math.round(us / 100) / 10;
+}
+
+/** Reads one percentile from a `percentiles` aggregation result. */
+function percentile(agg: any, percent: number): number | undefined {
+  return toMs(agg?.values?.[percent.toFixed(1)] ?? agg?.values?.[percent]);
+}
+
+/** Failed share of known-outcome transactions, from `outcomes` buckets. */
+function errorRate(outcomes: any): number | undefined {
+  const counts: Record<string, number> = {};
+  for (const bucket of outcomes?.buckets ?? []) {
+    counts[bucket.key] = bucket.doc_count;
+  }
+  const failure = counts.failure ?? 0;
+  const known = failure + (counts.success ?? 0);
+  return known === 0 ? undefined : Math.round((failure / known) * 1e4) / 1e4;
+}
+
+/**
+ * Message of an error document: the first exception's message (APM stores
+ * `error.exception` as an array), the logged message, or the grouping name.
+ */
+function errorMessage(source: any): string | undefined {
+  const exceptions = valueAt(source, 'error.exception');
+  const message =
+    (Array.isArray(exceptions) ? exceptions[0] : exceptions)?.message ??
+    valueAt(source, 'error.log.message') ??
+    valueAt(source, 'error.grouping_name');
+  return message == null ? undefined : String(message);
+}
+
+/** Events per minute over a window of `durationMs`. */
+function perMinute(count: number, durationMs: number): number {
+  return Math.round((count / (durationMs / 60_000)) * 100) / 100;
+}
+
+/**
+ * Summarizes the aggregation buckets of one window.
+ *
+ * @param transactions - The window's bucket of the transaction search,
+ *   holding {@link transactionAggs} results.
+ * @param errors - The window's bucket of the error search, holding
+ *   {@link errorAggs} results, or `undefined` if errors are unavailable.
+ * @param durationMs - Window length, for throughput.
+ */
+export function summarizeWindow(
+  transactions: any,
+  errors: any,
+  durationMs: number,
+): ApmWindow {
+  const count = transactions?.doc_count ?? 0;
+  const window: ApmWindow = {
+    transactions: count,
+    throughput_per_minute: perMinute(count, durationMs),
+    error_rate: errorRate(transactions?.outcomes),
+    latency_ms: {
+      p50: percentile(transactions?.latency, 50),
+      p95: percentile(transactions?.latency, 95),
+      p99: percentile(transactions?.latency, 99),
+    },
+    slow_transactions: (transactions?.slow_transactions?.buckets ?? []).map(
+      (bucket: any) => ({
+        name: bucket.key,
+        count: bucket.doc_count,
+        avg_ms: toMs(bucket.avg_latency?.value),
+        p95_ms: percentile(bucket.latency, 95),
+      }),
+    ),
+    error_groups: (errors?.error_groups?.buckets ?? []).map((bucket: any) => {
+      const source = bucket.example?.hits?.hits?.[0]?._source;
+      const culprit = valueAt(source, 'error.culprit');
+      return {
+        grouping_key: bucket.key,
+        message: errorMessage(source),
+        culprit: culprit == null ? undefined : String(culprit),
+        count: bucket.doc_count,
+        last_seen: bucket.last_seen?.value_as_string,
+      };
+    }),
+  };
+  if (transactions?.services) {
+    window.services = transactions.services.buckets.map((bucket: any) => ({
+      service: bucket.key,
+      transactions: bucket.doc_count,
+      throughput_per_minute: perMinute(bucket.doc_count, durationMs),
+      error_rate: errorRate(bucket.outcomes),
+      p95_ms: percentile(bucket.latency, 95),
+    }));
+  }
+  return window;
+}
+
+/** Relative change in percent, rounded to 0.1. */
+function percentChange(
+  current: number | undefined,
+  previous: number | undefined,
+): number | undefined {
+  if (current === undefined || !previous) return undefined;
+  return Math.round(((current - previous) / previous) * 1000) / 10;
+}
+
+/** Compares a window against the previous window of equal length. */
+export function compareApmWindows(
+  current: ApmWindow,
+  previous: ApmWindow,
+): ApmChange {
+  const previousGroups = new Set(
+    previous.error_groups.map((group) => group.grouping_key),
+  );
+  return {
+    throughput_pct: percentChange(
+      current.throughput_per_minute,
+      previous.throughput_per_minute,
+    ),
+    error_rate_pts:
+      current.error_rate === undefined || previous.error_rate === undefined
+        ? undefined
+        : Math.round((current.error_rate - previous.error_rate) * 1e4) / 100,
+    p50_pct: percentChange(current.latency_ms.p50, previous.latency_ms.p50),
+    p95_pct: percentChange(current.latency_ms.p95, previous.latency_ms.p95),
+    p99_pct: percentChange(current.latency_ms.p99, previous.latency_ms.p99),
+    new_error_groups: current.error_groups
+      .filter((group) => !previousGroups.has(group.grouping_key))
+      .map((group) => group.grouping_key),
+  };
+}
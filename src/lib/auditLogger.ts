@@ -30,6 +30,10 @@ export interface AuditEntry {
   redacted_types: string[];
   /** Wall-clock execution time in milliseconds. */
   execution_time_ms: number;
+  /** Index metadata requests (mappings, field caps, index lists) served from cache. */
+  cache_hits: number;
+  /** Index metadata requests sent to Elasticsearch because nothing was cached. */
+  cache_misses: number;
   /** Whether the tool executed successfully or returned an error. */
   status: 'success' | 'error';
   /** Error message (only present when `status` is `'error'`). */
@@ -23,6 +23,37 @@ export interface ServerConfig {
   retryAttempts: number;
   /** Base delay in ms for exponential backoff between retries. */
   retryDelayMs: number;
+  /**
+   * Idle time in ms after which a paginated search's point-in-time is closed.
+   * Also sent to Elasticsearch as the PIT `keep_alive`.
+   */
+  pitIdleTimeoutMs: number;
+  /**
+   * Time in ms an async search result is kept before it is deleted. Also sent
+   * to Elasticsearch as the async search `keep_alive`.
+   */
+  asyncSearchTtlMs: number;
+  /**
+   * Time in ms index lists, mappings, field capabilities and data view time
+   * fields are cached for. `0` disables the cache.
+   */
+  cacheTtlMs: number;
+  /** Maximum number of cached responses before the least recently used is evicted. */
+  cacheMaxEntries: number;
+  /**
+   * How the query cost guard treats expensive searches: `limit` caps oversized
+   * aggregation sizes and rejects the rest, `reject` rejects everything over a
+   * threshold, `off` disables the guard.
+   */
+  queryCostMode: 'limit' | 'reject' | 'off';
+  /** Largest `size` allowed on a `terms`-style aggregation. */
+  maxAggBucketSize: number;
+  /** Largest estimated bucket count across a whole aggregation tree. */
+  maxAggBuckets: number;
+  /** Deepest aggregation nesting allowed. */
+  maxAggDepth: number;
+  /** Index size in bytes above which searches must carry a time filter. */
+  maxUnboundedSearchBytes: number;
   /** Kibana space slug (empty string = default space). */
   kibanaSpace: string;
   /** Whether to emit structured audit log entries to stderr. */
@@ -59,6 +90,13 @@ export function loadConfig(): ServerConfig {
   const maxSearchSizeRaw = parseInt(process.env.MAX_SEARCH_SIZE || '100', 10);
   const maxSearchSize = Math.min(Math.max(1, maxSearchSizeRaw), 500);
 
+  const queryCostMode = process.env.QUERY_COST_MODE || 'limit';
+  if (!['limit', 'reject', 'off'].includes(queryCostMode)) {
+    throw new Error(
+      `Invalid QUERY_COST_MODE "${queryCostMode}". Expected limit, reject or off.`,
+    );
+  }
+
   return {
     kibanaUrl,
     elasticsearchUrl,
@@ -70,6 +108,16 @@ export function loadConfig(): ServerConfig {
     requestTimeoutMs: parseInt(process.env.REQUEST_TIMEOUT_MS || '30000', 10),
     retryAttempts: parseInt(process.env.RETRY_ATTEMPTS || '3', 10),
     retryDelayMs: parseInt(process.env.RETRY_DELAY_MS || '1000', 10),
+    pitIdleTimeoutMs: parseInt(process.env.PIT_IDLE_TIMEOUT_MS || '300000', 10),
+    asyncSearchTtlMs: parseInt(process.env.ASYNC_SEARCH_TTL_MS || '3600000', 10),
+    cacheTtlMs: parseInt(process.env.CACHE_TTL_MS || '60000', 10),
+    cacheMaxEntries: parseInt(process.env.CACHE_MAX_ENTRIES || '500', 10),
+    queryCostMode: queryCostMode as ServerConfig['queryCostMode'],
+    maxAggBucketSize: parseInt(process.env.MAX_AGG_BUCKET_SIZE || '1000', 10),
+    maxAggBuckets: parseInt(process.env.MAX_AGG_BUCKETS || '10000', 10),
+    maxAggDepth: parseInt(process.env.MAX_AGG_DEPTH || '4', 10),
+    maxUnboundedSearchBytes:
+      parseFloat(process.env.MAX_UNBOUNDED_SEARCH_GB || '50') * 1024 ** 3,
     kibanaSpace: process.env.KIBANA_SPACE || '',
     auditEnabled: process.env.AUDIT_ENABLED !== 'false',
     piiRedactionEnabled: process.env.PII_REDACTION_ENABLED !== 'false',
@@ -0,0 +1,355 @@
+/**
+ * Query cost guardrails.
+ *
+ * Estimates how expensive a search body is before it reaches the cluster and
+ * either rejects it with a concrete suggestion or, where a safe fix exists,
+ * applies a limit automatically. Five signals are checked:
+ *
+ * 1. **Bucket sizes** — `terms`-style aggregations asking for more buckets
+ *    than {@link ServerConfig.maxAggBucketSize}. Capped in `limit` mode,
+ *    rejected in `reject` mode.
+ * 2. **Total buckets** — the estimated bucket count across the whole
+ *    aggregation tree (sizes multiply at each nesting level).
+ * 3. **Nesting depth** — aggregation trees deeper than
+ *    {@link ServerConfig.maxAggDepth}.
+ * 4. **Expensive query types** — leading wildcards in `wildcard`,
+ *    `query_string` and `regexp` queries, which scan the whole term
+ *    dictionary.
+ * 5. **Missing time bounds** — searches without a lower time bound against
+ *    indices larger than {@link ServerConfig.maxUnboundedSearchBytes}.
+ *
+ * Only bucket sizes have a safe automatic fix; everything else is rejected.
+ *
+ * @module
+ */
+import { ServerConfig } from './config';
+import { walkSearchBody } from './dslWalker';
+
+/** A query clause that forces a full term-dictionary scan. */
+export interface ExpensiveClause {
+  path: string;
+  reason: string;
+}
+
+/** An aggregation whose requested `size` exceeds the configured cap. */
+export interface OversizedAggregation {
+  path: string;
+  size: number;
+  /** The aggregation body, so the size can be capped in place. */
+  body: Record<string, any>;
+}
+
+/** Cost signals extracted from a search body. */
+export interface CostAnalysis {
+  /** Estimated number of buckets the aggregation tree will create. */
+  estimated_buckets: number;
+  /** Deepest aggregation nesting level (0 when there are no aggregations). */
+  aggregation_depth: number;
+  expensive_clauses: ExpensiveClause[];
+  oversized_aggregations: OversizedAggregation[];
+  /** Whether the query has a lower time bound (e.g., `@timestamp >= now-24h`). */
+  time_bounded: boolean;
+}
+
+/** Thresholds read from {@link ServerConfig}. */
+export type CostThresholds = Pick<
+  ServerConfig,
+  | 'queryCostMode'
+  | 'maxAggBucketSize'
+  | 'maxAggBuckets'
+  | 'maxAggDepth'
+  | 'maxUnboundedSearchBytes'
+>;
+
+/** Aggregations whose bucket count is set by their `size` parameter. */
+const SIZED_AGGREGATIONS: Record<string, number> = {
+  terms: 10,
+  multi_terms: 10,
+  significant_terms: 10,
+  significant_text: 10,
+  rare_terms: 10,
+  categorize_text: 10,
+  composite: 10,
+  geohash_grid: 10000,
+  geotile_grid: 10000,
+};
+
+/** Single-bucket aggregations. */
+const SINGLE_BUCKET_AGGREGATIONS = new Set([
+  'filter',
+  'missing',
+  'nested',
+  'reverse_nested',
+  'global',
+  'sampler',
+  'diversified_sampler',
+  'random_sampler',
+  'children',
+  'parent',
+]);
+
+/**
+ * Histogram bucket counts depend on data and interval; assume a generous
+ * fixed estimate so nested histograms still count toward the total.
+ */
+const HISTOGRAM_BUCKET_ESTIMATE = 100;
+
+const DATE_MATH = /^(now|\d{4}-\d{2}-\d{2})/;
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/** Number of buckets a single aggregation creates per parent bucket. */
+function bucketEstimate(type: string, body: any): number {
+  if (type in SIZED_AGGREGATIONS) {
+    return body?.size ?? SIZED_AGGREGATIONS[type];
+  }
+  if (SINGLE_BUCKET_AGGREGATIONS.has(type)) return 1;
+  if (type === 'filters') {
+    const filters = body?.filters;
+    const count = Array.isArray(filters)
+      ? filters.length
+      : Object.keys(filters ?? {}).length;
+    return count + (body?.other_bucket || body?.other_bucket_key ? 1 : 0);
+  }
+  if (type === 'adjacency_matrix') {
+    const n = Object.keys(body?.filters ?? {}).length;
+    return n + (n * (n - 1)) / 2;
+  }
+  if (type === 'range' || type === 'date_range' || type === 'ip_range') {
+    return body?.ranges?.length ?? 0;
+  }
+  if (type === 'auto_date_histogram' || type === 'variable_width_histogram') {
+    return body?.buckets ?? 10;
+  }
+  if (type === 'histogram' || type === 'date_histogram') {
+    return HISTOGRAM_BUCKET_ESTIMATE;
+  }
+  // Metric and pipeline aggregations create no buckets
+  return 0;
+}
+
+/** Recursively estimates buckets and depth for an aggregation tree. */
+function analyzeAggregations(
+  aggs: any,
+  path: string,
+  depth: number,
+  maxBucketSize: number,
+  oversized: OversizedAggregation[],
+): { buckets: number; depth: number } {
+  if (!isPlainObject(aggs)) return { buckets: 0, depth: depth - 1 };
+
+  let buckets = 0;
+  let maxDepth = depth;
+  for (const [name, definition] of Object.entries(aggs)) {
+    if (!isPlainObject(definition)) continue;
+    const defPath = `${path}.${name}`;
+    const childKey = definition.aggs ? 'aggs' : 'aggregations';
+    const type = Object.keys(definition).find(
+      (k) => k !== 'aggs' && k !== 'aggregations' && k !== 'meta',
+    );
+    if (!type) continue;
+
+    const body = definition[type];
+    if (
+      type in SIZED_AGGREGATIONS &&
+      typeof body?.size === 'number' &&
+      body.size > maxBucketSize
+    ) {
+      oversized.push({
+        path: `${defPath}.${type}.size`,
+        size: body.size,
+        body,
+      });
+    }
+
+    const children = analyzeAggregations(
+      definition[childKey],
+      `${defPath}.${childKey}`,
+      depth + 1,
+      maxBucketSize,
+      oversized,
+    );
+    buckets += bucketEstimate(type, body) * (1 + children.buckets);
+    maxDepth = Math.max(maxDepth, children.depth);
+  }
+  return { buckets, depth: maxDepth };
+}
+
+/** Returns a reason if the clause forces a leading-wildcard or regex scan. */
+function expensiveReason(type: string, body: any): string | undefined {
+  if (!isPlainObject(body)) return undefined;
+
+  if (type === 'wildcard' || type === 'regexp') {
+    for (const value of Object.values(body)) {
+      const pattern = isPlainObject(value)
+        ? (value.value ?? value.wildcard)
+        : value;
+      if (typeof pattern !== 'string') continue;
+      if (type === 'wildcard' && /^[*?]/.test(pattern)) {
+        return `leading wildcard "${pattern}"`;
+      }
+      if (type === 'regexp' && /^\.[*+]/.test(pattern)) {
+        return `leading regular expression "${pattern}"`;
+      }
+    }
+  }
+  if (
+    (type === 'query_string' || type === 'simple_query_string') &&
+    typeof body.query === 'string' &&
+    /(^|[\s(:])[*?]/.test(body.query)
+  ) {
+    return `leading wildcard in "${body.query}"`;
+  }
+  return undefined;
+}
+
+/** Whether a `range` clause body sets a lower time bound. */
+function hasLowerTimeBound(body: any): boolean {
+  if (!isPlainObject(body)) return false;
+  return Object.entries(body).some(([field, bounds]) => {
+    if (!isPlainObject(bounds)) return false;
+    const lower = bounds.gte ?? bounds.gt ?? bounds.from;
+    if (lower === undefined || lower === null) return false;
+    return (
+      field === '@timestamp' ||
+      (typeof lower === 'string' && DATE_MATH.test(lower))
+    );
+  });
+}
+
+/**
+ * Extracts cost signals from a search body without modifying it.
+ *
+ * @param body - Elasticsearch DSL search body.
+ * @param maxAggBucketSize - Sizes above this are reported as oversized.
+ */
+export function analyzeQueryCost(
+  body: Record<string, any>,
+  maxAggBucketSize: number,
+): CostAnalysis {
+  const expensive: ExpensiveClause[] = [];
+  let timeBounded = false;
+
+  walkSearchBody(body, {
+    queryClause: ({ type, body: clause, path }) => {
+      const reason = expensiveReason(type, clause);
+      if (reason) expensive.push({ path, reason });
+      // Ranges in aggregations and rescore queries do not narrow the search
+      if (
+        type === 'range' &&
+        path.startsWith('$.query.') &&
+        !path.includes('.must_not') &&
+        hasLowerTimeBound(clause)
+      ) {
+        timeBounded = true;
+      }
+    },
+  });
+
+  const oversized: OversizedAggregation[] = [];
+  const aggKey = body.aggs ? 'aggs' : 'aggregations';
+  const aggs = analyzeAggregations(
+    body[aggKey],
+    `$.${aggKey}`,
+    1,
+    maxAggBucketSize,
+    oversized,
+  );
+
+  return {
+    estimated_buckets: aggs.buckets,
+    aggregation_depth: Math.max(aggs.depth, 0),
+    expensive_clauses: expensive,
+    oversized_aggregations: oversized,
+    time_bounded: timeBounded,
+  };
+}
+
+function rejectCost(problem: string, suggestion: string): never {
+  throw new Error(
+    `Query rejected by cost guard: ${problem}. Suggestion: ${suggestion}`,
+  );
+}
+
+function formatBytes(bytes: number): string {
+  const gb = bytes / 1024 ** 3;
+  return gb >= 1024 ? `${(gb / 1024).toFixed(1)}tb` : `${gb.toFixed(1)}gb`;
+}
+
+/**
+ * Applies the cost guardrails to a search body.
+ *
+ * In `limit` mode oversized bucket sizes are capped and reported as
+ * adjustments; in `reject` mode they are rejected like every other signal.
+ * `off` disables the guard. The index size is only looked up when the query
+ * has no lower time bound.
+ *
+ * @param body - Elasticsearch DSL search body (not mutated).
+ * @param thresholds - Limits from {@link ServerConfig}.
+ * @param getIndexSizeBytes - Resolves the total store size of the target index.
+ * @returns The (possibly adjusted) body and a description of each adjustment.
+ * @throws {Error} With a concrete suggestion when the query is too expensive.
+ */
+export async function enforceQueryCost(
+  body: Record<string, any>,
+  thresholds: CostThresholds,
+  getIndexSizeBytes: () => Promise<number>,
+): Promise<{ body: Record<string, any>; adjustments: string[] }> {
+  if (thresholds.queryCostMode === 'off') return { body, adjustments: [] };
+
+  const guarded = JSON.parse(JSON.stringify(body));
+  const adjustments: string[] = [];
+  let analysis = analyzeQueryCost(guarded, thresholds.maxAggBucketSize);
+
+  if (analysis.aggregation_depth > thresholds.maxAggDepth) {
+    rejectCost(
+      `aggregations are nested ${analysis.aggregation_depth} levels deep (limit ${thresholds.maxAggDepth})`,
+      'flatten the aggregation tree, e.g. use a multi_terms or composite aggregation instead of nested terms aggregations.',
+    );
+  }
+
+  const [expensive] = analysis.expensive_clauses;
+  if (expensive) {
+    rejectCost(
+      `${expensive.reason} at ${expensive.path} scans every term in the index`,
+      'anchor the pattern with a literal prefix (e.g., "PAY-*"), or use a match query on an analyzed text field.',
+    );
+  }
+
+  for (const agg of analysis.oversized_aggregations) {
+    if (thresholds.queryCostMode === 'reject') {
+      rejectCost(
+        `aggregation at ${agg.path} requests ${agg.size} buckets (limit ${thresholds.maxAggBucketSize})`,
+        `lower size to at most ${thresholds.maxAggBucketSize}, or use a composite aggregation to page through buckets.`,
+      );
+    }
+    agg.body.size = thresholds.maxAggBucketSize;
+    adjustments.push(
+      `Capped ${agg.path} from ${agg.size} to ${thresholds.maxAggBucketSize}.`,
+    );
+  }
+  if (adjustments.length > 0) {
+    analysis = analyzeQueryCost(guarded, thresholds.maxAggBucketSize);
+  }
+
+  if (analysis.estimated_buckets > thresholds.maxAggBuckets) {
+    rejectCost(
+      `aggregations would create an estimated ${analysis.estimated_buckets} buckets (limit ${thresholds.maxAggBuckets})`,
+      'reduce the size of nested terms aggregations, widen histogram intervals, or split the question into several queries.',
+    );
+  }
+
+  if (!analysis.time_bounded) {
+    const sizeBytes = await getIndexSizeBytes();
+    if (sizeBytes > thresholds.maxUnboundedSearchBytes) {
+      rejectCost(
+        `no time filter on an index of ${formatBytes(sizeBytes)} (limit ${formatBytes(thresholds.maxUnboundedSearchBytes)} without one)`,
+        'add a time_range (e.g., "now-24h") or a range filter on the time field.',
+      );
+    }
+  }
+
+  return { body: guarded, adjustments };
+}
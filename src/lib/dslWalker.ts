@@ -0,0 +1,305 @@
+/**
+ * Structural traversal of Elasticsearch search bodies.
+ *
+ * Walks a DSL body the way Elasticsearch parses it — distinguishing query
+ * clauses, aggregations, and option keys from user-defined names such as
+ * field names and aggregation names — and reports each node to a visitor
+ * together with its JSON path (e.g., `$.query.bool.filter[0].range`).
+ *
+ * The walker only knows where sub-queries and sub-aggregations live. Policy
+ * (which clauses are allowed, which are expensive) belongs to the callers,
+ * such as {@link validateReadOnlyQuery}.
+ *
+ * @module
+ */
+
+/** A query clause such as `bool`, `match` or `range`. */
+export interface QueryClauseNode {
+  /** Clause type (e.g., `bool`, `wildcard`). */
+  type: string;
+  /** The clause body (the value under the clause type key). */
+  body: any;
+  /** JSON path of the clause type key. */
+  path: string;
+  /** Query nesting depth; top-level clauses are at depth 1. */
+  depth: number;
+}
+
+/** An aggregation definition such as `terms` or `date_histogram`. */
+export interface AggregationNode {
+  /** User-defined aggregation name. */
+  name: string;
+  /** Aggregation type (e.g., `terms`, `avg`). */
+  type: string;
+  /** The aggregation body (the value under the type key). */
+  body: any;
+  /** JSON path of the aggregation type key. */
+  path: string;
+  /** Aggregation nesting depth; top-level aggregations are at depth 1. */
+  depth: number;
+}
+
+/** A key in an option position (never a field name or aggregation name). */
+export interface OptionKeyNode {
+  key: string;
+  value: any;
+  /** JSON path of the key. */
+  path: string;
+}
+
+/** Callbacks invoked by {@link walkSearchBody}. All are optional. */
+export interface DslVisitor {
+  queryClause?: (node: QueryClauseNode) => void;
+  aggregation?: (node: AggregationNode) => void;
+  optionKey?: (node: OptionKeyNode) => void;
+}
+
+/** Keys of compound query clauses whose values are themselves queries. */
+const SUB_QUERY_KEYS: Record<string, string[]> = {
+  bool: ['must', 'should', 'filter', 'must_not'],
+  constant_score: ['filter'],
+  boosting: ['positive', 'negative'],
+  dis_max: ['queries'],
+  function_score: ['query'],
+  nested: ['query'],
+  has_child: ['query'],
+  has_parent: ['query'],
+  pinned: ['organic'],
+  span_near: ['clauses'],
+  span_or: ['clauses'],
+  span_not: ['include', 'exclude'],
+  span_first: ['match'],
+  span_containing: ['big', 'little'],
+  span_within: ['big', 'little'],
+  span_multi: ['match'],
+  field_masking_span: ['query'],
+};
+
+/**
+ * Leaf clauses whose first-level keys are field names
+ * (`{ term: { status: 'failed' } }`), so those keys are not options.
+ */
+const FIELD_KEYED_CLAUSES = new Set([
+  'match',
+  'match_phrase',
+  'match_phrase_prefix',
+  'match_bool_prefix',
+  'term',
+  'terms',
+  'terms_set',
+  'range',
+  'prefix',
+  'wildcard',
+  'regexp',
+  'fuzzy',
+  'geo_bounding_box',
+  'geo_distance',
+  'geo_polygon',
+  'geo_shape',
+  'shape',
+  'intervals',
+  'span_term',
+]);
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function malformed(path: string, expected: string): Error {
+  return new Error(`Query rejected: expected ${expected} at ${path}.`);
+}
+
+function walkOptions(value: any, path: string, visitor: DslVisitor): void {
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => walkOptions(item, `${path}[${i}]`, visitor));
+  } else if (isPlainObject(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      const childPath = `${path}.${key}`;
+      visitor.optionKey?.({ key, value: child, path: childPath });
+      walkOptions(child, childPath, visitor);
+    }
+  }
+}
+
+function walkQuery(
+  node: any,
+  path: string,
+  depth: number,
+  visitor: DslVisitor,
+): void {
+  if (!isPlainObject(node) || Object.keys(node).length !== 1) {
+    throw malformed(path, 'a single query clause');
+  }
+
+  const [[type, body]] = Object.entries(node);
+  const clausePath = `${path}.${type}`;
+  visitor.queryClause?.({ type, body, path: clausePath, depth });
+
+  if (!isPlainObject(body)) return;
+
+  const subQueryKeys = SUB_QUERY_KEYS[type] ?? [];
+  for (const [key, value] of Object.entries(body)) {
+    const keyPath = `${clausePath}.${key}`;
+    if (subQueryKeys.includes(key)) {
+      if (Array.isArray(value)) {
+        value.forEach((q, i) =>
+          walkQuery(q, `${keyPath}[${i}]`, depth + 1, visitor),
+        );
+      } else {
+        walkQuery(value, keyPath, depth + 1, visitor);
+      }
+      continue;
+    }
+    if (!FIELD_KEYED_CLAUSES.has(type)) {
+      visitor.optionKey?.({ key, value, path: keyPath });
+    }
+    walkOptions(value, keyPath, visitor);
+  }
+}
+
+function walkAggregations(
+  aggs: any,
+  path: string,
+  depth: number,
+  visitor: DslVisitor,
+): void {
+  if (!isPlainObject(aggs)) throw malformed(path, 'an aggregations object');
+
+  for (const [name, definition] of Object.entries(aggs)) {
+    const defPath = `${path}.${name}`;
+    if (!isPlainObject(definition))
+      throw malformed(defPath, 'an aggregation definition');
+
+    for (const [key, value] of Object.entries(definition)) {
+      const keyPath = `${defPath}.${key}`;
+      if (key === 'aggs' || key === 'aggregations') {
+        walkAggregations(value, keyPath, depth + 1, visitor);
+      } else if (key !== 'meta') {
+        visitor.aggregation?.({
+          name,
+          type: key,
+          body: value,
+          path: keyPath,
+          depth,
+        });
+        walkAggregationBody(key, value, keyPath, visitor);
+      }
+    }
+  }
+}
+
+/** Aggregation body keys holding a single query, by aggregation type. */
+const AGG_QUERY_KEYS: Record<string, string> = {
+  significant_terms: 'background_filter',
+  significant_text: 'background_filter',
+};
+
+/** Aggregation body keys holding an array or named map of queries, by aggregation type. */
+const AGG_QUERY_LIST_KEYS: Record<string, string> = {
+  filters: 'filters',
+  adjacency_matrix: 'filters',
+};
+
+function walkQueryList(value: any, path: string, visitor: DslVisitor): void {
+  if (Array.isArray(value)) {
+    value.forEach((q, i) => walkQuery(q, `${path}[${i}]`, 1, visitor));
+  } else if (isPlainObject(value)) {
+    for (const [bucket, q] of Object.entries(value)) {
+      walkQuery(q, `${path}.${bucket}`, 1, visitor);
+    }
+  } else {
+    throw malformed(path, 'an array or object of queries');
+  }
+}
+
+/** Walks an aggregation body, descending into embedded queries where the type defines them. */
+function walkAggregationBody(
+  type: string,
+  body: any,
+  path: string,
+  visitor: DslVisitor,
+): void {
+  if (type === 'filter') {
+    walkQuery(body, path, 1, visitor);
+    return;
+  }
+  const queryKey = AGG_QUERY_KEYS[type];
+  const queryListKey = AGG_QUERY_LIST_KEYS[type];
+  if (!isPlainObject(body) || (!queryKey && !queryListKey)) {
+    walkOptions(body, path, visitor);
+    return;
+  }
+  for (const [key, value] of Object.entries(body)) {
+    const keyPath = `${path}.${key}`;
+    if (key === queryKey) {
+      walkQuery(value, keyPath, 1, visitor);
+    } else if (key === queryListKey) {
+      walkQueryList(value, keyPath, visitor);
+    } else {
+      visitor.optionKey?.({ key, value, path: keyPath });
+      walkOptions(value, keyPath, visitor);
+    }
+  }
+}
+
+/** Walks `rescore` (one rescorer or an array), treating `query.rescore_query` as a query. */
+function walkRescore(rescore: any, path: string, visitor: DslVisitor): void {
+  if (Array.isArray(rescore)) {
+    rescore.forEach((r, i) => walkRescore(r, `${path}[${i}]`, visitor));
+    return;
+  }
+  if (!isPlainObject(rescore)) {
+    walkOptions(rescore, path, visitor);
+    return;
+  }
+  for (const [key, value] of Object.entries(rescore)) {
+    const keyPath = `${path}.${key}`;
+    visitor.optionKey?.({ key, value, path: keyPath });
+    if (key !== 'query' || !isPlainObject(value)) {
+      walkOptions(value, keyPath, visitor);
+      continue;
+    }
+    for (const [queryKey, queryValue] of Object.entries(value)) {
+      const queryKeyPath = `${keyPath}.${queryKey}`;
+      visitor.optionKey?.({
+        key: queryKey,
+        value: queryValue,
+        path: queryKeyPath,
+      });
+      if (queryKey === 'rescore_query') {
+        walkQuery(queryValue, queryKeyPath, 1, visitor);
+      } else {
+        walkOptions(queryValue, queryKeyPath, visitor);
+      }
+    }
+  }
+}
+
+/**
+ * Walks a search body, calling the visitor for every query clause,
+ * aggregation, and option key it contains.
+ *
+ * `query`, `post_filter` and rescore queries are walked as queries, `aggs` /
+ * `aggregations` as aggregation trees, and every other top-level value as
+ * options. Top-level
+ * keys themselves are not reported; callers can inspect them directly.
+ *
+ * @throws {Error} If a query or aggregation position holds a malformed value.
+ */
+export function walkSearchBody(
+  body: Record<string, any>,
+  visitor: DslVisitor,
+): void {
+  for (const [key, value] of Object.entries(body)) {
+    const path = `$.${key}`;
+    if (key === 'query' || key === 'post_filter') {
+      walkQuery(value, path, 1, visitor);
+    } else if (key === 'aggs' || key === 'aggregations') {
+      walkAggregations(value, path, 1, visitor);
+    } else if (key === 'rescore') {
+      walkRescore(value, path, visitor);
+    } else {
+      walkOptions(value, path, visitor);
+    }
+  }
+}
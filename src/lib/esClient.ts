@@ -5,15 +5,79 @@
  * (searches, mappings, cat APIs) and one for the Kibana API (saved objects,
  * spaces). Both share the same API key and respect the configured timeout.
  *
+ * Paginated searches use point-in-time (PIT) contexts. The client tracks every
+ * PIT it opens together with the index it was opened on, so a PIT can only be
+ * reused against an allowed index, and closes it once it has been idle for
+ * {@link ServerConfig.pitIdleTimeoutMs}.
+ *
+ * Every DSL search passes through the query cost guard
+ * ({@link enforceQueryCost}) first. Limits it applies automatically are
+ * reported on the response as `cost_adjustments`.
+ *
+ * Async searches are tracked the same way: only ids submitted by this client
+ * can be polled or cancelled, and results are deleted once
+ * {@link ServerConfig.asyncSearchTtlMs} elapses.
+ *
+ * Index lists, mappings, field capabilities, alias resolutions and data view
+ * time fields are cached for {@link ServerConfig.cacheTtlMs}, shared by all
+ * tool calls. Concurrent
+ * requests for the same entry share one in-flight request, failed requests
+ * are not cached, and a search that fails with a mapping error (unknown
+ * index, unmapped field) invalidates what is cached for its index and for
+ * every pattern that covers it.
+ *
  * All requests are wrapped in {@link ElasticsearchClient.withRetry | withRetry},
  * which applies exponential backoff on transient failures (HTTP 429, 503,
  * and network errors). Client errors (4xx except 429) are not retried.
  *
  * @module
  */
+import { AsyncLocalStorage } from 'node:async_hooks';
 import axios, { AxiosInstance } from 'axios';
+import { match } from 'dismatch';
+import type { Model } from 'dismatch';
 import { ServerConfig } from './config';
 import { validateIndexName } from './inputSanitizer';
+import { extractEsqlSources } from './esqlUtils';
+import { enforceQueryCost } from './costAnalyzer';
+import { TtlCache, CacheStats } from './ttlCache';
+
+/** How long async search submit/poll calls wait for completion before returning. */
+const ASYNC_SEARCH_WAIT = '1s';
+
+/** Data view titles and time fields, for time field detection. */
+const DATA_VIEW_TIME_FIELDS_PATH =
+  '/api/saved_objects/_find?type=index-pattern&fields=title&fields=timeFieldName&per_page=1000';
+
+/** Elasticsearch error types meaning cached metadata for the index may be stale. */
+const MAPPING_ERROR_TYPES = new Set([
+  'index_not_found_exception',
+  'query_shard_exception',
+  'mapper_parsing_exception',
+]);
+
+/**
+ * One search of a {@link ElasticsearchClient.multiSearch} batch after the
+ * access and cost checks: ready to send, or rejected with a reason.
+ */
+type CheckedSearch =
+  | Model<
+      'runnable',
+      {
+        index: string;
+        body: Record<string, any>;
+        size: number;
+        adjustments: string[];
+      }
+    >
+  | Model<'rejected', { reason: string }>;
+
+/** Attaches cost guard adjustments to a search response, if there were any. */
+function withCostAdjustments(data: any, adjustments: string[]): any {
+  return adjustments.length > 0
+    ? { ...data, cost_adjustments: adjustments }
+    : data;
+}
 
 /**
  * Authenticated HTTP client for Elasticsearch and Kibana.
@@ -25,9 +89,27 @@ export class ElasticsearchClient {
   private esHttp: AxiosInstance;
   private kibanaHttp: AxiosInstance;
   private config: ServerConfig;
+  /** Point-in-time contexts opened by this client, keyed by PIT id. */
+  private openPits = new Map<
+    string,
+    { index: string; timer: ReturnType<typeof setTimeout> }
+  >();
+
+  /** Async searches submitted by this client, keyed by async search id. */
+  private openAsyncSearches = new Map<
+    string,
+    { index: string; timer: ReturnType<typeof setTimeout> }
+  >();
+
+  /** Cached index metadata requests, keyed by `<kind>:<index>`. */
+  private cache: TtlCache<Promise<any>>;
+
+  /** Cache counters of the tool call the current request belongs to. */
+  private cacheStats = new AsyncLocalStorage<CacheStats>();
 
   constructor(config: ServerConfig) {
     this.config = config;
+    this.cache = new TtlCache(config.cacheTtlMs, config.cacheMaxEntries);
 
     this.esHttp = axios.create({
       baseURL: config.elasticsearchUrl,
@@ -63,42 +145,337 @@ export class ElasticsearchClient {
   validateIndex(index: string): void {
     validateIndexName(index);
 
-    if (this.config.allowedIndexPatterns.length > 0) {
-      const allowed = this.config.allowedIndexPatterns.some((pattern) =>
-        globMatch(pattern, index),
+    if (!this.isAllowed(index)) {
+      throw new Error(
+        `Index "${index}" is not in the allowed index patterns: ${this.config.allowedIndexPatterns.join(', ')}`,
+      );
+    }
+  }
+
+  /**
+   * Validates an index expression before data is read from it.
+   *
+   * In addition to {@link validateIndex}, when an allow-list is configured
+   * the expression is resolved via `_resolve/index` and every alias it
+   * matches must point only at allowed targets — otherwise an allowed alias
+   * name could expose indices outside the allowed patterns. Data stream
+   * backing indices are checked by their data stream name.
+   *
+   * @throws {Error} If the expression or any alias target is not allowed.
+   */
+  private async validateIndexAccess(index: string): Promise<void> {
+    this.validateIndex(index);
+    if (this.config.allowedIndexPatterns.length === 0) return;
+
+    const resolved = await this.cached(`resolve:${index}`, () =>
+      this.withRetry(async () => {
+        const response = await this.esHttp.get(`/_resolve/index/${index}`);
+        return response.data;
+      }),
+    );
+    for (const alias of resolved.aliases ?? []) {
+      const blocked = (alias.indices ?? []).find(
+        (target: string) => !this.isAllowed(dataStreamOf(target) ?? target),
       );
-      if (!allowed) {
+      if (blocked) {
         throw new Error(
-          `Index "${index}" is not in the allowed index patterns: ${this.config.allowedIndexPatterns.join(', ')}`,
+          `Alias "${alias.name}" points to "${blocked}", which is not in the allowed index patterns: ${this.config.allowedIndexPatterns.join(', ')}`,
         );
       }
     }
   }
 
+  /**
+   * Whether a name is covered by the allowed index patterns (or no
+   * allow-list is set). Index patterns are checked literally, so
+   * `logs-*` is allowed by `logs-*` but not by `logs-2025*`.
+   */
+  isAllowed(name: string): boolean {
+    return (
+      this.config.allowedIndexPatterns.length === 0 ||
+      this.config.allowedIndexPatterns.some((pattern) =>
+        globMatch(pattern, name),
+      )
+    );
+  }
+
   /**
    * Executes a read-only search against Elasticsearch.
    *
    * The `size` parameter is capped at {@link ServerConfig.maxSearchSize} to
-   * protect LLM token budgets and cluster resources.
+   * protect LLM token budgets and cluster resources, and the body is checked
+   * by the query cost guard.
    *
    * @param index - Index pattern to search (e.g., `transactions-*`).
    * @param body - Elasticsearch DSL query body.
    * @param size - Requested number of hits (will be capped server-side).
-   * @returns Raw Elasticsearch search response (`hits`, `aggregations`, etc.).
+   * @returns Raw Elasticsearch search response (`hits`, `aggregations`, etc.),
+   *   plus `cost_adjustments` if the cost guard changed the body.
+   * @throws {Error} If the cost guard rejects the query.
    */
   async search(
     index: string,
     body: Record<string, any>,
     size: number,
   ): Promise<any> {
-    this.validateIndex(index);
+    await this.validateIndexAccess(index);
+    const guarded = await this.guardQueryCost(index, body);
     const cappedSize = Math.min(size, this.config.maxSearchSize);
-    return this.withRetry(async () => {
+    const data = await this.withRetry(async () => {
       const response = await this.esHttp.post(`/${index}/_search`, {
-        ...body,
+        ...guarded.body,
         size: cappedSize,
       });
       return response.data;
+    }).catch(this.invalidateOnMappingError(index));
+    return withCostAdjustments(data, guarded.adjustments);
+  }
+
+  /**
+   * Counts matching documents via the `_count` API.
+   *
+   * Unlike a search, the count is exact regardless of `track_total_hits`
+   * and no documents are fetched. The query still passes through the query
+   * cost guard.
+   *
+   * @param index - Index pattern to count in.
+   * @param body - Count body (only `query` is allowed by Elasticsearch).
+   * @returns The exact number of matching documents.
+   */
+  async count(index: string, body: Record<string, any>): Promise<number> {
+    await this.validateIndexAccess(index);
+    const guarded = await this.guardQueryCost(index, body);
+    return this.withRetry(async () => {
+      const response = await this.esHttp.post(`/${index}/_count`, guarded.body);
+      return response.data.count;
+    }).catch(this.invalidateOnMappingError(index));
+  }
+
+  /**
+   * Executes several searches in one `_msearch` round trip.
+   *
+   * Each search is checked against the allowed index patterns and the query
+   * cost guard on its own; a search that fails either check is not sent and
+   * its slot in the result holds an `error` instead, so one bad search does
+   * not fail the batch.
+   *
+   * @param searches - Searches to run, each with an index, DSL body and size.
+   * @returns One entry per search, in order: the raw search response (plus
+   *   `cost_adjustments` if the guard changed the body) or `{ error }`.
+   */
+  async multiSearch(
+    searches: { index: string; body: Record<string, any>; size: number }[],
+  ): Promise<any[]> {
+    const checked = await Promise.all(
+      searches.map(async ({ index, body, size }): Promise<CheckedSearch> => {
+        try {
+          await this.validateIndexAccess(index);
+          const guarded = await this.guardQueryCost(index, body);
+          const cappedSize = Math.min(size, this.config.maxSearchSize);
+          return { type: 'runnable', index, ...guarded, size: cappedSize };
+        } catch (error) {
+          return { type: 'rejected', reason: (error as Error).message };
+        }
+      }),
+    );
+
+    const runnable = checked.flatMap((search) =>
+      match(search)({
+        runnable: ({ index, body, size }) => [{ index, body, size }],
+        rejected: () => [],
+      }),
+    );
+    let responses: any[] = [];
+    if (runnable.length > 0) {
+      const ndjson = runnable
+        .flatMap(({ index, body, size }) => [
+          JSON.stringify({ index }),
+          JSON.stringify({ ...body, size }),
+        ])
+        .join('\n');
+      responses = await this.withRetry(async () => {
+        const response = await this.esHttp.post('/_msearch', `${ndjson}\n`, {
+          headers: { 'Content-Type': 'application/x-ndjson' },
+        });
+        return response.data.responses;
+      });
+    }
+
+    let next = 0;
+    return checked.map((search) =>
+      match(search)({
+        runnable: ({ index, adjustments }) => {
+          const response = responses[next++];
+          if (isMappingError(response?.error)) this.invalidateCache(index);
+          return withCostAdjustments(response, adjustments);
+        },
+        rejected: ({ reason }) => ({ error: { reason } }),
+      }),
+    );
+  }
+
+  /**
+   * Opens a point-in-time context on an index for paginated searching.
+   *
+   * The body of the first page is checked by the query cost guard before
+   * the PIT is opened, so a rejected search leaves no PIT behind.
+   *
+   * @param index - Index pattern the PIT will cover.
+   * @param body - DSL body of the first page.
+   * @returns The PIT id to pass to {@link searchPointInTime}.
+   * @throws {Error} If the cost guard rejects the query.
+   */
+  async openPointInTime(
+    index: string,
+    body: Record<string, any>,
+  ): Promise<string> {
+    await this.validateIndexAccess(index);
+    await this.guardQueryCost(index, body);
+    const data = await this.withRetry(async () => {
+      const response = await this.esHttp.post(
+        `/${index}/_pit?keep_alive=${this.pitKeepAlive()}`,
+      );
+      return response.data;
+    });
+    this.trackPointInTime(data.id, index);
+    return data.id;
+  }
+
+  /**
+   * Executes a search page against a point-in-time opened by
+   * {@link openPointInTime}.
+   *
+   * The PIT must have been opened by this client on the same `index`, which
+   * is re-checked against the allowed patterns. Elasticsearch may rotate the
+   * PIT id between pages; the new id is returned as `pit_id` and tracked in
+   * place of the old one.
+   *
+   * @param pitId - PIT id from {@link openPointInTime} or a previous page.
+   * @param index - Index the PIT was opened on.
+   * @param body - Elasticsearch DSL query body (including `sort` / `search_after`).
+   * @param size - Requested number of hits (will be capped server-side).
+   */
+  async searchPointInTime(
+    pitId: string,
+    index: string,
+    body: Record<string, any>,
+    size: number,
+  ): Promise<any> {
+    const pit = this.openPits.get(pitId);
+    if (!pit || pit.index !== index) {
+      throw new Error(
+        'Point-in-time is unknown or has expired. Start a new paginated search.',
+      );
+    }
+    this.validateIndex(index);
+    const guarded = await this.guardQueryCost(index, body);
+    const cappedSize = Math.min(size, this.config.maxSearchSize);
+
+    const data = await this.withRetry(async () => {
+      const response = await this.esHttp.post('/_search', {
+        ...guarded.body,
+        size: cappedSize,
+        pit: { id: pitId, keep_alive: this.pitKeepAlive() },
+      });
+      return response.data;
+    }).catch(this.invalidateOnMappingError(index));
+
+    const nextPitId = data.pit_id ?? pitId;
+    if (nextPitId !== pitId) this.untrackPointInTime(pitId);
+    this.trackPointInTime(nextPitId, index);
+    return withCostAdjustments(
+      { ...data, pit_id: nextPitId },
+      guarded.adjustments,
+    );
+  }
+
+  /** Closes a point-in-time context and stops tracking it. */
+  async closePointInTime(pitId: string): Promise<void> {
+    this.untrackPointInTime(pitId);
+    await this.withRetry(async () => {
+      await this.esHttp.delete('/_pit', { data: { id: pitId } });
+    });
+  }
+
+  /**
+   * Submits a search to the `_async_search` API.
+   *
+   * Waits briefly for completion; searches that finish within that window
+   * return their full response and are not stored. Longer searches return an
+   * `id` (tracked by this client) to pass to {@link getAsyncSearch}.
+   *
+   * @param index - Index pattern to search.
+   * @param body - Elasticsearch DSL query body.
+   * @param size - Requested number of hits (will be capped server-side).
+   * @returns Raw async search response (`id`, `is_running`, `is_partial`, `response`).
+   */
+  async submitAsyncSearch(
+    index: string,
+    body: Record<string, any>,
+    size: number,
+  ): Promise<any> {
+    await this.validateIndexAccess(index);
+    const guarded = await this.guardQueryCost(index, body);
+    const cappedSize = Math.min(size, this.config.maxSearchSize);
+    const data = await this.withRetry(async () => {
+      const response = await this.esHttp.post(
+        `/${index}/_async_search?wait_for_completion_timeout=${ASYNC_SEARCH_WAIT}&keep_alive=${this.asyncSearchKeepAlive()}`,
+        { ...guarded.body, size: cappedSize },
+      );
+      return response.data;
+    }).catch(this.invalidateOnMappingError(index));
+    if (data.id && data.is_running) {
+      this.trackAsyncSearch(data.id, index);
+    }
+    return withCostAdjustments(data, guarded.adjustments);
+  }
+
+  /**
+   * Polls an async search submitted by {@link submitAsyncSearch}.
+   *
+   * @param id - Async search id.
+   * @returns Raw async search response with the latest (possibly partial) results.
+   */
+  async getAsyncSearch(id: string): Promise<any> {
+    this.assertAsyncSearch(id);
+    return this.withRetry(async () => {
+      const response = await this.esHttp.get(
+        `/_async_search/${encodeURIComponent(id)}?wait_for_completion_timeout=${ASYNC_SEARCH_WAIT}`,
+      );
+      return response.data;
+    });
+  }
+
+  /** Cancels a running async search (or deletes its stored result). */
+  async deleteAsyncSearch(id: string): Promise<void> {
+    this.assertAsyncSearch(id);
+    this.untrackAsyncSearch(id);
+    await this.withRetry(async () => {
+      await this.esHttp.delete(`/_async_search/${encodeURIComponent(id)}`);
+    });
+  }
+
+  /**
+   * Executes a read-only ES|QL query via the `_query` API.
+   *
+   * Every `FROM` source is checked against the allowed index patterns, and a
+   * trailing `LIMIT` capped at {@link ServerConfig.maxSearchSize} is appended
+   * so the pipeline can never return more rows than a DSL search would.
+   *
+   * @param query - ES|QL pipeline (e.g., `FROM logs-* | STATS count = COUNT(*) BY service.name`).
+   * @param limit - Requested number of rows (will be capped server-side).
+   * @returns Raw ES|QL response (`columns`, `values`).
+   */
+  async esqlQuery(query: string, limit: number): Promise<any> {
+    for (const source of extractEsqlSources(query)) {
+      await this.validateIndexAccess(source);
+    }
+    const cappedLimit = Math.min(limit, this.config.maxSearchSize);
+    return this.withRetry(async () => {
+      const response = await this.esHttp.post('/_query', {
+        query: `${query}\n| LIMIT ${cappedLimit}`,
+      });
+      return response.data;
     });
   }
 
@@ -109,9 +486,40 @@ export class ElasticsearchClient {
    * @returns Array of index metadata objects (index, health, status, docs.count, store.size).
    */
   async catIndices(pattern: string = '*'): Promise<any[]> {
+    return this.cached(`indices:${pattern}`, () =>
+      this.withRetry(async () => {
+        const response = await this.esHttp.get(
+          `/_cat/indices/${pattern}?format=json&h=index,health,status,docs.count,store.size`,
+        );
+        return response.data;
+      }),
+    );
+  }
+
+  /**
+   * Lists data streams via the `_data_stream` API.
+   *
+   * @param pattern - Data stream name or glob pattern (default `*`).
+   * @returns Array of data stream descriptors (`name`, `indices`, `template`,
+   *   `ilm_policy`, `timestamp_field`, `status`).
+   */
+  async getDataStreams(pattern: string = '*'): Promise<any[]> {
+    return this.withRetry(async () => {
+      const response = await this.esHttp.get(`/_data_stream/${pattern}`);
+      return response.data.data_streams ?? [];
+    });
+  }
+
+  /**
+   * Lists aliases via the `_cat/aliases` API.
+   *
+   * @param pattern - Alias name or glob pattern (default `*`).
+   * @returns One row per alias/target pair (`alias`, `index`, `is_write_index`).
+   */
+  async catAliases(pattern: string = '*'): Promise<any[]> {
     return this.withRetry(async () => {
       const response = await this.esHttp.get(
-        `/_cat/indices/${pattern}?format=json&h=index,health,status,docs.count,store.size`,
+        `/_cat/aliases/${pattern}?format=json&h=alias,index,is_write_index`,
       );
       return response.data;
     });
@@ -124,13 +532,124 @@ export class ElasticsearchClient {
    * @returns Raw Elasticsearch mapping response keyed by concrete index name.
    */
   async getMapping(index: string): Promise<any> {
-    this.validateIndex(index);
+    await this.validateIndexAccess(index);
+    return this.cached(`mapping:${index}`, () =>
+      this.withRetry(async () => {
+        const response = await this.esHttp.get(`/${index}/_mapping`);
+        return response.data;
+      }),
+    );
+  }
+
+  /**
+   * Runs `fn`, counting the cache hits and misses of the requests it makes
+   * into `stats`. Counts stay separate for tool calls running concurrently.
+   */
+  trackCacheStats<T>(stats: CacheStats, fn: () => Promise<T>): Promise<T> {
+    return this.cacheStats.run(stats, fn);
+  }
+
+  /**
+   * Drops cached metadata for `index` and for every cached pattern that
+   * overlaps it (`logs-*` for `logs-2025.10.01`, and the reverse), together
+   * with every cached index list, or the whole cache when no index is given.
+   */
+  invalidateCache(index?: string): void {
+    if (index === undefined) {
+      this.cache.clear();
+      return;
+    }
+    const targets = index.split(',');
+    this.cache.deleteWhere((key) => {
+      if (key.startsWith('indices:') || key.startsWith('index_size:')) {
+        return true;
+      }
+      const cachedFor = key.slice(key.indexOf(':') + 1).split(',');
+      return cachedFor.some((pattern) =>
+        targets.some(
+          (target) => globMatch(pattern, target) || globMatch(target, pattern),
+        ),
+      );
+    });
+  }
+
+  /**
+   * Retrieves field capabilities (type, searchability, aggregatability) for
+   * every field of an index pattern, including per-index type conflicts.
+   *
+   * @param index - Index name or pattern.
+   * @returns Raw `_field_caps` response (`indices`, `fields`).
+   */
+  async fieldCaps(index: string): Promise<any> {
+    await this.validateIndexAccess(index);
+    return this.cached(`field_caps:${index}`, () =>
+      this.withRetry(async () => {
+        const response = await this.esHttp.get(
+          `/${index}/_field_caps?fields=*`,
+        );
+        return response.data;
+      }),
+    );
+  }
+
+  /**
+   * Explains the ILM state of each index matching `index`.
+   *
+   * @returns `indices` from `_ilm/explain`, keyed by concrete index name.
+   */
+  async ilmExplain(index: string): Promise<Record<string, any>> {
+    await this.validateIndexAccess(index);
+    return this.withRetry(async () => {
+      const response = await this.esHttp.get(`/${index}/_ilm/explain`);
+      return response.data.indices ?? {};
+    });
+  }
+
+  /**
+   * Explains the data stream lifecycle state of each index matching
+   * `index` (Elasticsearch 8.11+).
+   *
+   * @returns `indices` from `_lifecycle/explain`, keyed by concrete index name.
+   */
+  async lifecycleExplain(index: string): Promise<Record<string, any>> {
+    await this.validateIndexAccess(index);
     return this.withRetry(async () => {
-      const response = await this.esHttp.get(`/${index}/_mapping`);
+      const response = await this.esHttp.get(`/${index}/_lifecycle/explain`);
+      return response.data.indices ?? {};
+    });
+  }
+
+  /** Lists ILM policies, keyed by policy name. */
+  async getIlmPolicies(): Promise<Record<string, any>> {
+    return this.withRetry(async () => {
+      const response = await this.esHttp.get('/_ilm/policy');
       return response.data;
     });
   }
 
+  /** Lists composable index templates (`name`, `index_template`). */
+  async getIndexTemplates(): Promise<any[]> {
+    return this.withRetry(async () => {
+      const response = await this.esHttp.get('/_index_template');
+      return response.data.index_templates ?? [];
+    });
+  }
+
+  /**
+   * Lists the title and time field of every data view in the Kibana space.
+   *
+   * @returns `index-pattern` saved objects with `title` and `timeFieldName`
+   *   attributes.
+   */
+  async getDataViewTimeFields(): Promise<any[]> {
+    return this.cached('data_views:time_fields', () =>
+      this.withRetry(async () => {
+        const response = await this.kibanaHttp.get(DATA_VIEW_TIME_FIELDS_PATH);
+        return response.data.saved_objects ?? [];
+      }),
+    );
+  }
+
   async kibanaGet(path: string): Promise<any> {
     return this.withRetry(async () => {
       const response = await this.kibanaHttp.get(path);
@@ -163,6 +682,126 @@ export class ElasticsearchClient {
     });
   }
 
+  /** Runs the query cost guard, looking up the index size only when needed. */
+  private guardQueryCost(
+    index: string,
+    body: Record<string, any>,
+  ): Promise<{ body: Record<string, any>; adjustments: string[] }> {
+    return enforceQueryCost(body, this.config, () =>
+      this.indexSizeBytes(index),
+    );
+  }
+
+  /** Total store size in bytes of every index matching a pattern. */
+  private async indexSizeBytes(index: string): Promise<number> {
+    const rows = await this.cached(`index_size:${index}`, () =>
+      this.withRetry(async () => {
+        const response = await this.esHttp.get(
+          `/_cat/indices/${index}?format=json&h=store.size&bytes=b`,
+        );
+        return response.data;
+      }),
+    );
+    return (rows as any[]).reduce(
+      (total, row) => total + (parseInt(row['store.size'], 10) || 0),
+      0,
+    );
+  }
+
+  /**
+   * Returns the cached response for `key`, or starts the request and caches
+   * its promise so concurrent callers share it. Rejected requests are
+   * removed from the cache.
+   */
+  private cached<T>(key: string, request: () => Promise<T>): Promise<T> {
+    if (this.config.cacheTtlMs <= 0) return request();
+
+    const stats = this.cacheStats.getStore();
+    const hit = this.cache.get(key);
+    if (hit) {
+      if (stats) stats.hits++;
+      return hit;
+    }
+    if (stats) stats.misses++;
+    const pending = request();
+    this.cache.set(key, pending);
+    pending.catch(() => {
+      // The entry may have been invalidated and refilled in the meantime
+      if (this.cache.get(key) === pending) this.cache.delete(key);
+    });
+    return pending;
+  }
+
+  /**
+   * Returns a rejection handler that invalidates cached metadata for `index`
+   * when the error is a mapping error, then rethrows.
+   */
+  private invalidateOnMappingError(index: string): (error: any) => never {
+    return (error) => {
+      if (isMappingError(error?.response?.data?.error)) {
+        this.invalidateCache(index);
+      }
+      throw error;
+    };
+  }
+
+  private pitKeepAlive(): string {
+    return `${Math.ceil(this.config.pitIdleTimeoutMs / 1000)}s`;
+  }
+
+  /** Starts (or restarts) the idle timer that closes a PIT. */
+  private trackPointInTime(pitId: string, index: string): void {
+    this.untrackPointInTime(pitId);
+    const timer = setTimeout(() => {
+      this.closePointInTime(pitId).catch(() => undefined);
+    }, this.config.pitIdleTimeoutMs);
+    timer.unref();
+    this.openPits.set(pitId, { index, timer });
+  }
+
+  private untrackPointInTime(pitId: string): void {
+    const pit = this.openPits.get(pitId);
+    if (pit) {
+      clearTimeout(pit.timer);
+      this.openPits.delete(pitId);
+    }
+  }
+
+  private asyncSearchKeepAlive(): string {
+    return `${Math.ceil(this.config.asyncSearchTtlMs / 1000)}s`;
+  }
+
+  /**
+   * Ensures an async search id was submitted by this client on an index
+   * that is still allowed.
+   */
+  private assertAsyncSearch(id: string): void {
+    const search = this.openAsyncSearches.get(id);
+    if (!search) {
+      throw new Error(
+        'Async search is unknown, already completed, or has expired. Submit it again.',
+      );
+    }
+    this.validateIndex(search.index);
+  }
+
+  /** Schedules deletion of an async search result once its TTL expires. */
+  private trackAsyncSearch(id: string, index: string): void {
+    const timer = setTimeout(() => {
+      this.deleteAsyncSearch(id).catch(() => undefined);
+    }, this.config.asyncSearchTtlMs);
+    timer.unref();
+    this.openAsyncSearches.set(id, { index, timer });
+  }
+
+  private untrackAsyncSearch(id: string): void {
+    const search = this.openAsyncSearches.get(id);
+    if (search) {
+      clearTimeout(search.timer);
+      this.openAsyncSearches.delete(id);
+    }
+  }
+
   private async withRetry<T>(fn: () => Promise<T>): Promise<T> {
     let lastError: any;
     for (let attempt = 0; attempt < this.config.retryAttempts; attempt++) {
@@ -188,6 +827,26 @@ export class ElasticsearchClient {
   }
 }
 
+/**
+ * Returns the data stream a backing index belongs to
+ * (`.ds-logs-payments-2025.10.01-000042` → `logs-payments`), if it is one.
+ */
+export function dataStreamOf(index: string): string | undefined {
+  return /^\.ds-(.+)-\d{4}\.\d{2}\.\d{2}-\d{6}$/.exec(index)?.[1];
+}
+
+/** Whether an Elasticsearch `error` object indicates stale index metadata. */
+function isMappingError(esError: any): boolean {
+  if (!esError || typeof esError !== 'object') return false;
+  const causes = [esError, ...(esError.root_cause ?? [])];
+  if (esError.caused_by) causes.push(esError.caused_by);
+  return causes.some(
+    (cause: any) =>
+      MAPPING_ERROR_TYPES.has(cause?.type) ||
+      /no mapping found|fielddata is disabled/i.test(cause?.reason ?? ''),
+  );
+}
+
 function globMatch(pattern: string, value: string): boolean {
   const regexStr = pattern
     .replace(/[.+^${}()|[\]\\]/g, '\\$&')
@@ -0,0 +1,101 @@
+/**
+ * Lightweight ES|QL pipeline parsing for validation purposes.
+ *
+ * The server never evaluates ES|QL itself — Elasticsearch does. These helpers
+ * only split a pipeline into its commands and extract the `FROM` sources so
+ * the read-only and index access control guardrails can run before the query
+ * reaches the cluster.
+ *
+ * @module
+ */
+
+/** A single command in an ES|QL pipeline (e.g., `WHERE status == "failed"`). */
+export interface EsqlCommand {
+  /** Upper-cased command keyword (e.g., `FROM`, `STATS`). */
+  name: string;
+  /** Everything after the command keyword, trimmed. */
+  args: string;
+}
+
+/**
+ * Split an ES|QL query into its pipe-delimited commands.
+ *
+ * Pipes inside string literals (`"..."` and `"""..."""`) are preserved and
+ * comments (`// ...` and `/* ... *\/`) are stripped, so neither can be used
+ * to smuggle a command past validation.
+ */
+export function splitEsqlPipeline(query: string): EsqlCommand[] {
+  const segments: string[] = [];
+  let current = '';
+  let i = 0;
+
+  while (i < query.length) {
+    const ch = query[i];
+
+    if (query.startsWith('"""', i)) {
+      const end = query.indexOf('"""', i + 3);
+      const stop = end === -1 ? query.length : end + 3;
+      current += query.slice(i, stop);
+      i = stop;
+    } else if (ch === '"') {
+      let j = i + 1;
+      while (j < query.length && query[j] !== '"') {
+        j += query[j] === '\\' ? 2 : 1;
+      }
+      current += query.slice(i, j + 1);
+      i = j + 1;
+    } else if (query.startsWith('//', i)) {
+      const end = query.indexOf('\n', i);
+      i = end === -1 ? query.length : end;
+      current += ' ';
+    } else if (query.startsWith('/*', i)) {
+      const end = query.indexOf('*/', i + 2);
+      i = end === -1 ? query.length : end + 2;
+      current += ' ';
+    } else if (ch === '|') {
+      segments.push(current);
+      current = '';
+      i++;
+    } else {
+      current += ch;
+      i++;
+    }
+  }
+  segments.push(current);
+
+  return segments
+    .map((segment) => segment.trim())
+    .filter(Boolean)
+    .map((segment) => {
+      const [, name, args] = segment.match(/^(\S+)\s*([\s\S]*)$/)!;
+      return { name: name.toUpperCase(), args: args.trim() };
+    });
+}
+
+/**
+ * Extract the index sources named by a leading `FROM` command.
+ *
+ * `FROM logs-*, "transactions-2025" METADATA _id` yields
+ * `['logs-*', 'transactions-2025']`. `METADATA` only ends the source list
+ * as its own token, so `FROM metadata-logs` still names `metadata-logs`.
+ * Returns an empty array for pipelines that do not start with `FROM`
+ * (e.g., `ROW` or `SHOW`).
+ *
+ * @throws If a `FROM` command names no sources.
+ */
+export function extractEsqlSources(query: string): string[] {
+  const [source] = splitEsqlPipeline(query);
+  if (!source || source.name !== 'FROM') return [];
+
+  const sources = source.args
+    .split(/(?:^|\s+)METADATA(?:\s+|$)/i)[0]
+    .split(',')
+    .map((s) => s.trim().replace(/^["`](.*)["`]$/, '$1'))
+    .filter(Boolean);
+  if (sources.length === 0) {
+    throw new Error(
+      'Query rejected: ES|QL FROM command names no index sources.',
+    );
+  }
+  return sources;
+}
@@ -0,0 +1,159 @@
+/**
+ * Grouping of time-based and rollover indices into families.
+ *
+ * Clusters often hold hundreds of indices that differ only by a date or
+ * rollover suffix (`app-logs-2025.10.01`, `app-logs-2025.10.02`, ...,
+ * `audit-000042`). Listing each one separately buries the few distinct
+ * datasets, so discovery reports them as one family — `app-logs`, queryable
+ * as `app-logs-*`.
+ *
+ * Recognized suffixes, separated by `-` or `_`:
+ * - dates: `2025.10.01`, `2025-10-01`, `20251001`, `2025.10` (optionally
+ *   followed by a rollover counter, as in `2025.10.01-000001`)
+ * - rollover counters: `000001`
+ *
+ * @module
+ */
+
+/** The family an index belongs to. */
+export interface IndexFamily {
+  /** Index name without its suffix (e.g., `app-logs`). */
+  family: string;
+  /**
+   * Index expression covering the family: a wildcard pattern (e.g.,
+   * `app-logs-*`), or the member names joined with `,` when no pattern
+   * covers exactly the family (see {@link groupIndexFamilies}).
+   */
+  pattern: string;
+  /** Date from the suffix as `YYYY-MM-DD` or `YYYY-MM`, if it has one. */
+  date?: string;
+}
+
+const DATED_SUFFIX =
+  /^(.+?)([-_])((?:19|20)\d{2})[.-]?(\d{2})(?:[.-]?(\d{2}))?(?:-\d{6})?$/;
+
+const ROLLOVER_SUFFIX = /^(.+)([-_])\d{6}$/;
+
+/**
+ * Returns the family of an index with a date or rollover suffix.
+ *
+ * @returns The family, or `undefined` if the name has no recognized suffix.
+ */
+export function indexFamily(index: string): IndexFamily | undefined {
+  const dated = DATED_SUFFIX.exec(index);
+  if (dated) {
+    const [, family, separator, year, month, day] = dated;
+    if (Number(month) >= 1 && Number(month) <= 12) {
+      return {
+        family,
+        pattern: `${family}${separator}*`,
+        date: day ? `${year}-${month}-${day}` : `${year}-${month}`,
+      };
+    }
+  }
+
+  const rollover = ROLLOVER_SUFFIX.exec(index);
+  if (rollover) {
+    const [, family, separator] = rollover;
+    return { family, pattern: `${family}${separator}*` };
+  }
+  return undefined;
+}
+
+/** Longest prefix shared by every name. */
+function commonPrefix(names: string[]): string {
+  return names.reduce((prefix, name) => {
+    let length = 0;
+    while (length < prefix.length && prefix[length] === name[length]) length++;
+    return prefix.slice(0, length);
+  });
+}
+
+/**
+ * Picks the expression a family is queried with: the family pattern
+ * (`app-logs-*`), else the members' common prefix (`app-logs-2025.10.*`),
+ * else the member list. A pattern is used only if `isQueryable` accepts it
+ * and it covers no index in `indices` outside the family — `app-logs-*`
+ * would also read `app-logs-archive`.
+ */
+function familyPattern(
+  family: IndexFamily,
+  members: string[],
+  indices: string[],
+  isQueryable: (pattern: string) => boolean,
+): string {
+  const memberSet = new Set(members);
+  const exact = (pattern: string) => {
+    const prefix = pattern.slice(0, -1);
+    return indices.every(
+      (index) => memberSet.has(index) || !index.startsWith(prefix),
+    );
+  };
+  return (
+    [family.pattern, `${commonPrefix(members)}*`].find(
+      (pattern) => exact(pattern) && isQueryable(pattern),
+    ) ?? members.join(',')
+  );
+}
+
+/**
+ * Groups index names by family. Only families with at least two members
+ * are returned; a lone dated index is better shown as itself.
+ *
+ * Each family's `pattern` reads exactly its members: when the wildcard
+ * pattern also covers other indices in `indices`, or `isQueryable` rejects
+ * it (e.g. an allow-list of `app-logs-2025*` does not admit `app-logs-*`),
+ * a narrower prefix pattern or the member list is used instead.
+ *
+ * @param indices - Index names to group; also the indices a family pattern
+ *   must not cover beyond its members.
+ * @param isQueryable - Whether a pattern may be queried (defaults to all).
+ * @returns Family name → its {@link IndexFamily} and member index names.
+ */
+export function groupIndexFamilies(
+  indices: string[],
+  isQueryable: (pattern: string) => boolean = () => true,
+): Map<string, { family: IndexFamily; members: string[] }> {
+  const groups = new Map<string, { family: IndexFamily; members: string[] }>();
+  for (const index of indices) {
+    const family = indexFamily(index);
+    if (!family) continue;
+    const group = groups.get(family.family) ?? { family, members: [] };
+    group.members.push(index);
+    groups.set(family.family, group);
+  }
+  for (const [name, group] of groups) {
+    if (group.members.length < 2) {
+      groups.delete(name);
+      continue;
+    }
+    const pattern = familyPattern(
+      group.family,
+      group.members,
+      indices,
+      isQueryable,
+    );
+    group.family = { ...group.family, pattern };
+  }
+  return groups;
+}
+
+const BYTE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+  tb: 1024 ** 4,
+  pb: 1024 ** 5,
+};
+
+/**
+ * Parses a `_cat` API size such as `1.2gb` or `500kb` into bytes.
+ *
+ * @returns The size in bytes, or 0 if the value is missing or unparseable.
+ */
+export function parseByteSize(size: string | undefined): number {
+  const match = /^([\d.]+)\s*([kmgtp]?b)$/i.exec(size?.trim() ?? '');
+  if (!match) return 0;
+  return Math.round(parseFloat(match[1]) * BYTE_UNITS[match[2].toLowerCase()]);
+}
@@ -0,0 +1,263 @@
+/**
+ * Per-index lifecycle summaries from ILM, data stream lifecycle and index
+ * template metadata.
+ *
+ * "Why is data older than 90 days missing?" is answered by three APIs that
+ * each hold part of the story: `_ilm/explain` (phase, age, failed steps),
+ * the ILM policy (rollover conditions and the delete phase age), and
+ * `_lifecycle/explain` for data streams managed by data stream lifecycle
+ * (retention). The index template explains where a policy came from.
+ * {@link summarizeLifecycle} joins them into one record per index.
+ *
+ * @module
+ */
+import { dataStreamOf } from './esClient';
+
+/** ILM phases in execution order. */
+const PHASES = ['new', 'hot', 'warm', 'cold', 'frozen', 'delete'];
+
+/**
+ * Order in which ILM runs the actions of each phase, whatever their order
+ * in the policy.
+ */
+const ACTION_ORDER: Record<string, string[]> = {
+  hot: [
+    'set_priority',
+    'unfollow',
+    'rollover',
+    'readonly',
+    'downsample',
+    'shrink',
+    'forcemerge',
+    'searchable_snapshot',
+  ],
+  warm: [
+    'set_priority',
+    'unfollow',
+    'readonly',
+    'downsample',
+    'allocate',
+    'migrate',
+    'shrink',
+    'forcemerge',
+  ],
+  cold: [
+    'set_priority',
+    'unfollow',
+    'readonly',
+    'downsample',
+    'searchable_snapshot',
+    'allocate',
+    'migrate',
+    'freeze',
+  ],
+  frozen: ['unfollow', 'searchable_snapshot'],
+  delete: ['wait_for_snapshot', 'delete'],
+};
+
+/** A failed ILM step. */
+export interface LifecycleError {
+  failed_step: string;
+  type: string | undefined;
+  reason: string | undefined;
+  retry_count: number | undefined;
+  /** Whether ILM retries the step on its own. */
+  auto_retryable: boolean | undefined;
+}
+
+/** Lifecycle state of one concrete index. */
+export interface IndexLifecycle {
+  index: string;
+  data_stream: string | undefined;
+  managed_by: 'ilm' | 'data_stream_lifecycle' | 'unmanaged';
+  policy: string | undefined;
+  phase: string | undefined;
+  action: string | undefined;
+  step: string | undefined;
+  /**
+   * ILM: time since the lifecycle date (rollover). Data stream lifecycle:
+   * time since creation.
+   */
+  age: string | undefined;
+  /** The phase the index enters next and the age at which it does. */
+  next_phase: { phase: string; min_age: string } | undefined;
+  /**
+   * The policy action ILM runs after the current one: a later action of the
+   * current phase, or else the first action of a following phase.
+   */
+  next_action: { phase: string; action: string } | undefined;
+  /** Rollover conditions of the policy's hot phase (e.g., `max_age`). */
+  rollover: Record<string, any> | undefined;
+  /**
+   * Age at which the index is deleted: the delete phase `min_age` (counted
+   * from rollover) or the data stream's effective retention. `undefined`
+   * when data is kept forever.
+   */
+  retention: string | undefined;
+  /** Waiting message from ILM, e.g. which rollover condition is unmet. */
+  info: string | undefined;
+  error: LifecycleError | string | undefined;
+  /** Index template that applies to the index (or its data stream). */
+  template: { name: string; priority: number } | undefined;
+}
+
+/** Raw responses {@link summarizeLifecycle} combines. */
+export interface LifecycleSources {
+  /** `indices` from `GET <index>/_ilm/explain`. */
+  ilm: Record<string, any>;
+  /** `indices` from `GET <index>/_lifecycle/explain`. */
+  dataStreamLifecycle: Record<string, any>;
+  /** `GET _ilm/policy` response, keyed by policy name. */
+  policies: Record<string, any>;
+  /** `index_templates` from `GET _index_template`. */
+  templates: any[];
+}
+
+/** Whether `name` matches an index template pattern such as `logs-*-*`. */
+function matchesPattern(name: string, pattern: string): boolean {
+  const regex = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${regex}$`).test(name);
+}
+
+/**
+ * Returns the composable index template Elasticsearch applies to an index
+ * or data stream name: the highest-priority template with a matching
+ * pattern.
+ */
+export function matchTemplate(
+  name: string,
+  templates: any[],
+): { name: string; priority: number } | undefined {
+  let best: { name: string; priority: number } | undefined;
+  for (const { name: templateName, index_template } of templates) {
+    const patterns: string[] = index_template?.index_patterns ?? [];
+    if (!patterns.some((pattern) => matchesPattern(name, pattern))) continue;
+    const priority = index_template.priority ?? 0;
+    if (!best || priority > best.priority) {
+      best = { name: templateName, priority };
+    }
+  }
+  return best;
+}
+
+/** First phase after `current` that the policy defines. */
+function nextPhase(
+  phases: Record<string, any>,
+  current: string | undefined,
+): IndexLifecycle['next_phase'] {
+  const start = current ? PHASES.indexOf(current) + 1 : 0;
+  for (const phase of PHASES.slice(start)) {
+    if (phases[phase]) {
+      return { phase, min_age: phases[phase].min_age ?? '0ms' };
+    }
+  }
+  return undefined;
+}
+
+/** The policy action that follows `action` of phase `current`. */
+function nextAction(
+  phases: Record<string, any>,
+  current: string | undefined,
+  action: string | undefined,
+): IndexLifecycle['next_action'] {
+  const start = Math.max(current ? PHASES.indexOf(current) : 0, 0);
+  for (const phase of PHASES.slice(start)) {
+    const order = ACTION_ORDER[phase] ?? [];
+    let from = 0;
+    if (phase === current) {
+      // A completed (or unknown) action means the phase has nothing left
+      const position = order.indexOf(action ?? '');
+      if (position === -1) continue;
+      from = position + 1;
+    }
+    const defined = phases[phase]?.actions ?? {};
+    const next = order.slice(from).find((name) => name in defined);
+    if (next) return { phase, action: next };
+  }
+  return undefined;
+}
+
+/**
+ * Builds one {@link IndexLifecycle} per index found in either explain
+ * response, sorted by index name.
+ */
+export function summarizeLifecycle({
+  ilm,
+  dataStreamLifecycle,
+  policies,
+  templates,
+}: LifecycleSources): IndexLifecycle[] {
+  const names = [
+    ...new Set([...Object.keys(ilm), ...Object.keys(dataStreamLifecycle)]),
+  ].sort();
+
+  return names.map((index) => {
+    const dataStream = dataStreamOf(index);
+    const summary: IndexLifecycle = {
+      index,
+      data_stream: dataStream,
+      managed_by: 'unmanaged',
+      policy: undefined,
+      phase: undefined,
+      action: undefined,
+      step: undefined,
+      age: undefined,
+      next_phase: undefined,
+      next_action: undefined,
+      rollover: undefined,
+      retention: undefined,
+      info: undefined,
+      error: undefined,
+      template: matchTemplate(dataStream ?? index, templates),
+    };
+
+    const explained = ilm[index];
+    const lifecycle = dataStreamLifecycle[index];
+    if (explained?.managed) {
+      // The policy body from _ilm/policy, falling back to the cached phase
+      // definition in the explain output
+      const phases: Record<string, any> =
+        policies[explained.policy]?.policy?.phases ??
+        (explained.phase_execution?.phase_definition
+          ? { [explained.phase]: explained.phase_execution.phase_definition }
+          : {});
+      const failed = explained.step === 'ERROR';
+      Object.assign(summary, {
+        managed_by: 'ilm',
+        policy: explained.policy,
+        phase: explained.phase,
+        action: explained.action,
+        step: explained.step,
+        age: explained.age,
+        next_phase: nextPhase(phases, explained.phase),
+        next_action: nextAction(phases, explained.phase, explained.action),
+        rollover: phases.hot?.actions?.rollover,
+        retention:
+          phases.delete?.min_age ?? (phases.delete ? '0ms' : undefined),
+        info: failed ? undefined : explained.step_info?.message,
+        error: failed
+          ? {
+              failed_step: explained.failed_step,
+              type: explained.step_info?.type,
+              reason: explained.step_info?.reason,
+              retry_count: explained.failed_step_retry_count,
+              auto_retryable: explained.is_auto_retryable_error,
+            }
+          : undefined,
+      });
+    } else if (lifecycle?.managed_by_lifecycle) {
+      Object.assign(summary, {
+        managed_by: 'data_stream_lifecycle',
+        age: lifecycle.time_since_index_creation,
+        retention:
+          lifecycle.lifecycle?.effective_retention ??
+          lifecycle.lifecycle?.data_retention,
+        error: lifecycle.error,
+      });
+    }
+    return summary;
+  });
+}
@@ -2,7 +2,10 @@
  * Input validation for Elasticsearch queries and index names.
  *
  * Provides two guardrails that run before any query reaches the cluster:
- * 1. **Read-only enforcement** — rejects queries containing write/script keywords.
+ * 1. **Read-only enforcement** — structurally validates DSL bodies against
+ *    allow-lists of search keys, query clauses and aggregation types, blocking
+ *    scripts wherever they can appear; rejects ES|QL pipelines using commands
+ *    outside a read-only allow-list.
  * 2. **Index name validation** — ensures names contain only safe characters.
  *
  * These checks are a defense-in-depth measure on top of Elastic's native RBAC.
@@ -11,28 +14,278 @@
  *
  * @module
  */
+import { splitEsqlPipeline } from './esqlUtils';
+import { walkSearchBody } from './dslWalker';
 
-/** Keywords that indicate a write or scripting operation. */
-const BLOCKED_KEYWORDS = ['script', '_update', '_delete', '_bulk', 'ctx._source'];
+/**
+ * Keys that execute scripts (inline or stored) or hide a query from
+ * inspection. Rejected wherever they appear as a search key, query clause,
+ * aggregation type, or option key — but never when they are a field name or
+ * a value.
+ */
+const BLOCKED_KEYS = new Set([
+  'script',
+  'script_score',
+  'script_fields',
+  '_script',
+  'minimum_should_match_script',
+  'scripted_metric',
+  'bucket_script',
+  'bucket_selector',
+  'moving_fn',
+  'wrapper',
+]);
+
+/** Top-level search body keys accepted by {@link validateReadOnlyQuery}. */
+const SEARCH_BODY_KEYS = new Set([
+  'query',
+  'post_filter',
+  'aggs',
+  'aggregations',
+  'size',
+  'from',
+  'sort',
+  'search_after',
+  '_source',
+  'fields',
+  'docvalue_fields',
+  'stored_fields',
+  'runtime_mappings',
+  'highlight',
+  'collapse',
+  'rescore',
+  'track_total_hits',
+  'track_scores',
+  'timeout',
+  'terminate_after',
+  'min_score',
+  'indices_boost',
+  'explain',
+  'version',
+  'seq_no_primary_term',
+  'profile',
+  'stats',
+]);
+
+/** Read-only query clauses accepted by {@link validateReadOnlyQuery}. */
+const QUERY_CLAUSES = new Set([
+  'match_all',
+  'match_none',
+  'match',
+  'match_phrase',
+  'match_phrase_prefix',
+  'match_bool_prefix',
+  'multi_match',
+  'combined_fields',
+  'query_string',
+  'simple_query_string',
+  'term',
+  'terms',
+  'terms_set',
+  'range',
+  'exists',
+  'prefix',
+  'wildcard',
+  'regexp',
+  'fuzzy',
+  'ids',
+  'bool',
+  'boosting',
+  'constant_score',
+  'dis_max',
+  'function_score',
+  'nested',
+  'has_child',
+  'has_parent',
+  'parent_id',
+  'geo_bounding_box',
+  'geo_distance',
+  'geo_grid',
+  'geo_polygon',
+  'geo_shape',
+  'shape',
+  'more_like_this',
+  'intervals',
+  'distance_feature',
+  'rank_feature',
+  'pinned',
+  'span_term',
+  'span_near',
+  'span_or',
+  'span_not',
+  'span_first',
+  'span_containing',
+  'span_within',
+  'span_multi',
+  'field_masking_span',
+]);
+
+/** Aggregation types accepted by {@link validateReadOnlyQuery}. */
+const AGGREGATION_TYPES = new Set([
+  // Bucket
+  'terms',
+  'multi_terms',
+  'rare_terms',
+  'significant_terms',
+  'significant_text',
+  'categorize_text',
+  'histogram',
+  'date_histogram',
+  'auto_date_histogram',
+  'variable_width_histogram',
+  'range',
+  'date_range',
+  'ip_range',
+  'filter',
+  'filters',
+  'adjacency_matrix',
+  'missing',
+  'nested',
+  'reverse_nested',
+  'children',
+  'parent',
+  'global',
+  'composite',
+  'sampler',
+  'diversified_sampler',
+  'random_sampler',
+  'geohash_grid',
+  'geotile_grid',
+  // Metric
+  'avg',
+  'sum',
+  'min',
+  'max',
+  'value_count',
+  'cardinality',
+  'stats',
+  'extended_stats',
+  'percentiles',
+  'percentile_ranks',
+  'median_absolute_deviation',
+  'weighted_avg',
+  'string_stats',
+  'boxplot',
+  'rate',
+  't_test',
+  'matrix_stats',
+  'top_hits',
+  'top_metrics',
+  'geo_bounds',
+  'geo_centroid',
+  // Pipeline
+  'avg_bucket',
+  'sum_bucket',
+  'min_bucket',
+  'max_bucket',
+  'stats_bucket',
+  'extended_stats_bucket',
+  'percentiles_bucket',
+  'derivative',
+  'cumulative_sum',
+  'cumulative_cardinality',
+  'serial_diff',
+  'bucket_sort',
+  'normalize',
+  'change_point',
+]);
+
+/** ES|QL commands that may start a pipeline. */
+const ESQL_SOURCE_COMMANDS = ['FROM', 'ROW', 'SHOW'];
+
+/**
+ * ES|QL processing commands that only transform the rows already in the
+ * pipeline. `ENRICH` and `LOOKUP JOIN` are deliberately excluded because they
+ * read from indices that are not named in the `FROM` command.
+ */
+const ESQL_PROCESSING_COMMANDS = [
+  'WHERE',
+  'EVAL',
+  'STATS',
+  'KEEP',
+  'DROP',
+  'RENAME',
+  'SORT',
+  'LIMIT',
+  'DISSECT',
+  'GROK',
+  'MV_EXPAND',
+];
 
 /** Only allow alphanumeric, hyphens, dots, asterisks, commas, and underscores. */
 const INDEX_NAME_REGEX = /^[a-zA-Z0-9\-.*,_]+$/;
 
+function rejectQuery(path: string, reason: string): never {
+  throw new Error(`Query rejected: ${reason} at ${path}. Only read-only queries are allowed.`);
+}
+
+function rejectBlockedKey(key: string, value: any, path: string): never {
+  if (key === 'script' && value !== null && typeof value === 'object' && 'id' in value) {
+    rejectQuery(path, 'stored script reference');
+  }
+  rejectQuery(path, `"${key}" is not allowed`);
+}
+
 /**
- * Rejects queries containing write or scripting keywords.
+ * Rejects search bodies that could execute scripts or are not plain
+ * read-only searches.
  *
- * Serializes the query to JSON and scans for blocked keywords. This prevents
- * the LLM from constructing update-by-query, delete, or script operations.
+ * Walks the body structurally (see {@link walkSearchBody}) rather than
+ * scanning its serialized text, so a field named `transcript` or a value
+ * like `"JavaScript error"` is accepted. Rejects:
+ * - top-level keys outside the search body allow-list (e.g., `_update`)
+ * - query clauses and aggregation types outside their allow-lists
+ * - script-bearing keys (`script`, `script_score`, `scripted_metric`,
+ *   runtime field scripts, stored script references, ...) in key positions
  *
- * @param query - The Elasticsearch DSL query object.
- * @throws {Error} If a blocked keyword is found in the serialized query.
+ * @param query - The Elasticsearch DSL search body.
+ * @throws {Error} Naming the JSON path of the offending clause
+ *   (e.g., `$.query.bool.filter[0].script`).
  */
 export function validateReadOnlyQuery(query: Record<string, any>): void {
-  const serialized = JSON.stringify(query).toLowerCase();
-  for (const keyword of BLOCKED_KEYWORDS) {
-    if (serialized.includes(keyword)) {
+  for (const [key, value] of Object.entries(query)) {
+    if (BLOCKED_KEYS.has(key)) rejectBlockedKey(key, value, `$.${key}`);
+    if (!SEARCH_BODY_KEYS.has(key)) rejectQuery(`$.${key}`, `unknown search body key "${key}"`);
+  }
+
+  walkSearchBody(query, {
+    queryClause: ({ type, body, path }) => {
+      if (BLOCKED_KEYS.has(type)) rejectBlockedKey(type, body, path);
+      if (!QUERY_CLAUSES.has(type)) rejectQuery(path, `unknown query clause "${type}"`);
+    },
+    aggregation: ({ type, body, path }) => {
+      if (BLOCKED_KEYS.has(type)) rejectBlockedKey(type, body, path);
+      if (!AGGREGATION_TYPES.has(type)) rejectQuery(path, `unknown aggregation type "${type}"`);
+    },
+    optionKey: ({ key, value, path }) => {
+      if (BLOCKED_KEYS.has(key)) rejectBlockedKey(key, value, path);
+    },
+  });
+}
+
+/**
+ * Rejects ES|QL pipelines that use commands outside the read-only allow-list.
+ *
+ * The first command must be a source command (`FROM`, `ROW`, `SHOW`) and every
+ * subsequent command must be a row-level processing command.
+ *
+ * @param query - The ES|QL query string.
+ * @throws {Error} If the pipeline is empty or contains a disallowed command.
+ */
+export function validateReadOnlyEsql(query: string): void {
+  const [source, ...rest] = splitEsqlPipeline(query);
+  if (!source) {
+    throw new Error('Query rejected: ES|QL query is empty.');
+  }
+  if (!ESQL_SOURCE_COMMANDS.includes(source.name)) {
+    throw new Error(
+      `Query rejected: ES|QL pipeline must start with one of ${ESQL_SOURCE_COMMANDS.join(', ')}, got "${source.name}".`,
+    );
+  }
+  for (const command of rest) {
+    if (!ESQL_PROCESSING_COMMANDS.includes(command.name)) {
       throw new Error(
-        `Query rejected: contains blocked keyword "${keyword}". Only read-only queries are allowed.`,
+        `Query rejected: ES|QL command "${command.name}" is not allowed. Only read-only queries are allowed.`,
       );
     }
   }
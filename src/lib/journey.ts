@@ -0,0 +1,122 @@
+/**
+ * Timeline assembly for a transaction traced across indices.
+ *
+ * Events about one transaction come from gateway logs, APM traces,
+ * core-banking events and audit records, each with its own service and
+ * status fields. {@link buildJourney} orders them in time, collapses
+ * consecutive events of the same service into hops, measures the latency
+ * between hops, and flags the gaps where nothing was recorded for longer
+ * than a threshold — usually where the trail goes cold.
+ *
+ * @module
+ */
+
+/** One document about the traced transaction. */
+export interface JourneyEvent {
+  /** ISO timestamp, when the document has one. */
+  timestamp: string | undefined;
+  index: string;
+  _id: string;
+  service: string | undefined;
+  status: string | undefined;
+  message: string | undefined;
+  /** Correlation field whose value matched the identifier. */
+  matched_field: string | undefined;
+  _source?: Record<string, any>;
+}
+
+/** Consecutive events of one service. */
+export interface JourneyHop {
+  /** Service name, or the index when events carry no service. */
+  service: string;
+  indices: string[];
+  /** Status of the hop's last event that has one. */
+  status: string | undefined;
+  start: string | undefined;
+  end: string | undefined;
+  events: number;
+  /** Time from the previous hop's last event to this hop's first event. */
+  latency_ms: number | undefined;
+}
+
+/** A stretch of time without events, longer than the gap threshold. */
+export interface JourneyGap {
+  after: { service: string; timestamp: string };
+  before: { service: string; timestamp: string };
+  duration_ms: number;
+}
+
+/** Result of {@link buildJourney}. */
+export interface Journey {
+  /** Events in time order; events without a timestamp come last. */
+  events: JourneyEvent[];
+  hops: JourneyHop[];
+  gaps: JourneyGap[];
+}
+
+/** Milliseconds since the epoch, or `undefined` for a missing timestamp. */
+function epochMs(timestamp: string | undefined): number | undefined {
+  if (timestamp === undefined) return undefined;
+  const ms = Date.parse(timestamp);
+  return Number.isNaN(ms) ? undefined : ms;
+}
+
+/**
+ * Orders events in time and derives hops and gaps.
+ *
+ * @param events - Events from all searched indices, in any order.
+ * @param gapThresholdMs - Minimum silence between consecutive events to
+ *   report as a gap.
+ */
+export function buildJourney(
+  events: JourneyEvent[],
+  gapThresholdMs: number,
+): Journey {
+  const ordered = events
+    .map((event, i) => ({ event, ms: epochMs(event.timestamp), i }))
+    .sort((a, b) => {
+      if (a.ms === undefined || b.ms === undefined) {
+        return a.ms === b.ms ? a.i - b.i : a.ms === undefined ? 1 : -1;
+      }
+      return a.ms - b.ms || a.i - b.i;
+    });
+
+  const hops: JourneyHop[] = [];
+  const gaps: JourneyGap[] = [];
+  let previous: { service: string; timestamp: string; ms: number } | undefined;
+
+  for (const { event, ms } of ordered) {
+    const service = event.service ?? event.index;
+    const last = hops[hops.length - 1];
+    if (last && last.service === service) {
+      last.events++;
+      if (!last.indices.includes(event.index)) last.indices.push(event.index);
+      last.status = event.status ?? last.status;
+      last.end = event.timestamp ?? last.end;
+    } else {
+      const lastMs = epochMs(last?.end);
+      hops.push({
+        service,
+        indices: [event.index],
+        status: event.status,
+        start: event.timestamp,
+        end: event.timestamp,
+        events: 1,
+        latency_ms:
+          lastMs !== undefined && ms !== undefined ? ms - lastMs : undefined,
+      });
+    }
+
+    if (ms === undefined) continue;
+    if (previous && ms - previous.ms > gapThresholdMs) {
+      gaps.push({
+        after: { service: previous.service, timestamp: previous.timestamp },
+        before: { service, timestamp: event.timestamp! },
+        duration_ms: ms - previous.ms,
+      });
+    }
+    previous = { service, timestamp: event.timestamp!, ms };
+  }
+
+  return { events: ordered.map(({ event }) => event), hops, gaps };
+}
@@ -0,0 +1,116 @@
+/**
+ * Local keyword scoring for ranking short documents against a question.
+ *
+ * Saved object titles and descriptions are short, so a plain keyword match
+ * ranks them well without an embedding model: the question is tokenized,
+ * stop words are dropped, and each remaining term contributes its inverse
+ * document frequency (rarer terms count more) times the weight of every
+ * field it appears in. Terms match on a shared stem, so "payment" finds
+ * "Payments" and "failed" finds "failures".
+ *
+ * @module
+ */
+
+/** A piece of text to score and how much a match in it counts. */
+export interface WeightedText {
+  text: string | undefined;
+  weight: number;
+}
+
+/** An item with its relevance score and the query terms it matched. */
+export interface Ranked<T> {
+  item: T;
+  score: number;
+  matched_terms: string[];
+}
+
+const STOP_WORDS = new Set(
+  (
+    'a about all an and any are as at be by can do does for from have how i ' +
+    'in is it me my of on or our show that the there this to was we were ' +
+    'what when where which who why with'
+  ).split(' '),
+);
+
+const SUFFIXES = ['ing', 'ures', 'ure', 'ed', 's'];
+
+/** Reduces a lowercase word to a crude stem by stripping a common suffix. */
+function stem(word: string): string {
+  for (const suffix of SUFFIXES) {
+    if (word.length - suffix.length < 4 || !word.endsWith(suffix)) continue;
+    // "process" and "status" are not plurals
+    if (suffix === 's' && /(ss|us)$/.test(word)) break;
+    return word.slice(0, -suffix.length);
+  }
+  return word;
+}
+
+/**
+ * Splits text into lowercase, stemmed terms, dropping stop words and
+ * one-character tokens. `camelCase`, `snake_case` and `kebab-case` words are
+ * split into their parts.
+ */
+export function tokenize(text: string | undefined): string[] {
+  return (text ?? '')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * Ranks items by how well their text matches a query.
+ *
+ * @param query - The user's question or keywords.
+ * @param items - Candidates to rank.
+ * @param textOf - The weighted texts of an item (e.g., title ×3, tags ×2).
+ * @returns Items with a score above zero, best first. Ties keep input order.
+ */
+export function rankByKeywords<T>(
+  query: string,
+  items: T[],
+  textOf: (item: T) => WeightedText[],
+): Ranked<T>[] {
+  const terms = [...new Set(tokenize(query))];
+  if (terms.length === 0) return [];
+
+  const indexed = items.map((item) => ({
+    item,
+    fields: textOf(item).map(({ text, weight }) => ({
+      terms: new Set(tokenize(text)),
+      weight,
+    })),
+  }));
+
+  const documentFrequency = new Map(
+    terms.map((term) => [
+      term,
+      indexed.filter(({ fields }) => fields.some((f) => f.terms.has(term)))
+        .length,
+    ]),
+  );
+
+  const ranked: Ranked<T>[] = [];
+  for (const { item, fields } of indexed) {
+    let score = 0;
+    const matched: string[] = [];
+    for (const term of terms) {
+      const weight = fields
+        .filter((f) => f.terms.has(term))
+        .reduce((sum, f) => sum + f.weight, 0);
+      if (weight === 0) continue;
+      const idf = Math.log(1 + items.length / documentFrequency.get(term)!);
+      score += weight * idf;
+      matched.push(term);
+    }
+    if (score > 0) {
+      ranked.push({
+        item,
+        score: Math.round(score * 100) / 100,
+        matched_terms: matched,
+      });
+    }
+  }
+  return ranked.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,393 @@
+/**
+ * Kibana Query Language (KQL) to Elasticsearch DSL translation.
+ *
+ * Lets agents pass the query strings business users copy from Kibana
+ * dashboards (`status:failed and payment_type:SWIFT`) instead of hand-built
+ * DSL. The translation follows Kibana's own semantics:
+ *
+ * - `and` → `bool.filter`, `or` → `bool.should`, `not` → `bool.must_not`
+ * - `field:value` → `match`, `field:"a phrase"` → `match_phrase`
+ * - `field:val*` → `wildcard`, `field:*` → `exists`
+ * - `field >= 10` → `range`
+ * - `items:{ name:foo and qty > 2 }` → `nested` on path `items`
+ * - Free text without a field → `multi_match` across all fields
+ *
+ * Field-to-type resolution is left to Elasticsearch, so `match` is used for
+ * both keyword and text fields.
+ *
+ * @module
+ */
+
+type Token =
+  | { kind: 'lparen' | 'rparen' | 'lbrace' | 'rbrace' | 'colon'; pos: number }
+  | { kind: 'range'; op: 'gte' | 'gt' | 'lte' | 'lt'; pos: number }
+  | { kind: 'quoted'; value: string; pos: number }
+  | {
+      kind: 'word';
+      /** Literal value with escapes resolved. */
+      value: string;
+      /** ES `wildcard` pattern: unescaped `*` kept, other wildcard chars escaped. */
+      pattern: string;
+      /** Whether the word contains an unescaped `*`. */
+      wildcard: boolean;
+      /** Whether the word is an unescaped `and`/`or`/`not` keyword. */
+      keyword: 'and' | 'or' | 'not' | undefined;
+      pos: number;
+    };
+
+/** A parsed value on the right-hand side of `field:` or a free-text term. */
+interface KqlValue {
+  value: string;
+  pattern: string;
+  wildcard: boolean;
+  quoted: boolean;
+}
+
+const PUNCTUATION = {
+  '(': 'lparen',
+  ')': 'rparen',
+  '{': 'lbrace',
+  '}': 'rbrace',
+  ':': 'colon',
+} as const;
+const SPECIAL_CHARS = new Set(['(', ')', '{', '}', ':', '<', '>', '"']);
+const KEYWORDS = new Set(['and', 'or', 'not']);
+
+/** Splits a KQL string into tokens. */
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch in PUNCTUATION) {
+      const kind = PUNCTUATION[ch as keyof typeof PUNCTUATION];
+      tokens.push({ kind, pos: i });
+      i++;
+    } else if (ch === '<' || ch === '>') {
+      const inclusive = input[i + 1] === '=';
+      const op =
+        ch === '<' ? (inclusive ? 'lte' : 'lt') : inclusive ? 'gte' : 'gt';
+      tokens.push({ kind: 'range', op, pos: i });
+      i += inclusive ? 2 : 1;
+    } else if (ch === '"') {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < input.length && input[i] !== '"') {
+        if (input[i] === '\\' && i + 1 < input.length) i++;
+        value += input[i];
+        i++;
+      }
+      if (i >= input.length) {
+        throw new Error(
+          `KQL syntax error at position ${start}: unterminated quoted string.`,
+        );
+      }
+      i++;
+      tokens.push({ kind: 'quoted', value, pos: start });
+    } else {
+      const start = i;
+      let value = '';
+      let pattern = '';
+      let wildcard = false;
+      let escaped = false;
+      while (
+        i < input.length &&
+        !/\s/.test(input[i]) &&
+        !SPECIAL_CHARS.has(input[i])
+      ) {
+        if (input[i] === '\\' && i + 1 < input.length) {
+          const literal = input[i + 1];
+          value += literal;
+          pattern +=
+            literal === '*' || literal === '?' || literal === '\\'
+              ? `\\${literal}`
+              : literal;
+          escaped = true;
+          i += 2;
+        } else {
+          if (input[i] === '*') {
+            wildcard = true;
+          }
+          value += input[i];
+          pattern += input[i] === '?' ? '\\?' : input[i];
+          i++;
+        }
+      }
+      const lower = value.toLowerCase();
+      const keyword =
+        !escaped && KEYWORDS.has(lower)
+          ? (lower as 'and' | 'or' | 'not')
+          : undefined;
+      tokens.push({
+        kind: 'word',
+        value,
+        pattern,
+        wildcard,
+        keyword,
+        pos: start,
+      });
+    }
+  }
+
+  return tokens;
+}
+
+/** Recursive-descent parser over the token stream. */
+class KqlParser {
+  private pos = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly inputLength: number,
+  ) {}
+
+  parse(): Record<string, any> {
+    if (this.tokens.length === 0) return { match_all: {} };
+    const query = this.parseOr('');
+    if (this.peek()) this.fail('unexpected input');
+    return query;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private isKeyword(
+    token: Token | undefined,
+    keyword: 'and' | 'or' | 'not',
+  ): boolean {
+    return token?.kind === 'word' && token.keyword === keyword;
+  }
+
+  private expect(kind: Token['kind']): Token {
+    const token = this.peek();
+    if (token?.kind !== kind) this.fail(`expected "${kind}"`);
+    this.pos++;
+    return token!;
+  }
+
+  private fail(message: string): never {
+    const position = this.peek()?.pos ?? this.inputLength;
+    throw new Error(`KQL syntax error at position ${position}: ${message}.`);
+  }
+
+  private parseOr(nestedPath: string): Record<string, any> {
+    const clauses = [this.parseAnd(nestedPath)];
+    while (this.isKeyword(this.peek(), 'or')) {
+      this.pos++;
+      clauses.push(this.parseAnd(nestedPath));
+    }
+    return combineOr(clauses);
+  }
+
+  private parseAnd(nestedPath: string): Record<string, any> {
+    const clauses = [this.parseNot(nestedPath)];
+    while (this.isKeyword(this.peek(), 'and')) {
+      this.pos++;
+      clauses.push(this.parseNot(nestedPath));
+    }
+    return combineAnd(clauses);
+  }
+
+  private parseNot(nestedPath: string): Record<string, any> {
+    if (this.isKeyword(this.peek(), 'not')) {
+      this.pos++;
+      return { bool: { must_not: [this.parseSubQuery(nestedPath)] } };
+    }
+    return this.parseSubQuery(nestedPath);
+  }
+
+  private parseSubQuery(nestedPath: string): Record<string, any> {
+    const token = this.peek();
+    if (token?.kind === 'lparen') {
+      this.pos++;
+      const query = this.parseOr(nestedPath);
+      this.expect('rparen');
+      return query;
+    }
+    return this.parseExpression(nestedPath);
+  }
+
+  private parseExpression(nestedPath: string): Record<string, any> {
+    const token = this.peek();
+    const next = this.tokens[this.pos + 1];
+
+    if (token?.kind === 'word' && !token.keyword && next?.kind === 'colon') {
+      const field = joinPath(nestedPath, token.value);
+      this.pos += 2;
+
+      if (this.peek()?.kind === 'lbrace') {
+        this.pos++;
+        const inner = this.parseOr(field);
+        this.expect('rbrace');
+        return { nested: { path: field, query: inner, score_mode: 'none' } };
+      }
+      return this.parseValueList(field, nestedPath);
+    }
+
+    if (token?.kind === 'word' && !token.keyword && next?.kind === 'range') {
+      const field = joinPath(nestedPath, token.value);
+      this.pos += 2;
+      const value = this.parseValue();
+      return { range: { [field]: { [next.op]: value.value } } };
+    }
+
+    const value = this.parseValue();
+    return freeTextClause(value);
+  }
+
+  /** Parses `value`, `(a or b and not c)` after `field:`. */
+  private parseValueList(
+    field: string,
+    nestedPath: string,
+  ): Record<string, any> {
+    if (this.peek()?.kind !== 'lparen') {
+      return fieldValueClause(field, this.parseValue());
+    }
+
+    this.pos++;
+    const parseNotValue = (): Record<string, any> => {
+      if (this.isKeyword(this.peek(), 'not')) {
+        this.pos++;
+        return { bool: { must_not: [parseNotValue()] } };
+      }
+      if (this.peek()?.kind === 'lparen') {
+        return this.parseValueList(field, nestedPath);
+      }
+      return fieldValueClause(field, this.parseValue());
+    };
+    const parseAndValues = (): Record<string, any> => {
+      const clauses = [parseNotValue()];
+      while (this.isKeyword(this.peek(), 'and')) {
+        this.pos++;
+        clauses.push(parseNotValue());
+      }
+      return combineAnd(clauses);
+    };
+
+    const clauses = [parseAndValues()];
+    while (this.isKeyword(this.peek(), 'or')) {
+      this.pos++;
+      clauses.push(parseAndValues());
+    }
+    this.expect('rparen');
+    return combineOr(clauses);
+  }
+
+  /**
+   * Parses a quoted string or a run of unquoted words. Consecutive words are
+   * joined with single spaces (`message:connection reset` matches
+   * "connection reset"), stopping at keywords and special characters.
+   */
+  private parseValue(): KqlValue {
+    const token = this.peek();
+    if (token?.kind === 'quoted') {
+      this.pos++;
+      return {
+        value: token.value,
+        pattern: token.value,
+        wildcard: false,
+        quoted: true,
+      };
+    }
+
+    const words: Extract<Token, { kind: 'word' }>[] = [];
+    let current = this.peek();
+    while (current?.kind === 'word' && !current.keyword) {
+      const following = this.tokens[this.pos + 1];
+      // A word followed by `:` or a range operator starts the next expression
+      if (
+        words.length > 0 &&
+        (following?.kind === 'colon' || following?.kind === 'range')
+      )
+        break;
+      words.push(current);
+      this.pos++;
+      current = this.peek();
+    }
+    if (words.length === 0) this.fail('expected a value');
+
+    return {
+      value: words.map((w) => w.value).join(' '),
+      pattern: words.map((w) => w.pattern).join(' '),
+      wildcard: words.some((w) => w.wildcard),
+      quoted: false,
+    };
+  }
+}
+
+function joinPath(nestedPath: string, field: string): string {
+  return nestedPath ? `${nestedPath}.${field}` : field;
+}
+
+function combineAnd(clauses: Record<string, any>[]): Record<string, any> {
+  return clauses.length === 1 ? clauses[0] : { bool: { filter: clauses } };
+}
+
+function combineOr(clauses: Record<string, any>[]): Record<string, any> {
+  return clauses.length === 1
+    ? clauses[0]
+    : { bool: { should: clauses, minimum_should_match: 1 } };
+}
+
+function fieldValueClause(field: string, value: KqlValue): Record<string, any> {
+  if (field.includes('*')) {
+    if (value.wildcard) {
+      throw new Error(
+        `KQL wildcard values are not supported on wildcard field names ("${field}").`,
+      );
+    }
+    return {
+      multi_match: {
+        query: value.value,
+        fields: [field],
+        type: value.quoted ? 'phrase' : 'best_fields',
+        lenient: true,
+      },
+    };
+  }
+  if (value.quoted) return { match_phrase: { [field]: value.value } };
+  if (value.wildcard && value.pattern === '*') return { exists: { field } };
+  if (value.wildcard)
+    return { wildcard: { [field]: { value: value.pattern } } };
+  return { match: { [field]: value.value } };
+}
+
+function freeTextClause(value: KqlValue): Record<string, any> {
+  if (value.wildcard) {
+    return { query_string: { query: value.pattern, analyze_wildcard: true } };
+  }
+  return {
+    multi_match: {
+      query: value.value,
+      type: value.quoted ? 'phrase' : 'best_fields',
+      lenient: true,
+    },
+  };
+}
+
+/**
+ * Translate a KQL string into an Elasticsearch DSL query clause.
+ *
+ * An empty or whitespace-only string yields `match_all`.
+ *
+ * @param kql - The KQL expression (e.g., `status:failed and amount >= 10000`).
+ * @returns A DSL clause suitable for the `query` key of a search body.
+ * @throws {Error} If the expression is not valid KQL, with the character position.
+ */
+export function parseKql(kql: string): Record<string, any> {
+  return new KqlParser(tokenize(kql), kql.length).parse();
+}
+
+/**
+ * Wrap a Lucene query string in a `query_string` clause, matching how Kibana
+ * executes queries when the search bar is switched to Lucene syntax.
+ */
+export function luceneToQuery(lucene: string): Record<string, any> {
+  return { query_string: { query: lucene, analyze_wildcard: true } };
+}
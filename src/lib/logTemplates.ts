@@ -0,0 +1,157 @@
+/**
+ * Local log template mining.
+ *
+ * Thousands of error logs usually come from a dozen log statements; they
+ * differ only in the IDs, amounts and timestamps interpolated into them.
+ * {@link maskMessage} replaces those variable parts with placeholders
+ * (`<NUM>`, `<UUID>`, ...), and {@link mineTemplates} groups messages by
+ * the masked text, then merges templates of the same length that differ in
+ * a single token (`<*>`), in the spirit of the Drain log parser.
+ *
+ * Used when the `categorize_text` aggregation is unavailable.
+ *
+ * @module
+ */
+
+/** One log message with the context clusters report. */
+export interface LogLine {
+  message: string;
+  timestamp?: string;
+  service?: string;
+}
+
+/** A group of log messages sharing one template. */
+export interface LogCluster {
+  template: string;
+  count: number;
+  first_seen: string | undefined;
+  last_seen: string | undefined;
+  /** Services logging the template, most frequent first. */
+  services: { service: string; count: number }[];
+  /** One message of the cluster, as logged. */
+  example: string;
+}
+
+/** Variable parts of log messages, masked in this order. */
+const MASKS: [RegExp, string][] = [
+  [
+    /\b\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2}(?:[.,]\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?/g,
+    '<TS>',
+  ],
+  [
+    /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi,
+    '<UUID>',
+  ],
+  [/\b\d{1,3}(?:\.\d{1,3}){3}(?::\d+)?\b/g, '<IP>'],
+  [/\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g, '<EMAIL>'],
+  // Identifiers mixing letters and digits: TX-48213, acct_99812, 7f9c2e1a
+  [/\b(?=[\w-]*\d)(?=[\w-]*[a-z])[\w-]{4,}\b/gi, '<ID>'],
+  [/-?\b\d+(?:[.,]\d+)*\b/g, '<NUM>'],
+];
+
+/** Minimum token count for templates to be merged on a differing token. */
+const MIN_MERGE_TOKENS = 4;
+
+/** Replaces the variable parts of a log message with placeholders. */
+export function maskMessage(message: string): string {
+  let masked = message;
+  for (const [pattern, placeholder] of MASKS) {
+    masked = masked.replace(pattern, placeholder);
+  }
+  return masked.replace(/\s+/g, ' ').trim();
+}
+
+/** Earlier of two optional ISO timestamps. */
+function earliest(a?: string, b?: string): string | undefined {
+  return a === undefined || (b !== undefined && b < a) ? b : a;
+}
+
+/** Later of two optional ISO timestamps. */
+function latest(a?: string, b?: string): string | undefined {
+  return a === undefined || (b !== undefined && b > a) ? b : a;
+}
+
+/**
+ * Merges `tokens` into `template` when they differ in at most one position
+ * outside existing `<*>` wildcards, which then becomes a wildcard.
+ *
+ * @returns Whether `tokens` fit the template.
+ */
+function absorb(template: string[], tokens: string[]): boolean {
+  if (template.length !== tokens.length) return false;
+  if (template.length < MIN_MERGE_TOKENS) return false;
+  const diffs = template.flatMap((token, i) =>
+    token === tokens[i] || token === '<*>' ? [] : [i],
+  );
+  if (diffs.length > 1) return false;
+  if (diffs.length === 1) template[diffs[0]] = '<*>';
+  return true;
+}
+
+/**
+ * Groups log messages into templates.
+ *
+ * @param lines - Messages to group.
+ * @param maxClusters - Number of clusters to return, largest first.
+ */
+export function mineTemplates(
+  lines: LogLine[],
+  maxClusters: number,
+): LogCluster[] {
+  interface Group {
+    tokens: string[];
+    count: number;
+    first_seen?: string;
+    last_seen?: string;
+    services: Map<string, number>;
+    example: string;
+  }
+
+  const exact = new Map<string, Group>();
+  for (const { message, timestamp, service } of lines) {
+    const template = maskMessage(message);
+    const group = exact.get(template) ?? {
+      tokens: template.split(' '),
+      count: 0,
+      services: new Map<string, number>(),
+      example: message,
+    };
+    group.count++;
+    group.first_seen = earliest(group.first_seen, timestamp);
+    group.last_seen = latest(group.last_seen, timestamp);
+    if (service) {
+      group.services.set(service, (group.services.get(service) ?? 0) + 1);
+    }
+    exact.set(template, group);
+  }
+
+  // Merge into larger groups first so the biggest template absorbs variants
+  const merged: Group[] = [];
+  for (const group of [...exact.values()].sort((a, b) => b.count - a.count)) {
+    const target = merged.find((m) => absorb(m.tokens, group.tokens));
+    if (!target) {
+      merged.push(group);
+      continue;
+    }
+    target.count += group.count;
+    target.first_seen = earliest(target.first_seen, group.first_seen);
+    target.last_seen = latest(target.last_seen, group.last_seen);
+    for (const [service, count] of group.services) {
+      target.services.set(service, (target.services.get(service) ?? 0) + count);
+    }
+  }
+
+  return merged
+    .sort((a, b) => b.count - a.count)
+    .slice(0, maxClusters)
+    .map((group) => ({
+      template: group.tokens.join(' '),
+      count: group.count,
+      first_seen: group.first_seen,
+      last_seen: group.last_seen,
+      services: [...group.services]
+        .sort((a, b) => b[1] - a[1])
+        .map(([service, count]) => ({ service, count })),
+      example: group.example,
+    }));
+}
@@ -0,0 +1,165 @@
+/**
+ * Mapping drift analysis across the concrete indices of a pattern.
+ *
+ * Discovery merges mappings into one field list and keeps only the first
+ * type it sees, which hides exactly the problem that breaks aggregations:
+ * `amount` mapped as `long` in older indices and `scaled_float` in newer
+ * ones. {@link compareMappings} keeps per-index provenance instead and
+ * reports, in generation order, which fields were added or removed and
+ * which changed type — and in which index each change first appeared.
+ *
+ * @module
+ */
+import { flattenIndexMapping } from './mappingUtils';
+import { indexFamily } from './indexFamilies';
+
+/** A field that is missing from the first generation but present later. */
+export interface AddedField {
+  field: string;
+  type: string;
+  /** First index (in generation order) that maps the field. */
+  first_seen: string;
+  /** Date from the index name, when it has one. */
+  first_seen_date?: string;
+}
+
+/** A field that is mapped in an earlier generation but not in the latest. */
+export interface RemovedField {
+  field: string;
+  type: string;
+  /** Last index (in generation order) that maps the field. */
+  last_seen: string;
+  /** Date from the index name, when it has one. */
+  last_seen_date?: string;
+}
+
+/** One switch of a field's type between consecutive generations that map it. */
+export interface TypeChange {
+  /** Index in which the new type first appeared. */
+  index: string;
+  /** Date from the index name, when it has one. */
+  date?: string;
+  from: string;
+  to: string;
+}
+
+/** A field whose type differs between concrete indices. */
+export interface TypeConflict {
+  field: string;
+  /** Type → how many indices use it, and the first and last of them. */
+  types: Record<
+    string,
+    { index_count: number; first_seen: string; last_seen: string }
+  >;
+  /** Type switches in generation order. */
+  changes: TypeChange[];
+}
+
+/** Result of {@link compareMappings}. */
+export interface MappingDrift {
+  /** Compared indices, oldest generation first. */
+  indices: string[];
+  added: AddedField[];
+  removed: RemovedField[];
+  type_conflicts: TypeConflict[];
+}
+
+/**
+ * Orders index names by generation: by the date in their name when both
+ * have one, otherwise by name with numeric parts compared as numbers
+ * (`logs-000009` before `logs-000010`).
+ */
+export function sortByGeneration(indices: string[]): string[] {
+  return [...indices].sort((a, b) => {
+    const dateA = indexFamily(a)?.date;
+    const dateB = indexFamily(b)?.date;
+    if (dateA && dateB && dateA !== dateB) return dateA < dateB ? -1 : 1;
+    return a.localeCompare(b, undefined, { numeric: true });
+  });
+}
+
+/**
+ * Compares the mappings of several concrete indices.
+ *
+ * @param mappings - `_mapping` response keyed by concrete index name.
+ * @param order - Index names to compare, oldest generation first. Names
+ *   missing from `mappings` are treated as having no fields.
+ */
+export function compareMappings(
+  mappings: Record<string, any>,
+  order: string[],
+): MappingDrift {
+  // Per index: field → type (first mapping wins within one index)
+  const typesByIndex = order.map((index) => {
+    const types = new Map<string, string>();
+    for (const { field, type } of flattenIndexMapping(mappings[index])) {
+      if (!types.has(field)) types.set(field, type);
+    }
+    return types;
+  });
+
+  const allFields = new Set(typesByIndex.flatMap((types) => [...types.keys()]));
+  const first = typesByIndex[0] ?? new Map<string, string>();
+  const last = typesByIndex[typesByIndex.length - 1] ?? new Map();
+
+  const added: AddedField[] = [];
+  const removed: RemovedField[] = [];
+  const typeConflicts: TypeConflict[] = [];
+
+  for (const field of [...allFields].sort()) {
+    const mappedIn = order
+      .map((index, i) => ({ index, type: typesByIndex[i].get(field) }))
+      .filter((m): m is { index: string; type: string } => !!m.type);
+
+    if (!first.has(field)) {
+      const { index, type } = mappedIn[0];
+      added.push({
+        field,
+        type,
+        first_seen: index,
+        ...dateOf('first_seen_date', index),
+      });
+    }
+    if (!last.has(field)) {
+      const { index, type } = mappedIn[mappedIn.length - 1];
+      removed.push({
+        field,
+        type,
+        last_seen: index,
+        ...dateOf('last_seen_date', index),
+      });
+    }
+
+    const types: TypeConflict['types'] = {};
+    const changes: TypeChange[] = [];
+    mappedIn.forEach(({ index, type }, i) => {
+      const seen = types[type];
+      types[type] = seen
+        ? { ...seen, index_count: seen.index_count + 1, last_seen: index }
+        : { index_count: 1, first_seen: index, last_seen: index };
+      const previous = mappedIn[i - 1];
+      if (previous && previous.type !== type) {
+        changes.push({
+          index,
+          ...dateOf('date', index),
+          from: previous.type,
+          to: type,
+        });
+      }
+    });
+    if (Object.keys(types).length > 1) {
+      typeConflicts.push({ field, types, changes });
+    }
+  }
+
+  return { indices: order, added, removed, type_conflicts: typeConflicts };
+}
+
+/** `{ [key]: date }` for an index name carrying a date, else `{}`. */
+function dateOf<K extends string>(
+  key: K,
+  index: string,
+): Partial<Record<K, string>> {
+  const date = indexFamily(index)?.date;
+  return date ? ({ [key]: date } as Record<K, string>) : {};
+}
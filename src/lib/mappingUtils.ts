@@ -2,6 +2,12 @@
  * Utilities for flattening Elasticsearch index mappings into a simple
  * field-name/type list that LLM agents can reason about.
  *
+ * Mappings alone don't say whether a field can be queried or aggregated, so
+ * the list can be enriched with `_field_caps` via {@link applyFieldCaps}:
+ * a `text` field is marked non-aggregatable and points at its `.keyword`
+ * sibling, and a field mapped differently across the indices of a pattern
+ * lists which indices use which type.
+ *
  * @module
  */
 
@@ -11,6 +17,16 @@ export interface FieldMapping {
   field: string;
   /** Elasticsearch field type (e.g., `keyword`, `text`, `double`, `date`). */
   type: string;
+  /** Defined in the `runtime` section of the mapping (computed at query time). */
+  runtime?: boolean;
+  /** Whether the field can be queried in every matching index. */
+  searchable?: boolean;
+  /** Whether the field can be aggregated or sorted on in every matching index. */
+  aggregatable?: boolean;
+  /** Type → indices using it, when the indices of a pattern disagree. */
+  conflicting_types?: Record<string, string[]>;
+  /** Aggregatable multi-field to use instead (e.g., `customer_name.keyword`). */
+  aggregatable_sibling?: string;
 }
 
 /**
@@ -41,3 +57,137 @@ export function flattenProperties(
     }
   }
 }
+
+/**
+ * Flatten the `runtime` section of a mapping into field paths and types,
+ * flagged as runtime fields.
+ */
+export function flattenRuntimeFields(
+  runtime: Record<string, any>,
+  result: FieldMapping[],
+): void {
+  for (const [name, mapping] of Object.entries(runtime)) {
+    if (mapping.type) {
+      result.push({ field: name, type: mapping.type, runtime: true });
+    }
+  }
+}
+
+/**
+ * Flatten one entry of a `_mapping` response (properties and runtime
+ * fields) into field paths and types.
+ *
+ * @param indexMapping - The value under a concrete index name, e.g.
+ *   `response['transactions-2025.07']`.
+ */
+export function flattenIndexMapping(indexMapping: any): FieldMapping[] {
+  const fields: FieldMapping[] = [];
+  const mappings = indexMapping?.mappings;
+  if (mappings?.properties) flattenProperties(mappings.properties, '', fields);
+  if (mappings?.runtime) flattenRuntimeFields(mappings.runtime, fields);
+  return fields;
+}
+
+/**
+ * Field types without doc values, which can't be aggregated or sorted on.
+ * `object` and `nested` are containers rather than values.
+ */
+const NON_AGGREGATABLE_TYPES = new Set([
+  'text',
+  'match_only_text',
+  'annotated_text',
+  'search_as_you_type',
+  'binary',
+  'object',
+  'nested',
+]);
+
+/**
+ * Picks the multi-field of `field` to aggregate on: `.keyword` if it
+ * qualifies, otherwise the first direct sub-field that does.
+ */
+function pickSibling(
+  fields: FieldMapping[],
+  field: FieldMapping,
+  isAggregatable: (f: FieldMapping) => boolean,
+): FieldMapping | undefined {
+  // Children of object/nested fields are properties, not multi-fields
+  if (field.type === 'object' || field.type === 'nested') return undefined;
+  const siblings = fields.filter(
+    (s) =>
+      s.field.startsWith(`${field.field}.`) &&
+      !s.field.slice(field.field.length + 1).includes('.') &&
+      isAggregatable(s),
+  );
+  return (
+    siblings.find((s) => s.field === `${field.field}.keyword`) ?? siblings[0]
+  );
+}
+
+/**
+ * Finds the field to aggregate on for `field`, judged by mapping type alone:
+ * the field itself if its type has doc values, otherwise its aggregatable
+ * multi-field (`customer_name` → `customer_name.keyword`).
+ *
+ * @param fields - Flattened mappings of the index.
+ * @param field - Field path requested by the caller.
+ * @returns The field to aggregate on, or `undefined` if the field is not
+ *   mapped or has no aggregatable form.
+ */
+export function aggregatableFieldFor(
+  fields: FieldMapping[],
+  field: string,
+): FieldMapping | undefined {
+  const target = fields.find((f) => f.field === field);
+  if (!target) return undefined;
+  if (!NON_AGGREGATABLE_TYPES.has(target.type)) return target;
+  return pickSibling(
+    fields,
+    target,
+    (f) => !NON_AGGREGATABLE_TYPES.has(f.type),
+  );
+}
+
+/**
+ * Enrich flattened mappings with a `_field_caps` response.
+ *
+ * Adds `searchable` and `aggregatable` (true only if true in every index),
+ * `conflicting_types` when a field has more than one type across indices,
+ * and, for non-aggregatable fields, the aggregatable multi-field to use
+ * instead — `.keyword` if present, otherwise the first aggregatable one.
+ * Fields missing from the response are returned unchanged.
+ *
+ * @param fields - Flattened (and deduplicated) mappings.
+ * @param fieldCaps - Raw `_field_caps` response.
+ * @returns A new list; the input is not modified.
+ */
+export function applyFieldCaps(
+  fields: FieldMapping[],
+  fieldCaps: Record<string, any>,
+): FieldMapping[] {
+  const caps: Record<string, Record<string, any>> = fieldCaps.fields ?? {};
+
+  const enriched = fields.map((f) => {
+    const byType = caps[f.field];
+    if (!byType) return f;
+
+    const types = Object.values(byType);
+    const result: FieldMapping = {
+      ...f,
+      searchable: types.every((t) => t.searchable),
+      aggregatable: types.every((t) => t.aggregatable),
+    };
+    if (types.length > 1) {
+      result.conflicting_types = Object.fromEntries(
+        Object.entries(byType).map(([type, t]) => [type, t.indices ?? []]),
+      );
+    }
+    return result;
+  });
+
+  return enriched.map((f) => {
+    if (f.aggregatable !== false) return f;
+    const preferred = pickSibling(enriched, f, (s) => s.aggregatable === true);
+    return preferred ? { ...f, aggregatable_sibling: preferred.field } : f;
+  });
+}
@@ -0,0 +1,156 @@
+/**
+ * Conversion of Kibana saved Discover searches into DSL search bodies.
+ *
+ * A saved search stores what Discover showed, not a DSL query: a
+ * `searchSourceJSON` string holding the search bar query (KQL or Lucene),
+ * the filter pills under it, and a reference to its data view, plus the
+ * saved `columns` and `sort` as separate attributes. {@link toSearchRequest}
+ * rebuilds the request Discover would send, following Kibana's own rules:
+ *
+ * - the query is translated with the KQL or Lucene parser
+ * - enabled filter pills go to `bool.filter`, negated ones to
+ *   `bool.must_not`, and disabled ones are skipped
+ * - a combined pill (Kibana 8.x "OR" groups) becomes a nested bool
+ * - `sort` pairs (`[["@timestamp", "desc"]]`) become DSL sort clauses
+ *
+ * @module
+ */
+import { parseKql, luceneToQuery } from './kqlParser';
+
+/** The data view a saved search runs against. */
+export type SavedSearchDataView =
+  /** Id of a data view saved object, resolved through the data views API. */
+  | { id: string }
+  /** Ad hoc data view embedded in the saved search. */
+  | { title: string; time_field: string | undefined };
+
+/** A saved search rebuilt as a search request. */
+export interface SavedSearchRequest {
+  title: string;
+  data_view: SavedSearchDataView;
+  /** DSL body with the query, filters and sort. */
+  body: Record<string, any>;
+  /** Saved Discover columns; empty when the search shows whole documents. */
+  columns: string[];
+  /** Saved time range, for searches saved with "store time with search". */
+  time_range: { from: string; to: string } | undefined;
+}
+
+/** Reference name Kibana uses for the search source's data view. */
+const INDEX_REF_NAME = 'kibanaSavedObjectMeta.searchSourceJSON.index';
+
+/** Translates the search bar query of a search source into a DSL query. */
+function toQuery(query: any): Record<string, any> | undefined {
+  const text = query?.query;
+  if (text && typeof text === 'object') return text;
+  if (typeof text !== 'string' || text.trim() === '') return undefined;
+  return query.language === 'lucene' ? luceneToQuery(text) : parseKql(text);
+}
+
+/**
+ * Returns the DSL clause of a filter pill. Recent Kibana versions keep it
+ * under `query`; older ones store it alongside `meta` (`range`, `exists`,
+ * `match_phrase`, ...).
+ */
+function filterClause(filter: any): Record<string, any> {
+  if (filter.meta?.type === 'combined') {
+    const clauses = (filter.meta.params ?? []).map((f: any) =>
+      Array.isArray(f)
+        ? { bool: { filter: f.map(filterClause) } }
+        : f.meta?.negate
+          ? { bool: { must_not: [filterClause(f)] } }
+          : filterClause(f),
+    );
+    return filter.meta.relation === 'AND'
+      ? { bool: { filter: clauses } }
+      : { bool: { should: clauses, minimum_should_match: 1 } };
+  }
+  if (filter.query) return filter.query;
+  const { meta, $state, ...clause } = filter;
+  return clause;
+}
+
+/** Converts saved `sort` pairs into DSL sort clauses. */
+function toSort(sort: any): Record<string, any>[] {
+  if (!Array.isArray(sort) || sort.length === 0) return [];
+  // Kibana 7.x and earlier stored a single pair as a flat array
+  const pairs = Array.isArray(sort[0]) ? sort : [sort];
+  return pairs
+    .filter((pair: any) => typeof pair?.[0] === 'string')
+    .map(([field, order]: [string, string]) => ({
+      [field]: { order: order === 'asc' ? 'asc' : 'desc' },
+    }));
+}
+
+/**
+ * Rebuilds the search request of a saved search.
+ *
+ * @param savedObject - Saved object of type `search` from the saved
+ *   objects API.
+ * @throws {Error} If the search source is not valid JSON or has no data view.
+ */
+export function toSearchRequest(savedObject: any): SavedSearchRequest {
+  const attributes = savedObject.attributes ?? {};
+  const title = attributes.title ?? savedObject.id;
+
+  let source: any;
+  try {
+    source = JSON.parse(
+      attributes.kibanaSavedObjectMeta?.searchSourceJSON ?? '{}',
+    );
+  } catch {
+    throw new Error(`Saved search "${title}" has an invalid searchSourceJSON.`);
+  }
+
+  let dataView: SavedSearchDataView | undefined;
+  if (source.index && typeof source.index === 'object') {
+    dataView = {
+      title: source.index.title,
+      time_field: source.index.timeFieldName || undefined,
+    };
+  } else {
+    const refName = source.indexRefName ?? INDEX_REF_NAME;
+    const ref = (savedObject.references ?? []).find(
+      (r: any) => r.name === refName,
+    );
+    const id = ref?.id ?? source.index;
+    if (typeof id === 'string') dataView = { id };
+  }
+  if (!dataView) {
+    throw new Error(`Saved search "${title}" does not reference a data view.`);
+  }
+
+  const must: Record<string, any>[] = [];
+  const query = toQuery(source.query);
+  if (query) must.push(query);
+
+  const filter: Record<string, any>[] = [];
+  const mustNot: Record<string, any>[] = [];
+  for (const pill of source.filter ?? []) {
+    if (pill.meta?.disabled) continue;
+    (pill.meta?.negate ? mustNot : filter).push(filterClause(pill));
+  }
+
+  const bool: Record<string, any> = {};
+  if (must.length) bool.must = must;
+  if (filter.length) bool.filter = filter;
+  if (mustNot.length) bool.must_not = mustNot;
+
+  const body: Record<string, any> = {};
+  if (Object.keys(bool).length) body.query = { bool };
+  const sort = toSort(attributes.sort);
+  if (sort.length) body.sort = sort;
+
+  const columns: string[] = (attributes.columns ?? []).filter(
+    (column: string) => column !== '_source',
+  );
+  const timeRange =
+    attributes.timeRestore && attributes.timeRange?.from
+      ? {
+          from: attributes.timeRange.from,
+          to: attributes.timeRange.to ?? 'now',
+        }
+      : undefined;
+
+  return { title, data_view: dataView, body, columns, time_range: timeRange };
+}
@@ -0,0 +1,71 @@
+/**
+ * Opaque pagination cursors for `kibana_search`.
+ *
+ * A cursor carries everything needed to fetch the next page of a
+ * point-in-time search: the PIT id, the index it was opened on, the original
+ * query body, the page size, and the `sort` values of the last hit returned.
+ *
+ * Cursors are hex-encoded rather than base64 so that the PII redaction layer
+ * (which scans every string in a tool response) can never mistake part of a
+ * token for an IBAN or card number and corrupt it.
+ *
+ * The cursor is not trusted on the way back in: the index is re-checked by
+ * {@link ElasticsearchClient.searchPointInTime} and the query body by
+ * {@link validateReadOnlyQuery}.
+ *
+ * @module
+ */
+
+/** Decoded state of a pagination cursor. */
+export interface SearchCursor {
+  /** Point-in-time id to search against. */
+  pit_id: string;
+  /** Index pattern the PIT was opened on. */
+  index: string;
+  /** Original DSL body (with time range and sort applied, aggregations removed). */
+  body: Record<string, any>;
+  /** Requested page size. */
+  size: number;
+  /** `sort` values of the last hit on the previous page. */
+  search_after: any[];
+  /** Whether hits include `_id`, `_index`, `_score` and `sort`. */
+  include_metadata?: boolean;
+}
+
+/** Encodes cursor state into an opaque token. */
+export function encodeCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor), 'utf8').toString('hex');
+}
+
+/**
+ * Decodes a token produced by {@link encodeCursor}.
+ *
+ * @throws {Error} If the token is malformed or missing required fields.
+ */
+export function decodeCursor(token: string): SearchCursor {
+  const invalid = new Error(
+    'Invalid cursor. Pass the next_cursor value from a previous kibana_search response unchanged.',
+  );
+  if (!/^(?:[0-9a-f]{2})+$/.test(token)) throw invalid;
+
+  let cursor: any;
+  try {
+    cursor = JSON.parse(Buffer.from(token, 'hex').toString('utf8'));
+  } catch {
+    throw invalid;
+  }
+
+  if (
+    typeof cursor?.pit_id !== 'string' ||
+    typeof cursor.index !== 'string' ||
+    typeof cursor.body !== 'object' ||
+    cursor.body === null ||
+    typeof cursor.size !== 'number' ||
+    !Array.isArray(cursor.search_after) ||
+    (cursor.include_metadata !== undefined &&
+      typeof cursor.include_metadata !== 'boolean')
+  ) {
+    throw invalid;
+  }
+  return cursor;
+}
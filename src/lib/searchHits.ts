@@ -0,0 +1,125 @@
+/**
+ * Shaping of search hits for tool responses.
+ *
+ * By default a hit is returned as its `_source` only. When the search asks
+ * for more — hit metadata, `fields` or `highlight` — every hit becomes a
+ * {@link SearchHit} object instead, so the shape is the same for all hits in
+ * a response.
+ *
+ * Highlight fragments wrap matched terms in tags (`<em>4111</em> 1111 ...`),
+ * which split PII patterns and would let them slip past redaction. Fragments
+ * whose plain text contains PII are therefore returned without tags, so the
+ * redaction layer sees — and masks — the whole value.
+ *
+ * @module
+ */
+import { redactPII } from './piiRedaction';
+
+/** A search hit with metadata, requested fields and highlights. */
+export interface SearchHit {
+  _id?: string;
+  _index?: string;
+  _score?: number | null;
+  /** Sort values (usable as `search_after`). */
+  sort?: any[];
+  _source?: Record<string, any>;
+  /** Values of requested `fields` (including runtime and multi-fields). */
+  fields?: Record<string, any[]>;
+  /** Highlighted fragments keyed by field. */
+  highlight?: Record<string, string[]>;
+}
+
+/**
+ * Reads a dotted path from `_source`, which may nest objects or use dotted
+ * keys (`{ "error.message": ... }` as well as `{ error: { message: ... } }`).
+ */
+export function valueAt(source: any, path: string): any {
+  if (source == null || typeof source !== 'object') return undefined;
+  if (path in source) return source[path];
+  for (let i = path.indexOf('.'); i !== -1; i = path.indexOf('.', i + 1)) {
+    const head = path.slice(0, i);
+    if (head in source) return valueAt(source[head], path.slice(i + 1));
+  }
+  return undefined;
+}
+
+/** Highlight settings applied when a tool highlights a list of fields. */
+const HIGHLIGHT_DEFAULTS = {
+  pre_tags: ['<em>'],
+  post_tags: ['</em>'],
+  fragment_size: 150,
+  number_of_fragments: 3,
+};
+
+/**
+ * Builds a `highlight` body for the given fields with bounded fragment sizes
+ * to keep token usage predictable.
+ */
+export function buildHighlight(fields: string[]): Record<string, any> {
+  return {
+    ...HIGHLIGHT_DEFAULTS,
+    fields: Object.fromEntries(fields.map((field) => [field, {}])),
+  };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Removes highlight tags from fragments whose plain text contains PII. */
+function unwrapPiiFragments(
+  highlight: Record<string, string[]>,
+  tags: string[],
+): Record<string, string[]> {
+  const tagPattern = new RegExp(tags.map(escapeRegExp).join('|'), 'g');
+  return Object.fromEntries(
+    Object.entries(highlight).map(([field, fragments]) => [
+      field,
+      fragments.map((fragment) => {
+        const plain = fragment.replace(tagPattern, '');
+        return redactPII(plain).redactionCount > 0 ? plain : fragment;
+      }),
+    ]),
+  );
+}
+
+/**
+ * Maps raw Elasticsearch hits to tool output.
+ *
+ * @param hits - `hits.hits` from a search response.
+ * @param body - The search body that produced them (for `fields` /
+ *   `highlight` and the highlight tags in use).
+ * @param includeMetadata - Whether to include `_id`, `_index`, `_score` and
+ *   `sort`.
+ * @returns `_source` objects, or {@link SearchHit} objects when metadata,
+ *   fields or highlights were requested.
+ */
+export function mapHits(
+  hits: any[],
+  body: Record<string, any>,
+  includeMetadata: boolean,
+): any[] {
+  if (!includeMetadata && !body.fields && !body.highlight) {
+    return hits.map((hit) => hit._source);
+  }
+
+  const tags = [
+    ...(body.highlight?.pre_tags ?? HIGHLIGHT_DEFAULTS.pre_tags),
+    ...(body.highlight?.post_tags ?? HIGHLIGHT_DEFAULTS.post_tags),
+  ];
+  return hits.map((hit) => {
+    const result: SearchHit = {};
+    if (includeMetadata) {
+      result._id = hit._id;
+      result._index = hit._index;
+      result._score = hit._score;
+      if (hit.sort) result.sort = hit.sort;
+    }
+    if (hit._source) result._source = hit._source;
+    if (hit.fields) result.fields = hit.fields;
+    if (hit.highlight) {
+      result.highlight = unwrapPiiFragments(hit.highlight, tags);
+    }
+    return result;
+  });
+}
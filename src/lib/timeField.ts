@@ -0,0 +1,86 @@
+/**
+ * Time field detection for time range filters.
+ *
+ * Not every index keys its documents on `@timestamp` — payment indices often
+ * use `event_time` or `settlement_date`. {@link resolveTimeField} picks the
+ * field a time range should filter on, in order of preference:
+ *
+ * 1. The `timeFieldName` of a Kibana data view whose title matches the index
+ *    pattern exactly (the choice the dashboard owners already made).
+ * 2. `@timestamp`, if the index maps it as a date.
+ * 3. The only `date` / `date_nanos` field in the mapping.
+ *
+ * When none of these applies, the caller is asked to pass `time_field`.
+ *
+ * @module
+ */
+import { ElasticsearchClient } from './esClient';
+import { flattenIndexMapping } from './mappingUtils';
+
+const DATE_TYPES = new Set(['date', 'date_nanos']);
+
+/** Returns the data view time field for an index pattern, if one is defined. */
+async function dataViewTimeField(
+  esClient: ElasticsearchClient,
+  index: string,
+): Promise<string | undefined> {
+  let dataViews: any[];
+  try {
+    dataViews = await esClient.getDataViewTimeFields();
+  } catch {
+    // Kibana unavailable or no saved-object access — fall back to mappings
+    return undefined;
+  }
+
+  const view = dataViews.find((so: any) =>
+    String(so.attributes?.title ?? '')
+      .split(',')
+      .map((title) => title.trim())
+      .includes(index),
+  );
+  return view?.attributes?.timeFieldName || undefined;
+}
+
+/** Collects every date-typed field across the indices an index pattern covers. */
+async function mappedDateFields(
+  esClient: ElasticsearchClient,
+  index: string,
+): Promise<string[]> {
+  const fields = Object.values<any>(
+    (await esClient.getMapping(index)) ?? {},
+  ).flatMap(flattenIndexMapping);
+  const dateFields = new Set<string>();
+  for (const { field, type } of fields) {
+    if (DATE_TYPES.has(type)) dateFields.add(field);
+  }
+  return [...dateFields].sort();
+}
+
+/**
+ * Determines which date field a time range on `index` should filter on.
+ *
+ * @param esClient - Client used to read data views and mappings.
+ * @param index - Index pattern being searched.
+ * @throws {Error} If the index has no date field, or several and no data view
+ *   chooses between them.
+ */
+export async function resolveTimeField(
+  esClient: ElasticsearchClient,
+  index: string,
+): Promise<string> {
+  const fromDataView = await dataViewTimeField(esClient, index);
+  if (fromDataView) return fromDataView;
+
+  const dateFields = await mappedDateFields(esClient, index);
+  if (dateFields.includes('@timestamp')) return '@timestamp';
+  if (dateFields.length === 1) return dateFields[0];
+
+  if (dateFields.length === 0) {
+    throw new Error(
+      `No date field found in "${index}". Pass time_field to choose the field to filter on.`,
+    );
+  }
+  throw new Error(
+    `"${index}" has several date fields (${dateFields.join(', ')}). Pass time_field to choose one.`,
+  );
+}
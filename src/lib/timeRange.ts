@@ -0,0 +1,272 @@
+/**
+ * Time range merging for Elasticsearch query bodies.
+ *
+ * Tools accept a relative time expression (e.g., `now-24h`) or an absolute
+ * `{ from, to, time_zone }` window alongside an arbitrary DSL body.
+ * {@link applyTimeRange} injects the matching range filter on the index's
+ * time field into whatever query shape was supplied (bool, simple match, or
+ * empty) without overwriting existing query structure.
+ *
+ * @module
+ */
+import { z } from 'zod';
+import { match } from 'dismatch';
+import type { Model } from 'dismatch';
+
+/**
+ * Discriminated union classifying the shape of an incoming Elasticsearch
+ * query body. Used by the time-range merger to decide how to inject the
+ * time range filter without overwriting existing query structure.
+ */
+type QueryShape =
+  | Model<'has_bool', { bool: any; body: Record<string, any> }>
+  | Model<'has_query', { query: any; body: Record<string, any> }>
+  | Model<'no_query', { body: Record<string, any> }>;
+
+/** Inspects a query body and returns the appropriate {@link QueryShape} variant. */
+function classifyQuery(body: Record<string, any>): QueryShape {
+  if (body.query?.bool) return { type: 'has_bool', bool: body.query.bool, body };
+  if (body.query) return { type: 'has_query', query: body.query, body };
+  return { type: 'no_query', body };
+}
+
+/**
+ * A relative start expression (e.g., `now-24h`) that runs until `now`, or an
+ * absolute window. Date-only bounds are inclusive: `to: '2025-09-30'` covers
+ * the whole of September 30th. `before` is an exclusive end, used instead of
+ * `to`.
+ */
+export type TimeRange =
+  string | { from: string; to?: string; before?: string; time_zone?: string };
+
+/** Zod schema for a {@link TimeRange} tool parameter. */
+export const timeRangeSchema = z
+  .union([
+    z.string(),
+    z.object({
+      from: z
+        .string()
+        .describe('Start of the window, e.g. "2025-07-01" or "now-30d"'),
+      to: z
+        .string()
+        .optional()
+        .describe(
+          'End of the window (inclusive), e.g. "2025-09-30". Defaults to "now".',
+        ),
+      before: z
+        .string()
+        .optional()
+        .describe(
+          'End of the window (exclusive), instead of to, e.g. "2025-10-01T14:00:00".',
+        ),
+      time_zone: z
+        .string()
+        .optional()
+        .describe(
+          'Time zone for bounds without an offset, e.g. "Europe/Amsterdam" or "+02:00". Defaults to UTC.',
+        ),
+    }),
+  ])
+  .describe(
+    'Time range filter: a relative start such as "now-24h" or "now-7d", or an absolute {from, to, time_zone} window. Filters on the index\'s time field.',
+  );
+
+/** Converts a {@link TimeRange} into `range` query bounds. */
+function toRangeBounds(timeRange: TimeRange): Record<string, string> {
+  if (typeof timeRange === 'string') return { gte: timeRange, lte: 'now' };
+  const { from, to, before, time_zone } = timeRange;
+  return {
+    gte: from,
+    ...(before !== undefined ? { lt: before } : { lte: to ?? 'now' }),
+    ...(time_zone ? { time_zone } : {}),
+  };
+}
+
+/** Range filter selecting `timeRange` on `timeField`. */
+export function timeRangeFilter(
+  timeRange: TimeRange,
+  timeField: string = '@timestamp',
+): Record<string, any> {
+  return { range: { [timeField]: toRangeBounds(timeRange) } };
+}
+
+/**
+ * Returns a copy of `body` with a range filter on `timeField` merged into
+ * its query.
+ *
+ * @param body - Elasticsearch DSL search body.
+ * @param timeRange - Relative start expression (e.g., `now-24h`, `now-7d`)
+ *   or an absolute `{ from, to, time_zone }` window.
+ * @param timeField - Date field to filter on (default `@timestamp`).
+ */
+export function applyTimeRange(
+  body: Record<string, any>,
+  timeRange: TimeRange,
+  timeField: string = '@timestamp',
+): Record<string, any> {
+  const rangeFilter = timeRangeFilter(timeRange, timeField);
+
+  return match(classifyQuery(body))({
+    has_bool: ({ bool, body }) => ({
+      ...body,
+      query: {
+        bool: {
+          ...bool,
+          filter: [
+            ...(Array.isArray(bool.filter) ? bool.filter : bool.filter ? [bool.filter] : []),
+            rangeFilter,
+          ],
+        },
+      },
+    }),
+    has_query: ({ query, body }) => ({
+      ...body,
+      query: { bool: { must: [query], filter: [rangeFilter] } },
+    }),
+    no_query: ({ body }) => ({
+      ...body,
+      query: { bool: { filter: [rangeFilter] } },
+    }),
+  });
+}
+
+const UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  H: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+const RELATIVE = /^now(?:[+-]\d+[smhHdw])*$/;
+const OFFSET = /([+-])(\d+)([smhHdw])/g;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const HAS_OFFSET = /(?:Z|[+-]\d{2}:?\d{2})$/i;
+const FIXED_OFFSET = /^([+-])(\d{2}):?(\d{2})$/;
+
+/**
+ * Offset of `timeZone` from UTC in milliseconds at the instant `ms`, for a
+ * fixed offset (`+02:00`) or an IANA zone (`Europe/Amsterdam`).
+ */
+function zoneOffsetMs(timeZone: string, ms: number): number {
+  const fixed = FIXED_OFFSET.exec(timeZone);
+  if (fixed) {
+    const [, sign, hours, minutes] = fixed;
+    const offset = Number(hours) * UNIT_MS.h + Number(minutes) * UNIT_MS.m;
+    return sign === '-' ? -offset : offset;
+  }
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    }).formatToParts(ms);
+  } catch {
+    throw new Error(`Unknown time_zone "${timeZone}".`);
+  }
+  const part = (type: string) =>
+    Number(parts.find((p) => p.type === type)?.value);
+  const wallClock = Date.UTC(
+    part('year'),
+    part('month') - 1,
+    part('day'),
+    part('hour'),
+    part('minute'),
+    part('second'),
+  );
+  return wallClock - Math.floor(ms / 1000) * 1000;
+}
+
+/**
+ * Resolves one window bound to epoch milliseconds. Like Elasticsearch,
+ * dates without an offset are read in `timeZone` (UTC if unset).
+ * Date-only `to` bounds are inclusive and end at the following midnight.
+ */
+function boundMs(
+  bound: string,
+  now: number,
+  isInclusiveEnd: boolean,
+  timeZone?: string,
+): number {
+  if (RELATIVE.test(bound)) {
+    let ms = now;
+    for (const [, sign, amount, unit] of bound.matchAll(OFFSET)) {
+      ms += (sign === '-' ? -1 : 1) * Number(amount) * UNIT_MS[unit];
+    }
+    return ms;
+  }
+  const dateOnly = DATE_ONLY.test(bound);
+  const hasOffset = HAS_OFFSET.test(bound);
+  // Without an offset, read the wall-clock time as UTC and shift it below
+  const ms = Date.parse(
+    hasOffset ? bound : dateOnly ? `${bound}T00:00:00Z` : `${bound}Z`,
+  );
+  if (Number.isNaN(ms)) {
+    throw new Error(
+      `Cannot derive the length of the time range from "${bound}". Use "now-<n><s|m|h|d|w>" or an ISO date.`,
+    );
+  }
+  const wallClock = isInclusiveEnd && dateOnly ? ms + UNIT_MS.d : ms;
+  if (hasOffset || !timeZone) return wallClock;
+  // The offset at the guessed instant can differ across a DST change
+  const guess = wallClock - zoneOffsetMs(timeZone, wallClock);
+  return wallClock - zoneOffsetMs(timeZone, guess);
+}
+
+/**
+ * Length of a {@link TimeRange} in milliseconds.
+ *
+ * Supports relative bounds without rounding (`now-15m`, `now-1h-30m`) and ISO
+ * dates. Calendar units (`M`, `y`) and rounding (`/d`) have no fixed length
+ * and are rejected.
+ */
+export function windowDurationMs(
+  timeRange: TimeRange,
+  now: number = Date.now(),
+): number {
+  const { gte, lte, lt, time_zone } = toRangeBounds(timeRange);
+  const end = lt ?? lte;
+  const duration =
+    boundMs(end, now, lt === undefined, time_zone) -
+    boundMs(gte, now, false, time_zone);
+  if (duration <= 0) {
+    throw new Error(
+      `Time range from "${gte}" to "${end}" is empty; "from" must be before "to".`,
+    );
+  }
+  return duration;
+}
+
+/**
+ * The window of equal length that ends where `timeRange` starts, for
+ * "compared to the previous period" questions. It ends `before` the start
+ * of `timeRange`. A relative start stays date math to the second, so
+ * `now-1h` becomes `now-1h-3600s` before `now-1h`; an absolute start gives
+ * absolute UTC bounds.
+ */
+export function previousWindow(
+  timeRange: TimeRange,
+  now: number = Date.now(),
+): { from: string; before: string; time_zone?: string } {
+  const duration = windowDurationMs(timeRange, now);
+  const { gte, time_zone } = toRangeBounds(timeRange);
+  if (RELATIVE.test(gte)) {
+    return {
+      from: `${gte}-${Math.round(duration / 1000)}s`,
+      before: gte,
+      ...(time_zone ? { time_zone } : {}),
+    };
+  }
+  const start = boundMs(gte, now, false, time_zone);
+  return {
+    from: new Date(start - duration).toISOString(),
+    before: new Date(start).toISOString(),
+  };
+}
@@ -4,7 +4,8 @@
  * The pipeline enforces a strict sequence for every invocation:
  * 1. Execute the tool's business logic
  * 2. Redact PII from successful responses (credit cards, IBANs, SSNs, emails, phones)
- * 3. Write a structured audit log entry to stderr
+ * 3. Write a structured audit log entry to stderr, including how many index
+ *    metadata requests were served from the client's cache
  * 4. Return the (potentially redacted) result to the LLM
  *
  * All tools are created via {@link createSecureTool} so they inherit this
@@ -22,6 +23,7 @@ import { ElasticsearchClient } from './esClient';
 import { AuditLogger } from './auditLogger';
 import { redactPIIDeep } from './piiRedaction';
 import { ToolResult } from './types';
+import { CacheStats } from './ttlCache';
 
 /** Shared server configuration singleton. Initialized once on first import. */
 export const config: ServerConfig = loadConfig();
@@ -83,10 +85,13 @@ export function createSecureTool<TInput extends z.ZodType, TOutput>(
     mcp: options.mcp,
     execute: async (input: z.infer<TInput>) => {
       const startTime = Date.now();
+      const cacheStats: CacheStats = { hits: 0, misses: 0 };
       let result: ToolResult<TOutput>;
 
       try {
-        result = await options.execute(input, { config, esClient });
+        result = await esClient.trackCacheStats(cacheStats, () =>
+          options.execute(input, { config, esClient }),
+        );
       } catch (error: any) {
         const errorMessage = error.response?.data?.error?.reason
           || error.response?.data?.message
@@ -132,6 +137,8 @@ export function createSecureTool<TInput extends z.ZodType, TOutput>(
         redaction_count: redactionCount,
         redacted_types: redactedTypes,
         execution_time_ms: executionTime,
+        cache_hits: cacheStats.hits,
+        cache_misses: cacheStats.misses,
         ...auditFields,
       });
 
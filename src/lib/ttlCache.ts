@@ -0,0 +1,72 @@
+/**
+ * Size-bounded cache whose entries expire after a fixed time-to-live.
+ *
+ * Used by {@link ElasticsearchClient} to share index lists, mappings and
+ * field capabilities across tool calls. Entries are kept in least-recently
+ * used order: reading an entry refreshes its position (not its expiry), and
+ * when the cache is full the least recently used entry is evicted.
+ *
+ * @module
+ */
+
+/** Hit/miss counters for cache lookups. */
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+/** A cache keyed by string with per-entry expiry and a maximum size. */
+export class TtlCache<V> {
+  private entries = new Map<string, { value: V; expiresAt: number }>();
+
+  /**
+   * @param ttlMs - Time in ms an entry stays valid after it is set.
+   * @param maxEntries - Entries kept before the least recently used is evicted.
+   */
+  constructor(
+    private readonly ttlMs: number,
+    private readonly maxEntries: number,
+  ) {}
+
+  /** Returns the entry for `key`, or `undefined` if it is missing or expired. */
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  /** Removes every entry whose key matches `predicate`. */
+  deleteWhere(predicate: (key: string) => boolean): void {
+    for (const key of Array.from(this.entries.keys())) {
+      if (predicate(key)) this.entries.delete(key);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
@@ -30,6 +30,10 @@ export type ToolSuccess<T> = Model<'success', {
   total?: number;
   /** Raw Elasticsearch aggregation buckets (when the query includes aggs). */
   aggregations?: Record<string, any>;
+  /** Opaque token for fetching the next page (paginated searches only). */
+  next_cursor?: string;
+  /** Limits the query cost guard applied automatically (e.g., capped aggregation sizes). */
+  warnings?: string[];
 }>;
 
 /**
@@ -0,0 +1,140 @@
+/**
+ * Comparison of field value distributions between two time windows.
+ *
+ * "What's different about failures since 14:00?" is answered per field by
+ * comparing how often each value occurs in a baseline window and in the
+ * comparison window. {@link fieldShift} reads the per-value counts of both
+ * windows and reports the values that never occurred in the baseline, the
+ * values whose share changed most, and one number for the whole field: the
+ * total variation distance between the two distributions (0 = identical,
+ * 1 = no value in common). Fields are ranked by that distance.
+ *
+ * @module
+ */
+
+/** How often one value occurs in each window. */
+export interface ValueShift {
+  value: string | number;
+  baseline: number;
+  comparison: number;
+  /** Share of the window's documents with this value (0–1). */
+  baseline_share: number;
+  comparison_share: number;
+  /** Change in share, in percentage points. */
+  change_pts: number;
+}
+
+/** A value over-represented in the comparison window. */
+export interface SignificantValue {
+  value: string | number;
+  comparison: number;
+  baseline: number;
+  score: number;
+}
+
+/** Distribution change of one field between the two windows. */
+export interface FieldShift {
+  field: string;
+  /**
+   * Total variation distance between the value distributions (0–1).
+   * `undefined` when either window has no documents.
+   */
+  shift: number | undefined;
+  /** Comparison window values with no document in the baseline. */
+  new_values: { value: string | number; count: number }[];
+  /** Values with the largest change in share. */
+  top_changes: ValueShift[];
+}
+
+/** Document counts of the two windows. */
+export interface WindowTotals {
+  baseline: number;
+  comparison: number;
+}
+
+function share(count: number, total: number): number {
+  return total === 0 ? 0 : count / total;
+}
+
+/**
+ * Compares the value distributions of one field.
+ *
+ * @param field - Field name to report.
+ * @param buckets - `terms` buckets over both windows, each with `baseline`
+ *   and `comparison` single-bucket sub-aggregations.
+ * @param totals - Documents per window, including those without the field.
+ * @param topN - Number of `top_changes` to return.
+ */
+export function fieldShift(
+  field: string,
+  buckets: any[],
+  totals: WindowTotals,
+  topN: number,
+): FieldShift {
+  const values: ValueShift[] = buckets.map((bucket) => {
+    const baseline = bucket.baseline?.doc_count ?? 0;
+    const comparison = bucket.comparison?.doc_count ?? 0;
+    const baselineShare = share(baseline, totals.baseline);
+    const comparisonShare = share(comparison, totals.comparison);
+    return {
+      value: bucket.key_as_string ?? bucket.key,
+      baseline,
+      comparison,
+      baseline_share: Math.round(baselineShare * 1e4) / 1e4,
+      comparison_share: Math.round(comparisonShare * 1e4) / 1e4,
+      change_pts: Math.round((comparisonShare - baselineShare) * 1000) / 10,
+    };
+  });
+
+  let shift: number | undefined;
+  if (totals.baseline > 0 && totals.comparison > 0) {
+    // Values outside the buckets (and documents without the field) form
+    // one remaining category, so both distributions sum to 1
+    let distance = 0;
+    let baselineRest = totals.baseline;
+    let comparisonRest = totals.comparison;
+    for (const { baseline, comparison } of values) {
+      distance += Math.abs(
+        share(comparison, totals.comparison) - share(baseline, totals.baseline),
+      );
+      baselineRest -= baseline;
+      comparisonRest -= comparison;
+    }
+    distance += Math.abs(
+      share(comparisonRest, totals.comparison) -
+        share(baselineRest, totals.baseline),
+    );
+    shift = Math.round((distance / 2) * 1000) / 1000;
+  }
+
+  return {
+    field,
+    shift,
+    new_values: values
+      .filter((v) => v.baseline === 0 && v.comparison > 0)
+      .map((v) => ({ value: v.value, count: v.comparison })),
+    top_changes: [...values]
+      .sort((a, b) => Math.abs(b.change_pts) - Math.abs(a.change_pts))
+      .slice(0, topN),
+  };
+}
+
+/**
+ * Reads a `significant_terms` aggregation run on the comparison window
+ * with the baseline as `background_filter`.
+ */
+export function significantValues(agg: any): SignificantValue[] {
+  return (agg?.buckets ?? []).map((bucket: any) => ({
+    value: bucket.key_as_string ?? bucket.key,
+    comparison: bucket.doc_count,
+    baseline: bucket.bg_count,
+    score: Math.round(bucket.score * 1000) / 1000,
+  }));
+}
+
+/** Ranks fields by distribution shift, largest first; unknown shifts last. */
+export function rankByShift<T extends { shift: number | undefined }>(
+  fields: T[],
+): T[] {
+  return [...fields].sort((a, b) => (b.shift ?? -1) - (a.shift ?? -1));
+}
@@ -149,4 +149,11 @@ describe('performance-investigation prompt', () => {
     expect(text).toContain('Step 8');
     expect(text).toContain('Recommend Actions');
   });
+
+  it('uses apm_service_overview for the baseline comparison', () => {
+    const messages = getPerformanceMessages({ symptom: 'slow responses' });
+    const text = messages[0].content.text;
+    expect(text).toContain('apm_service_overview');
+    expect(text).toContain('compare_previous: true');
+  });
 });
@@ -25,16 +25,18 @@ Call \`discover_cluster\` to identify available indices. Look for:
 - Infrastructure metrics if available
 
 ## Step 2: Establish Baseline Performance
-Query the time period BEFORE the issue started (double the time_range going back). Calculate baseline metrics:
+If APM data exists, call \`apm_service_overview\` with \`time_range: "{{TIME_RANGE}}"\`, \`compare_previous: true\` and the service in focus (omit it to see all services). Its \`previous\` window is the baseline: throughput, error rate, p50/p95/p99 latency, slowest transactions and top error groups.
+
+Otherwise, query the time period BEFORE the issue started (double the time_range going back). Calculate baseline metrics:
 - Average and p95 response/processing time
 - Transaction throughput (events per minute)
 - Error rate percentage
 
 ## Step 3: Quantify the Degradation
-Query the \`{{TIME_RANGE}}\` window and calculate the same metrics. Compare against baseline:
+Compare the \`{{TIME_RANGE}}\` window against the baseline (the \`change\` section of \`apm_service_overview\`, or the same metrics calculated by hand):
 - How much did latency increase?
 - Did throughput drop?
-- Did error rate change?
+- Did error rate change? Are there error groups that were not in the baseline?
 Use date_histogram to plot the trend.
 
 ## Step 4: Identify the Inflection Point
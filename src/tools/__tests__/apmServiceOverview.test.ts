@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockMultiSearch } = vi.hoisted(() => ({
+  mockMultiSearch: vi.fn(),
+}));
+
+vi.mock('../../lib/toolWrapper', () => {
+  return {
+    config: {
+      allowedIndexPatterns: [],
+      piiRedactionEnabled: false,
+      auditEnabled: false,
+    },
+    esClient: {
+      multiSearch: mockMultiSearch,
+    },
+    auditLogger: { log: vi.fn() },
+    createSecureTool: (opts: any) => {
+      return {
+        id: opts.id,
+        description: opts.description,
+        execute: async (input: any) => {
+          const config = { allowedIndexPatterns: [] as string[] };
+          const esClient = { multiSearch: mockMultiSearch };
+          return opts.execute(
+            {
+              time_range: 'now-1h',
+              compare_previous: false,
+              top_n: 5,
+              transaction_index: 'traces-apm*',
+              error_index: 'logs-apm.error*',
+              ...input,
+            },
+            { config, esClient },
+          );
+        },
+      };
+    },
+  };
+});
+
+// Import after mocking
+import { apmServiceOverviewTool } from '../apmServiceOverview';
+
+function windowBuckets(count: number, p95Us: number) {
+  return {
+    doc_count: count,
+    latency: { values: { '50.0': 40_000, '95.0': p95Us, '99.0': p95Us } },
+    outcomes: {
+      buckets: [
+        { key: 'success', doc_count: count - 60 },
+        { key: 'failure', doc_count: 60 },
+      ],
+    },
+    slow_transactions: { buckets: [] },
+  };
+}
+
+describe('apm_service_overview tool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('scopes both searches to the service and one time window', async () => {
+    mockMultiSearch.mockResolvedValue([
+      {
+        aggregations: {
+          windows: { buckets: { current: windowBuckets(6000, 250_000) } },
+        },
+      },
+      {
+        aggregations: {
+          windows: {
+            buckets: { current: { error_groups: { buckets: [] } } },
+          },
+        },
+      },
+    ]);
+
+    const result = await apmServiceOverviewTool.execute!(
+      { service: 'payment-gateway', environment: 'production' } as any,
+      {} as any,
+    );
+
+    const [transactions, errors] = mockMultiSearch.mock.calls[0][0];
+    expect(transactions.index).toBe('traces-apm*');
+    expect(transactions.size).toBe(0);
+    expect(transactions.body.query.bool.filter).toEqual([
+      { term: { 'processor.event': 'transaction' } },
+      { term: { 'service.name': 'payment-gateway' } },
+      { term: { 'service.environment': 'production' } },
+      { range: { '@timestamp': { gte: 'now-1h', lte: 'now' } } },
+    ]);
+    expect(transactions.body.aggs.windows.aggs.services).toBeUndefined();
+    expect(errors.index).toBe('logs-apm.error*');
+    expect(errors.body.aggs.windows.aggs.error_groups).toBeDefined();
+
+    expect(result.type).toBe('success');
+    expect(result.data.current).toMatchObject({
+      transactions: 6000,
+      throughput_per_minute: 100,
+      error_rate: 0.01,
+      latency_ms: { p50: 40, p95: 250, p99: 250 },
+    });
+    expect(result.data.previous).toBeUndefined();
+  });
+
+  it('compares with the previous window of equal length', async () => {
+    mockMultiSearch.mockResolvedValue([
+      {
+        aggregations: {
+          windows: {
+            buckets: {
+              current: windowBuckets(3000, 850_000),
+              previous: windowBuckets(6000, 250_000),
+            },
+          },
+        },
+      },
+      { error: { reason: 'no such index [logs-apm.error*]' } },
+    ]);
+
+    const result = await apmServiceOverviewTool.execute!(
+      { compare_previous: true } as any,
+      {} as any,
+    );
+
+    const [transactions] = mockMultiSearch.mock.calls[0][0];
+    expect(transactions.body.aggs.windows.filters.filters).toEqual({
+      current: { range: { '@timestamp': { gte: 'now-1h', lte: 'now' } } },
+      previous: {
+        range: {
+          '@timestamp': { gte: 'now-1h-3600s', lt: 'now-1h' },
+        },
+      },
+    });
+    expect(transactions.body.query.bool.filter).toContainEqual({
+      range: { '@timestamp': { gte: 'now-1h-3600s', lte: 'now' } },
+    });
+    expect(transactions.body.aggs.windows.aggs.services).toBeDefined();
+    expect(result.data.change).toMatchObject({
+      throughput_pct: -50,
+      error_rate_pts: 1,
+      p95_pct: 240,
+    });
+    expect(result.warnings).toEqual([
+      'APM error search on "logs-apm.error*" failed, so error_groups is empty: no such index [logs-apm.error*]',
+    ]);
+  });
+
+  it('throws when the transaction search fails', async () => {
+    mockMultiSearch.mockResolvedValue([
+      {
+        error: {
+          reason: 'Index "traces-apm*" is not in the allowed index patterns',
+        },
+      },
+      { aggregations: {} },
+    ]);
+
+    await expect(
+      apmServiceOverviewTool.execute!({} as any, {} as any),
+    ).rejects.toThrow(/APM transaction search on "traces-apm\*" failed/);
+  });
+});
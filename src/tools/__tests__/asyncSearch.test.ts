@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockSubmitAsyncSearch, mockGetAsyncSearch, mockDeleteAsyncSearch, mockGetMapping } = vi.hoisted(() => ({
+  mockSubmitAsyncSearch: vi.fn(),
+  mockGetAsyncSearch: vi.fn(),
+  mockDeleteAsyncSearch: vi.fn(),
+  mockGetMapping: vi.fn(),
+}));
+
+vi.mock('../../lib/toolWrapper', () => {
+  return {
+    config: {
+      allowedIndexPatterns: [],
+      piiRedactionEnabled: false,
+      auditEnabled: false,
+    },
+    esClient: {
+      submitAsyncSearch: mockSubmitAsyncSearch,
+      getAsyncSearch: mockGetAsyncSearch,
+      deleteAsyncSearch: mockDeleteAsyncSearch,
+      getMapping: mockGetMapping,
+    },
+    auditLogger: { log: vi.fn() },
+    createSecureTool: (opts: any) => {
+      return {
+        id: opts.id,
+        description: opts.description,
+        execute: async (input: any) => {
+          const config = { allowedIndexPatterns: [] as string[] };
+          const esClient = {
+            submitAsyncSearch: mockSubmitAsyncSearch,
+            getAsyncSearch: mockGetAsyncSearch,
+            deleteAsyncSearch: mockDeleteAsyncSearch,
+            getMapping: mockGetMapping,
+          };
+          const defaults = { size: 0 };
+          const merged = { ...defaults, ...input };
+          return opts.execute(merged, { config, esClient });
+        },
+      };
+    },
+  };
+});
+
+// Import after mocking
+import { asyncSearchTool } from '../asyncSearch';
+
+const aggQuery = { aggs: { by_status: { terms: { field: 'status' } } } };
+
+describe('async_search tool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDeleteAsyncSearch.mockResolvedValue(undefined);
+  });
+
+  it('returns the id and partial aggregations for a running search', async () => {
+    mockSubmitAsyncSearch.mockResolvedValue({
+      id: 'FmRldE8zREVEUzA2ZVpUeGs2ejJFUFEaMkZ5QTVrSTZSaVN3WlNFVmtlWHJsdzoxMDc=',
+      is_running: true,
+      is_partial: true,
+      start_time_in_millis: 1700000000000,
+      expiration_time_in_millis: 1700003600000,
+      response: {
+        hits: { total: { value: 1200 }, hits: [] },
+        aggregations: { by_status: { buckets: [{ key: 'failed', doc_count: 12 }] } },
+      },
+    });
+
+    const result = await (asyncSearchTool as any).execute({
+      action: 'submit',
+      index: 'transactions-*',
+      query: aggQuery,
+    });
+
+    expect(result.type).toBe('success');
+    expect(result.data.id).toBe('FmRldE8zREVEUzA2ZVpUeGs2ejJFUFEaMkZ5QTVrSTZSaVN3WlNFVmtlWHJsdzoxMDc=');
+    expect(result.data.is_running).toBe(true);
+    expect(result.data.is_partial).toBe(true);
+    expect(result.data.start_time).toBe('2023-11-14T22:13:20.000Z');
+    expect(result.total).toBe(1200);
+    expect(result.aggregations.by_status.buckets).toHaveLength(1);
+    expect(mockDeleteAsyncSearch).not.toHaveBeenCalled();
+  });
+
+  it('passes index, body and size through to esClient.submitAsyncSearch()', async () => {
+    mockSubmitAsyncSearch.mockResolvedValue({ is_running: false, is_partial: false, response: {} });
+
+    await (asyncSearchTool as any).execute({
+      action: 'submit',
+      index: 'transactions-*',
+      query: aggQuery,
+      size: 5,
+    });
+
+    expect(mockSubmitAsyncSearch).toHaveBeenCalledWith('transactions-*', aggQuery, 5);
+  });
+
+  it('applies time_range to the time field detected in the mapping', async () => {
+    mockSubmitAsyncSearch.mockResolvedValue({ is_running: false, is_partial: false, response: {} });
+    mockGetMapping.mockResolvedValue({
+      'transactions-2025.10': {
+        mappings: { properties: { settlement_date: { type: 'date' }, amount: { type: 'double' } } },
+      },
+    });
+
+    await (asyncSearchTool as any).execute({
+      action: 'submit',
+      index: 'transactions-*',
+      query: aggQuery,
+      time_range: { from: '2025-07-01', to: '2025-09-30' },
+    });
+
+    const body = mockSubmitAsyncSearch.mock.calls[0][1];
+    expect(body.query.bool.filter).toContainEqual({
+      range: { settlement_date: { gte: '2025-07-01', lte: '2025-09-30' } },
+    });
+    expect(body.aggs).toEqual(aggQuery.aggs);
+  });
+
+  it('deletes the stored result once a polled search has completed', async () => {
+    mockGetAsyncSearch.mockResolvedValue({
+      id: 'abc',
+      is_running: false,
+      is_partial: false,
+      response: { hits: { total: { value: 3 }, hits: [] } },
+    });
+
+    const result = await (asyncSearchTool as any).execute({ action: 'poll', id: 'abc' });
+
+    expect(result.type).toBe('success');
+    expect(result.data.id).toBeUndefined();
+    expect(result.data.is_running).toBe(false);
+    expect(mockDeleteAsyncSearch).toHaveBeenCalledWith('abc');
+  });
+
+  it('cancels a running search', async () => {
+    const result = await (asyncSearchTool as any).execute({ action: 'cancel', id: 'abc' });
+
+    expect(result).toEqual({ type: 'success', data: { id: 'abc', cancelled: true } });
+    expect(mockDeleteAsyncSearch).toHaveBeenCalledWith('abc');
+  });
+
+  it('requires an id to poll', async () => {
+    await expect((asyncSearchTool as any).execute({ action: 'poll' })).rejects.toThrow(/id is required/);
+  });
+
+  it('rejects write/script queries before submitting', async () => {
+    await expect(
+      (asyncSearchTool as any).execute({
+        action: 'submit',
+        index: 'logs',
+        query: { query: { script: { source: 'doc.count' } } },
+      }),
+    ).rejects.toThrow(/script/);
+    expect(mockSubmitAsyncSearch).not.toHaveBeenCalled();
+  });
+});
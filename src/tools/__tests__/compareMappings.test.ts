@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockGetMapping } = vi.hoisted(() => ({
+  mockGetMapping: vi.fn(),
+}));
+
+vi.mock('../../lib/toolWrapper', () => {
+  return {
+    config: {
+      allowedIndexPatterns: [],
+      piiRedactionEnabled: false,
+      auditEnabled: false,
+    },
+    esClient: {
+      getMapping: mockGetMapping,
+    },
+    auditLogger: { log: vi.fn() },
+    createSecureTool: (opts: any) => {
+      return {
+        id: opts.id,
+        description: opts.description,
+        execute: async (input: any) => {
+          const config = { allowedIndexPatterns: [] as string[] };
+          const esClient = { getMapping: mockGetMapping };
+          return opts.execute(input, { config, esClient });
+        },
+      };
+    },
+  };
+});
+
+// Import after mocking
+import { compareMappingsTool } from '../compareMappings';
+
+const mapping = (properties: Record<string, any>) => ({
+  mappings: { properties },
+});
+
+describe('compare_mappings tool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('compares the indices of a pattern in generation order', async () => {
+    mockGetMapping.mockResolvedValue({
+      'transactions-2025.07': mapping({ amount: { type: 'scaled_float' } }),
+      'transactions-2025.06': mapping({ amount: { type: 'long' } }),
+    });
+
+    const result = await (compareMappingsTool as any).execute({
+      index: 'transactions-*',
+    });
+
+    expect(result.type).toBe('success');
+    expect(result.total).toBe(2);
+    expect(result.data.indices).toEqual([
+      'transactions-2025.06',
+      'transactions-2025.07',
+    ]);
+    expect(result.data.type_conflicts[0].changes).toEqual([
+      {
+        index: 'transactions-2025.07',
+        date: '2025-07',
+        from: 'long',
+        to: 'scaled_float',
+      },
+    ]);
+  });
+
+  it('compares two explicit indices in the given order', async () => {
+    mockGetMapping.mockImplementation((index: string) =>
+      Promise.resolve(
+        index === 'orders-v1'
+          ? { 'orders-v1': mapping({ sku: { type: 'keyword' } }) }
+          : { 'orders-v2': mapping({ sku: { type: 'keyword' }, qty: { type: 'integer' } }) },
+      ),
+    );
+
+    const result = await (compareMappingsTool as any).execute({
+      indices: ['orders-v1', 'orders-v2'],
+    });
+
+    expect(mockGetMapping).toHaveBeenCalledWith('orders-v1');
+    expect(mockGetMapping).toHaveBeenCalledWith('orders-v2');
+    expect(result.data.added).toEqual([
+      { field: 'qty', type: 'integer', first_seen: 'orders-v2' },
+    ]);
+  });
+
+  it('requires exactly one of index and indices', async () => {
+    await expect((compareMappingsTool as any).execute({})).rejects.toThrow(
+      'Pass either index (a pattern) or indices (two names).',
+    );
+    await expect(
+      (compareMappingsTool as any).execute({
+        index: 'orders-*',
+        indices: ['orders-v1', 'orders-v2'],
+      }),
+    ).rejects.toThrow('Pass either index');
+    expect(mockGetMapping).not.toHaveBeenCalled();
+  });
+
+  it('rejects patterns that match a single index', async () => {
+    mockGetMapping.mockResolvedValue({
+      'orders-v1': mapping({ sku: { type: 'keyword' } }),
+    });
+
+    await expect(
+      (compareMappingsTool as any).execute({ index: 'orders-*' }),
+    ).rejects.toThrow('"orders-*" matches only one index');
+  });
+});
@@ -0,0 +1,268 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const { mockSearch, mockGetMapping } = vi.hoisted(() => ({
+  mockSearch: vi.fn(),
+  mockGetMapping: vi.fn(),
+}));
+
+vi.mock('../../lib/toolWrapper', () => {
+  return {
+    config: {
+      allowedIndexPatterns: [],
+      piiRedactionEnabled: false,
+      auditEnabled: false,
+    },
+    esClient: {
+      search: mockSearch,
+      getMapping: mockGetMapping,
+    },
+    auditLogger: { log: vi.fn() },
+    createSecureTool: (opts: any) => {
+      return {
+        id: opts.id,
+        description: opts.description,
+        execute: async (input: any) => {
+          const config = { allowedIndexPatterns: [] as string[] };
+          const esClient = { search: mockSearch, getMapping: mockGetMapping };
+          return opts.execute(
+            {
+              index: 'payments-*',
+              fields: ['error.code'],
+              window: 'now-1h',
+              time_field: '@timestamp',
+              top_n: 10,
+              ...input,
+            },
+            { config, esClient },
+          );
+        },
+      };
+    },
+  };
+});
+
+// Import after mocking
+import { compareTimeWindowsTool } from '../compareTimeWindows';
+
+const MAPPING = {
+  'payments-2025.10.01': {
+    mappings: {
+      properties: {
+        '@timestamp': { type: 'date' },
+        error: {
+          properties: {
+            code: { type: 'keyword' },
+            message: {
+              type: 'text',
+              fields: { keyword: { type: 'keyword' } },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+const COMPARISON = {
+  range: { '@timestamp': { gte: 'now-1h', lte: 'now' } },
+};
+const BASELINE = {
+  range: {
+    '@timestamp': { gte: 'now-1h-3600s', lt: 'now-1h' },
+  },
+};
+
+describe('compare_time_windows tool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetMapping.mockResolvedValue(MAPPING);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('compares the window with the hour before it in one search', async () => {
+    mockSearch.mockResolvedValue({
+      aggregations: {
+        windows: {
+          buckets: {
+            baseline: { doc_count: 100 },
+            comparison: { doc_count: 300 },
+          },
+        },
+        significant: {
+          doc_count: 300,
+          field_0: { buckets: [] },
+          field_1: {
+            buckets: [
+              {
+                key: 'LEDGER_TIMEOUT',
+                doc_count: 200,
+                bg_count: 0,
+                score: 4.5,
+              },
+            ],
+          },
+        },
+        distribution_1: {
+          buckets: [
+            {
+              key: 'LEDGER_TIMEOUT',
+              baseline: { doc_count: 0 },
+              comparison: { doc_count: 200 },
+            },
+            {
+              key: 'CARD_DECLINED',
+              baseline: { doc_count: 100 },
+              comparison: { doc_count: 100 },
+            },
+          ],
+        },
+        distribution_0: {
+          buckets: [
+            {
+              key: 'declined',
+              baseline: { doc_count: 100 },
+              comparison: { doc_count: 300 },
+            },
+          ],
+        },
+      },
+    });
+
+    const result = await compareTimeWindowsTool.execute!(
+      {
+        fields: ['error.message', 'error.code'],
+        query: 'event.outcome:failure',
+      } as any,
+      {} as any,
+    );
+
+    const [index, body, size] = mockSearch.mock.calls[0];
+    expect(index).toBe('payments-*');
+    expect(size).toBe(0);
+    expect(body.query.bool.should).toEqual([BASELINE, COMPARISON]);
+    expect(body.query.bool.filter).toHaveLength(1);
+    expect(body.aggs.windows.filters.filters).toEqual({
+      baseline: BASELINE,
+      comparison: COMPARISON,
+    });
+    expect(body.aggs.significant.filter).toEqual(COMPARISON);
+    expect(body.aggs.significant.aggs.field_0.significant_terms).toMatchObject({
+      field: 'error.message.keyword',
+      size: 10,
+    });
+    expect(
+      body.aggs.significant.aggs.field_0.significant_terms.background_filter
+        .bool.filter,
+    ).toContainEqual(BASELINE);
+    expect(body.aggs.distribution_1.terms.field).toBe('error.code');
+
+    expect(result.type).toBe('success');
+    expect(result.data.baseline).toMatchObject({
+      count: 100,
+      per_minute: 1.67,
+    });
+    expect(result.data.comparison).toMatchObject({
+      count: 300,
+      per_minute: 5,
+    });
+    expect(result.data.volume_change_pct).toBe(200);
+    // error.code shifted (LEDGER_TIMEOUT is new); error.message did not
+    expect(result.data.fields.map((f: any) => f.field)).toEqual([
+      'error.code',
+      'error.message',
+    ]);
+    expect(result.data.fields[0].shift).toBe(0.667);
+    expect(result.data.fields[0].new_values).toEqual([
+      { value: 'LEDGER_TIMEOUT', count: 200 },
+    ]);
+    expect(result.data.fields[0].significant_terms).toEqual([
+      { value: 'LEDGER_TIMEOUT', comparison: 200, baseline: 0, score: 4.5 },
+    ]);
+    expect(result.data.fields[1]).toMatchObject({
+      aggregated_field: 'error.message.keyword',
+      shift: 0,
+      significant_terms: [],
+    });
+    expect(result.warnings).toBeUndefined();
+  });
+
+  it('measures a local-time window in its time zone', async () => {
+    vi.useFakeTimers({ now: Date.parse('2025-10-01T15:00:00Z') });
+    mockSearch.mockResolvedValue({
+      aggregations: {
+        windows: {
+          buckets: {
+            baseline: { doc_count: 60 },
+            comparison: { doc_count: 180 },
+          },
+        },
+      },
+    });
+
+    const result = await compareTimeWindowsTool.execute!(
+      {
+        window: { from: '2025-10-01T14:00:00', time_zone: 'Europe/Amsterdam' },
+      } as any,
+      {} as any,
+    );
+
+    // 14:00 in Amsterdam is 12:00 UTC, so both windows last three hours
+    expect(result.data.baseline).toMatchObject({
+      time_range: {
+        from: '2025-10-01T09:00:00.000Z',
+        before: '2025-10-01T12:00:00.000Z',
+      },
+      per_minute: 0.33,
+    });
+    expect(result.data.comparison.per_minute).toBe(1);
+    expect(result.data.volume_change_pct).toBe(200);
+  });
+
+  it('uses an explicit baseline and warns when it is empty', async () => {
+    mockSearch.mockResolvedValue({
+      aggregations: {
+        windows: {
+          buckets: {
+            baseline: { doc_count: 0 },
+            comparison: { doc_count: 30 },
+          },
+        },
+      },
+    });
+
+    const result = await compareTimeWindowsTool.execute!(
+      {
+        window: { from: '2025-10-01T14:00:00Z', to: '2025-10-01T15:00:00Z' },
+        baseline: { from: '2025-09-30T14:00:00Z', to: '2025-09-30T15:00:00Z' },
+      } as any,
+      {} as any,
+    );
+
+    const body = mockSearch.mock.calls[0][1];
+    expect(body.aggs.windows.filters.filters.baseline).toEqual({
+      range: {
+        '@timestamp': {
+          gte: '2025-09-30T14:00:00Z',
+          lte: '2025-09-30T15:00:00Z',
+        },
+      },
+    });
+    expect(body.query.bool.filter).toEqual([]);
+    expect(result.data.volume_change_pct).toBeUndefined();
+    expect(result.data.fields[0].shift).toBeUndefined();
+    expect(result.warnings).toHaveLength(1);
+  });
+
+  it('throws for fields that are not mapped', async () => {
+    await expect(
+      compareTimeWindowsTool.execute!(
+        { fields: ['payment.scheme'] } as any,
+        {} as any,
+      ),
+    ).rejects.toThrow('Field "payment.scheme" is not mapped in "payments-*".');
+    expect(mockSearch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockCount } = vi.hoisted(() => ({
+  mockCount: vi.fn(),
+}));
+
+vi.mock('../../lib/toolWrapper', () => {
+  return {
+    config: {
+      allowedIndexPatterns: [],
+      piiRedactionEnabled: false,
+      auditEnabled: false,
+    },
+    esClient: {
+      count: mockCount,
+    },
+    auditLogger: { log: vi.fn() },
+    createSecureTool: (opts: any) => {
+      return {
+        id: opts.id,
+        description: opts.description,
+        execute: async (input: any) => {
+          const config = { allowedIndexPatterns: [] as string[] };
+          const esClient = { count: mockCount };
+          return opts.execute(input, { config, esClient });
+        },
+      };
+    },
+  };
+});
+
+// Import after mocking
+import { countDocumentsTool } from '../countDocuments';
+
+describe('count_documents tool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns the exact count for the base query', async () => {
+    mockCount.mockResolvedValue(48213);
+
+    const result = await (countDocumentsTool as any).execute({
+      index: 'transactions-*',
+      query: { query: { term: { status: 'failed' } } },
+    });
+
+    expect(result).toEqual({
+      type: 'success',
+      data: { count: 48213 },
+      total: 48213,
+    });
+    expect(mockCount).toHaveBeenCalledWith('transactions-*', {
+      query: { term: { status: 'failed' } },
+    });
+  });
+
+  it('merges the time range into the count query', async () => {
+    mockCount.mockResolvedValue(5);
+
+    await (countDocumentsTool as any).execute({
+      index: 'transactions-*',
+      time_range: { from: '2025-07-01', to: '2025-09-30' },
+      time_field: 'settlement_date',
+    });
+
+    expect(mockCount).toHaveBeenCalledWith('transactions-*', {
+      query: {
+        bool: {
+          filter: [
+            {
+              range: {
+                settlement_date: { gte: '2025-07-01', lte: '2025-09-30' },
+              },
+            },
+          ],
+        },
+      },
+    });
+  });
+
+  it('counts each named filter on top of the base query', async () => {
+    mockCount
+      .mockResolvedValueOnce(1000)
+      .mockResolvedValueOnce(40)
+      .mockResolvedValueOnce(7);
+
+    const result = await (countDocumentsTool as any).execute({
+      index: 'transactions-*',
+      query: { query: { term: { payment_type: 'SWIFT' } } },
+      filters: {
+        failed: { term: { status: 'failed' } },
+        large: { range: { amount: { gte: 10000 } } },
+      },
+    });
+
+    expect(result.data).toEqual({
+      count: 1000,
+      counts: { failed: 40, large: 7 },
+    });
+    expect(mockCount).toHaveBeenNthCalledWith(2, 'transactions-*', {
+      query: {
+        bool: {
+          filter: [
+            { term: { payment_type: 'SWIFT' } },
+            { term: { status: 'failed' } },
+          ],
+        },
+      },
+    });
+  });
+
+  it('rejects body keys that _count does not accept', async () => {
+    await expect(
+      (countDocumentsTool as any).execute({
+        index: 'transactions-*',
+        query: { query: { match_all: {} }, aggs: {} },
+      }),
+    ).rejects.toThrow('only accepts a "query" key in the body; remove aggs.');
+    expect(mockCount).not.toHaveBeenCalled();
+  });
+
+  it('names the filter that fails validation', async () => {
+    await expect(
+      (countDocumentsTool as any).execute({
+        index: 'transactions-*',
+        filters: { sneaky: { script: { script: 'true' } } },
+      }),
+    ).rejects.toThrow(/^Filter "sneaky": Query rejected/);
+    expect(mockCount).not.toHaveBeenCalled();
+  });
+});
@@ -1,9 +1,18 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 
 // Use vi.hoisted so the mocks are available inside the vi.mock factory
-const { mockCatIndices, mockGetMapping } = vi.hoisted(() => ({
+const {
+  mockCatIndices,
+  mockGetMapping,
+  mockFieldCaps,
+  mockGetDataStreams,
+  mockCatAliases,
+} = vi.hoisted(() => ({
   mockCatIndices: vi.fn(),
   mockGetMapping: vi.fn(),
+  mockFieldCaps: vi.fn(),
+  mockGetDataStreams: vi.fn(),
+  mockCatAliases: vi.fn(),
 }));
 
 vi.mock('../../lib/toolWrapper', () => {
@@ -16,6 +25,9 @@ vi.mock('../../lib/toolWrapper', () => {
     esClient: {
       catIndices: mockCatIndices,
       getMapping: mockGetMapping,
+      fieldCaps: mockFieldCaps,
+      getDataStreams: mockGetDataStreams,
+      catAliases: mockCatAliases,
     },
     auditLogger: { log: vi.fn() },
     createSecureTool: (opts: any) => {
@@ -28,8 +40,24 @@ vi.mock('../../lib/toolWrapper', () => {
             allowedIndexPatterns: [] as string[],
             ...((input as any).__testConfig ?? {}),
           };
-          const esClient = { catIndices: mockCatIndices, getMapping: mockGetMapping };
-          const defaults = { pattern: '*', include_hidden: false, max_indices: 50 };
+          const esClient = {
+            catIndices: mockCatIndices,
+            getMapping: mockGetMapping,
+            fieldCaps: mockFieldCaps,
+            getDataStreams: mockGetDataStreams,
+            catAliases: mockCatAliases,
+            isAllowed: (name: string) =>
+              config.allowedIndexPatterns.length === 0 ||
+              config.allowedIndexPatterns.some((p: string) =>
+                p.endsWith('*') ? name.startsWith(p.slice(0, -1)) : p === name,
+              ),
+          };
+          const defaults = {
+            pattern: '*',
+            include_hidden: false,
+            max_indices: 50,
+            group_families: true,
+          };
           const merged = { ...defaults, ...input };
           return opts.execute(merged, { config, esClient });
         },
@@ -44,6 +72,9 @@ import { discoverClusterTool } from '../discoverCluster';
 describe('discover_cluster tool', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mockFieldCaps.mockResolvedValue({ fields: {} });
+    mockGetDataStreams.mockResolvedValue([]);
+    mockCatAliases.mockResolvedValue([]);
   });
 
   it('returns indices with their field mappings', async () => {
@@ -213,4 +244,234 @@ describe('discover_cluster tool', () => {
     // Should be deduplicated — only one `message` field
     expect(logsIdx.fields).toEqual([{ field: 'message', type: 'text' }]);
   });
+
+  it('enriches fields with their capabilities', async () => {
+    mockCatIndices.mockResolvedValue([
+      { index: 'transactions', health: 'green', status: 'open', 'docs.count': '1000', 'store.size': '1mb' },
+    ]);
+    mockGetMapping.mockResolvedValue({
+      transactions: {
+        mappings: {
+          properties: {
+            customer_name: { type: 'text', fields: { keyword: { type: 'keyword' } } },
+          },
+          runtime: { day_of_week: { type: 'keyword' } },
+        },
+      },
+    });
+    mockFieldCaps.mockResolvedValue({
+      fields: {
+        customer_name: { text: { type: 'text', searchable: true, aggregatable: false } },
+        'customer_name.keyword': { keyword: { type: 'keyword', searchable: true, aggregatable: true } },
+        day_of_week: { keyword: { type: 'keyword', searchable: true, aggregatable: true } },
+      },
+    });
+
+    const result = await (discoverClusterTool as any).execute({});
+
+    expect(mockFieldCaps).toHaveBeenCalledWith('transactions');
+    expect(result.data.indices[0].fields).toEqual([
+      {
+        field: 'customer_name',
+        type: 'text',
+        searchable: true,
+        aggregatable: false,
+        aggregatable_sibling: 'customer_name.keyword',
+      },
+      { field: 'customer_name.keyword', type: 'keyword', searchable: true, aggregatable: true },
+      { field: 'day_of_week', type: 'keyword', runtime: true, searchable: true, aggregatable: true },
+    ]);
+  });
+
+  it('returns plain mappings when field capabilities are unavailable', async () => {
+    mockCatIndices.mockResolvedValue([
+      { index: 'logs', health: 'green', status: 'open', 'docs.count': '500', 'store.size': '2mb' },
+    ]);
+    mockGetMapping.mockResolvedValue({
+      logs: { mappings: { properties: { message: { type: 'text' } } } },
+    });
+    mockFieldCaps.mockRejectedValue(new Error('security_exception'));
+
+    const result = await (discoverClusterTool as any).execute({});
+
+    expect(result.data.indices[0].fields).toEqual([{ field: 'message', type: 'text' }]);
+  });
+
+  describe('index families', () => {
+    const dailyIndices = [
+      { index: 'app-logs-2025.10.02', health: 'green', status: 'open', 'docs.count': '300', 'store.size': '2mb' },
+      { index: 'app-logs-2025.10.01', health: 'green', status: 'open', 'docs.count': '200', 'store.size': '1mb' },
+      { index: 'customers', health: 'green', status: 'open', 'docs.count': '50', 'store.size': '10kb' },
+    ];
+
+    beforeEach(() => {
+      mockCatIndices.mockResolvedValue(dailyIndices);
+      mockGetMapping.mockImplementation((index: string) =>
+        Promise.resolve(
+          index.startsWith('app-logs-')
+            ? {
+                'app-logs-2025.10.01': {
+                  mappings: { properties: { message: { type: 'text' } } },
+                },
+                'app-logs-2025.10.02': {
+                  mappings: {
+                    properties: {
+                      message: { type: 'text' },
+                      trace_id: { type: 'keyword' },
+                    },
+                  },
+                },
+              }
+            : { [index]: { mappings: { properties: { name: { type: 'keyword' } } } } },
+        ),
+      );
+    });
+
+    it('collapses dated indices into a family summary', async () => {
+      const result = await (discoverClusterTool as any).execute({});
+
+      expect(result.data.cluster_summary).toMatchObject({ total_indices: 3, discovered: 1, families: 1 });
+      expect(result.data.indices.map((i: any) => i.index)).toEqual(['customers']);
+      expect(result.data.families).toEqual([
+        {
+          family: 'app-logs',
+          pattern: 'app-logs-*',
+          index_count: 2,
+          doc_count: 500,
+          store_size_bytes: 3 * 1024 ** 2,
+          time_span: { from: '2025-10-01', to: '2025-10-02' },
+          fields: [
+            { field: 'message', type: 'text', presence: 1 },
+            { field: 'trace_id', type: 'keyword', presence: 0.5 },
+          ],
+        },
+      ]);
+      expect(mockGetMapping).not.toHaveBeenCalledWith('app-logs-2025.10.01');
+    });
+
+    it('narrows the family pattern to what the allow-list admits', async () => {
+      const result = await (discoverClusterTool as any).execute({
+        __testConfig: { allowedIndexPatterns: ['app-logs-2025*', 'customers'] },
+      });
+
+      expect(result.data.families[0]).toMatchObject({
+        family: 'app-logs',
+        pattern: 'app-logs-2025.10.0*',
+      });
+      expect(result.data.families[0].fields).toHaveLength(2);
+      expect(mockGetMapping).toHaveBeenCalledWith('app-logs-2025.10.0*');
+    });
+
+    it('lists the indices of expanded families individually', async () => {
+      const result = await (discoverClusterTool as any).execute({ expand_families: ['app-logs'] });
+
+      expect(result.data.families).toEqual([]);
+      expect(result.data.indices.map((i: any) => i.index)).toEqual([
+        'app-logs-2025.10.02',
+        'app-logs-2025.10.01',
+        'customers',
+      ]);
+    });
+
+    it('does not group when group_families is false', async () => {
+      const result = await (discoverClusterTool as any).execute({ group_families: false });
+
+      expect(result.data.families).toEqual([]);
+      expect(result.data.indices).toHaveLength(3);
+    });
+  });
+
+  it('returns data streams with their backing index count, template and policy', async () => {
+    mockCatIndices.mockResolvedValue([]);
+    mockGetDataStreams.mockResolvedValue([
+      {
+        name: 'logs-payments',
+        timestamp_field: { name: '@timestamp' },
+        indices: [
+          { index_name: '.ds-logs-payments-2025.10.01-000001' },
+          { index_name: '.ds-logs-payments-2025.10.08-000002' },
+        ],
+        status: 'GREEN',
+        template: 'logs-payments-template',
+        ilm_policy: 'logs-30d',
+      },
+      { name: '.kibana-event-log', hidden: true, indices: [], status: 'GREEN' },
+    ]);
+    mockGetMapping.mockResolvedValue({
+      '.ds-logs-payments-2025.10.01-000001': {
+        mappings: { properties: { '@timestamp': { type: 'date' } } },
+      },
+    });
+
+    const result = await (discoverClusterTool as any).execute({});
+
+    expect(result.data.cluster_summary.data_streams).toBe(1);
+    expect(result.data.data_streams).toEqual([
+      {
+        name: 'logs-payments',
+        backing_indices: 2,
+        template: 'logs-payments-template',
+        ilm_policy: 'logs-30d',
+        time_field: '@timestamp',
+        health: 'green',
+        fields: [{ field: '@timestamp', type: 'date' }],
+      },
+    ]);
+    expect(mockGetMapping).toHaveBeenCalledWith('logs-payments');
+  });
+
+  it('groups alias rows and reports the write index', async () => {
+    mockCatIndices.mockResolvedValue([]);
+    mockCatAliases.mockResolvedValue([
+      { alias: 'transactions', index: 'transactions-000001', is_write_index: 'false' },
+      { alias: 'transactions', index: 'transactions-000002', is_write_index: 'true' },
+      { alias: '.security', index: '.security-7', is_write_index: '-' },
+    ]);
+
+    const result = await (discoverClusterTool as any).execute({});
+
+    expect(result.data.cluster_summary.aliases).toBe(1);
+    expect(result.data.aliases).toEqual([
+      {
+        alias: 'transactions',
+        indices: ['transactions-000001', 'transactions-000002'],
+        write_index: 'transactions-000002',
+      },
+    ]);
+  });
+
+  it('applies the allow-list to data streams, aliases and alias targets', async () => {
+    mockCatIndices.mockResolvedValue([]);
+    mockGetMapping.mockResolvedValue({});
+    mockGetDataStreams.mockResolvedValue([
+      { name: 'logs-payments', indices: [], status: 'GREEN' },
+      { name: 'logs-hr', indices: [], status: 'GREEN' },
+    ]);
+    mockCatAliases.mockResolvedValue([
+      { alias: 'logs-current', index: '.ds-logs-payments-2025.10.01-000001', is_write_index: 'true' },
+      { alias: 'logs-all', index: 'logs-payments', is_write_index: '-' },
+      { alias: 'logs-all', index: 'hr-salaries', is_write_index: '-' },
+      { alias: 'people', index: 'hr-salaries', is_write_index: '-' },
+    ]);
+
+    const result = await (discoverClusterTool as any).execute({
+      __testConfig: { allowedIndexPatterns: ['logs-payments*', 'logs-current', 'logs-all'] },
+    });
+
+    expect(result.data.data_streams.map((d: any) => d.name)).toEqual(['logs-payments']);
+    // logs-all is allowed by name but reaches hr-salaries, so it is not listed
+    expect(result.data.aliases.map((a: any) => a.alias)).toEqual(['logs-current']);
+  });
+
+  it('lists no data streams or aliases when the cluster cannot report them', async () => {
+    mockCatIndices.mockResolvedValue([]);
+    mockGetDataStreams.mockRejectedValue(new Error('security_exception'));
+    mockCatAliases.mockRejectedValue(new Error('security_exception'));
+
+    const result = await (discoverClusterTool as any).execute({});
+
+    expect(result.type).toBe('success');
+    expect(result.data.data_streams).toEqual([]);
+    expect(result.data.aliases).toEqual([]);
+  });
 });
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockEsqlQuery } = vi.hoisted(() => ({
+  mockEsqlQuery: vi.fn(),
+}));
+
+vi.mock('../../lib/toolWrapper', () => {
+  return {
+    config: {
+      allowedIndexPatterns: [],
+      piiRedactionEnabled: false,
+      auditEnabled: false,
+    },
+    esClient: {
+      esqlQuery: mockEsqlQuery,
+    },
+    auditLogger: { log: vi.fn() },
+    createSecureTool: (opts: any) => {
+      return {
+        id: opts.id,
+        description: opts.description,
+        execute: async (input: any) => {
+          const config = { allowedIndexPatterns: [] as string[] };
+          const esClient = { esqlQuery: mockEsqlQuery };
+          const defaults = { limit: 10 };
+          const merged = { ...defaults, ...input };
+          return opts.execute(merged, { config, esClient });
+        },
+      };
+    },
+  };
+});
+
+// Import after mocking
+import { esqlQueryTool } from '../esqlQuery';
+
+describe('esql_query tool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('converts columnar values into rows with column metadata', async () => {
+    mockEsqlQuery.mockResolvedValue({
+      columns: [
+        { name: 'service.name', type: 'keyword' },
+        { name: 'c', type: 'long' },
+      ],
+      values: [
+        ['payments', 42],
+        ['ledger', 7],
+      ],
+    });
+
+    const result = await (esqlQueryTool as any).execute({
+      query: 'FROM logs-* | STATS c = COUNT(*) BY service.name',
+    });
+
+    expect(result.type).toBe('success');
+    expect(result.data.columns).toEqual([
+      { name: 'service.name', type: 'keyword' },
+      { name: 'c', type: 'long' },
+    ]);
+    expect(result.data.rows).toEqual([
+      { 'service.name': 'payments', c: 42 },
+      { 'service.name': 'ledger', c: 7 },
+    ]);
+    expect(result.total).toBe(2);
+  });
+
+  it('passes query and limit through to esClient.esqlQuery()', async () => {
+    mockEsqlQuery.mockResolvedValue({ columns: [], values: [] });
+
+    await (esqlQueryTool as any).execute({ query: 'FROM logs | LIMIT 5', limit: 25 });
+
+    expect(mockEsqlQuery).toHaveBeenCalledWith('FROM logs | LIMIT 5', 25);
+  });
+
+  it('rejects non-read commands before calling Elasticsearch', async () => {
+    await expect(
+      (esqlQueryTool as any).execute({ query: 'FROM logs | ENRICH policy' }),
+    ).rejects.toThrow(/not allowed/);
+    expect(mockEsqlQuery).not.toHaveBeenCalled();
+  });
+});
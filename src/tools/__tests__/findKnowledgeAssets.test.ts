@@ -0,0 +1,224 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockKibanaGet, allowedPatterns, space } = vi.hoisted(() => ({
+  mockKibanaGet: vi.fn(),
+  allowedPatterns: { value: [] as string[] },
+  space: { value: '' },
+}));
+
+vi.mock('../../lib/toolWrapper', () => {
+  const isAllowed = (name: string) =>
+    allowedPatterns.value.length === 0 || allowedPatterns.value.includes(name);
+  return {
+    config: {
+      allowedIndexPatterns: [],
+      piiRedactionEnabled: false,
+      auditEnabled: false,
+    },
+    esClient: {
+      kibanaGet: mockKibanaGet,
+      isAllowed,
+    },
+    auditLogger: { log: vi.fn() },
+    createSecureTool: (opts: any) => {
+      return {
+        id: opts.id,
+        description: opts.description,
+        execute: async (input: any) => {
+          const config = {
+            allowedIndexPatterns: allowedPatterns.value,
+            kibanaUrl: 'https://bank.kb.example.com',
+            kibanaSpace: space.value,
+          };
+          const esClient = { kibanaGet: mockKibanaGet, isAllowed };
+          return opts.execute(
+            { max_results: 10, ...input },
+            { config, esClient },
+          );
+        },
+      };
+    },
+  };
+});
+
+// Import after mocking
+import { findKnowledgeAssetsTool } from '../findKnowledgeAssets';
+
+const savedObjects = [
+  {
+    type: 'dashboard',
+    id: 'sepa-dash',
+    attributes: {
+      title: 'SEPA Payment Failures',
+      description: 'Rejected SEPA credit transfers by bank',
+    },
+    references: [
+      { type: 'lens', id: 'rejections-by-bank', name: 'panel_0' },
+      { type: 'tag', id: 'payments-tag', name: 'tag-ref-payments' },
+    ],
+  },
+  {
+    type: 'lens',
+    id: 'rejections-by-bank',
+    attributes: { title: 'Rejections by bank' },
+    references: [
+      { type: 'index-pattern', id: 'txn-view', name: 'indexpattern-0' },
+    ],
+  },
+  {
+    type: 'search',
+    id: 'hr-search',
+    attributes: { title: 'Payroll payment failures' },
+    references: [{ type: 'index-pattern', id: 'hr-view', name: 'index' }],
+  },
+  {
+    type: 'index-pattern',
+    id: 'txn-view',
+    attributes: { title: 'transactions-*', name: 'Payments' },
+    references: [],
+  },
+  {
+    type: 'index-pattern',
+    id: 'hr-view',
+    attributes: { title: 'hr-salaries' },
+    references: [],
+  },
+  {
+    type: 'tag',
+    id: 'payments-tag',
+    attributes: { name: 'Payments' },
+    references: [],
+  },
+];
+
+describe('find_knowledge_assets tool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    allowedPatterns.value = [];
+    space.value = '';
+    mockKibanaGet.mockResolvedValue({ saved_objects: savedObjects });
+  });
+
+  it('ranks assets and resolves tags and index patterns through panels', async () => {
+    const result = await (findKnowledgeAssetsTool as any).execute({
+      question: 'Which dashboard shows failed SEPA payments?',
+    });
+
+    expect(result.type).toBe('success');
+    expect(result.data.assets[0]).toEqual({
+      id: 'sepa-dash',
+      type: 'dashboard',
+      title: 'SEPA Payment Failures',
+      description: 'Rejected SEPA credit transfers by bank',
+      tags: ['Payments'],
+      index_patterns: ['transactions-*'],
+      url: 'https://bank.kb.example.com/app/dashboards#/view/sepa-dash',
+      score: expect.any(Number),
+      matched_terms: ['fail', 'sepa', 'payment'],
+    });
+    expect(result.data.assets.map((a: any) => a.id)).toEqual([
+      'sepa-dash',
+      'hr-search',
+      'txn-view',
+    ]);
+    const path = mockKibanaGet.mock.calls[0][0];
+    expect(path).toContain('/api/saved_objects/_find?type=dashboard');
+    expect(path).toContain('type=tag');
+  });
+
+  it('links into the configured space and filters by type', async () => {
+    space.value = 'payments-team';
+
+    const result = await (findKnowledgeAssetsTool as any).execute({
+      question: 'payments',
+      types: ['index-pattern'],
+    });
+
+    expect(result.data.candidates).toBe(2);
+    expect(result.data.assets).toHaveLength(1);
+    expect(result.data.assets[0].url).toBe(
+      'https://bank.kb.example.com/s/payments-team/app/management/kibana/dataViews/dataView/txn-view',
+    );
+  });
+
+  it('hides assets that read indices outside the allowed patterns', async () => {
+    allowedPatterns.value = ['transactions-*'];
+
+    const result = await (findKnowledgeAssetsTool as any).execute({
+      question: 'payment failures',
+    });
+
+    expect(result.data.assets.map((a: any) => a.id)).not.toContain('hr-search');
+    expect(result.data.assets.map((a: any) => a.id)).toContain('sepa-dash');
+  });
+
+  it('hides assets with unknown index patterns when an allow-list is set', async () => {
+    mockKibanaGet.mockResolvedValue({
+      saved_objects: [
+        ...savedObjects,
+        {
+          type: 'dashboard',
+          id: 'esql-dash',
+          attributes: { title: 'Payment failures (ES|QL)' },
+          references: [],
+        },
+      ],
+    });
+
+    const open = await (findKnowledgeAssetsTool as any).execute({
+      question: 'payment failures',
+    });
+    allowedPatterns.value = ['transactions-*'];
+    const restricted = await (findKnowledgeAssetsTool as any).execute({
+      question: 'payment failures',
+    });
+
+    expect(open.data.assets.map((a: any) => a.id)).toContain('esql-dash');
+    expect(restricted.data.assets.map((a: any) => a.id)).not.toContain(
+      'esql-dash',
+    );
+  });
+
+  it('hides assets with an unresolved reference when an allow-list is set', async () => {
+    mockKibanaGet.mockResolvedValue({
+      saved_objects: [
+        ...savedObjects,
+        {
+          type: 'dashboard',
+          id: 'mixed-dash',
+          attributes: { title: 'Payment failures overview' },
+          references: [
+            { type: 'lens', id: 'rejections-by-bank', name: 'panel_0' },
+            { type: 'visualization', id: 'deleted-panel', name: 'panel_1' },
+          ],
+        },
+      ],
+    });
+
+    const open = await (findKnowledgeAssetsTool as any).execute({
+      question: 'payment failures',
+    });
+    allowedPatterns.value = ['transactions-*'];
+    const restricted = await (findKnowledgeAssetsTool as any).execute({
+      question: 'payment failures',
+    });
+
+    const mixed = open.data.assets.find((a: any) => a.id === 'mixed-dash');
+    expect(mixed.index_patterns).toEqual(['transactions-*']);
+    expect(restricted.data.assets.map((a: any) => a.id)).not.toContain(
+      'mixed-dash',
+    );
+    expect(restricted.data.assets.map((a: any) => a.id)).toContain('sepa-dash');
+  });
+
+  it('returns a graceful error when saved objects are not accessible', async () => {
+    mockKibanaGet.mockRejectedValue({ response: { status: 403 } });
+
+    const result = await (findKnowledgeAssetsTool as any).execute({
+      question: 'payments',
+    });
+
+    expect(result.type).toBe('error');
+    expect(result.error).toContain('Kibana saved objects are not available');
+  });
+});
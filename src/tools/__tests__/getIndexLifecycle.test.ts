@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const {
+  mockIlmExplain,
+  mockLifecycleExplain,
+  mockGetIlmPolicies,
+  mockGetIndexTemplates,
+} = vi.hoisted(() => ({
+  mockIlmExplain: vi.fn(),
+  mockLifecycleExplain: vi.fn(),
+  mockGetIlmPolicies: vi.fn(),
+  mockGetIndexTemplates: vi.fn(),
+}));
+
+vi.mock('../../lib/toolWrapper', () => {
+  const esClient = {
+    ilmExplain: mockIlmExplain,
+    lifecycleExplain: mockLifecycleExplain,
+    getIlmPolicies: mockGetIlmPolicies,
+    getIndexTemplates: mockGetIndexTemplates,
+  };
+  return {
+    config: {
+      allowedIndexPatterns: [],
+      piiRedactionEnabled: false,
+      auditEnabled: false,
+    },
+    esClient,
+    auditLogger: { log: vi.fn() },
+    createSecureTool: (opts: any) => {
+      return {
+        id: opts.id,
+        description: opts.description,
+        execute: async (input: any) => {
+          const config = { allowedIndexPatterns: [] as string[] };
+          return opts.execute(
+            { max_indices: 50, ...input },
+            { config, esClient },
+          );
+        },
+      };
+    },
+  };
+});
+
+// Import after mocking
+import { getIndexLifecycleTool } from '../getIndexLifecycle';
+
+const explained = (index: string, extra: Record<string, any> = {}) => ({
+  index,
+  managed: true,
+  policy: 'transactions-90d',
+  phase: 'hot',
+  action: 'rollover',
+  step: 'check-rollover-ready',
+  age: '1d',
+  ...extra,
+});
+
+describe('get_index_lifecycle tool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockIlmExplain.mockResolvedValue({
+      'transactions-000001': explained('transactions-000001', {
+        phase: 'warm',
+        step: 'ERROR',
+        failed_step: 'shrink',
+        step_info: { type: 'illegal_argument_exception', reason: 'no room' },
+      }),
+      'transactions-000002': explained('transactions-000002'),
+    });
+    mockLifecycleExplain.mockResolvedValue({});
+    mockGetIlmPolicies.mockResolvedValue({
+      'transactions-90d': {
+        policy: {
+          phases: {
+            hot: { actions: { rollover: { max_age: '7d' } } },
+            delete: { min_age: '90d', actions: { delete: {} } },
+          },
+        },
+      },
+    });
+    mockGetIndexTemplates.mockResolvedValue([
+      {
+        name: 'transactions',
+        index_template: { index_patterns: ['transactions-*'], priority: 100 },
+      },
+    ]);
+  });
+
+  it('summarizes phases and errors and lists failed indices first', async () => {
+    const result = await (getIndexLifecycleTool as any).execute({
+      index: 'transactions-*',
+      max_indices: 1,
+    });
+
+    expect(mockIlmExplain).toHaveBeenCalledWith('transactions-*');
+    expect(result.type).toBe('success');
+    expect(result.total).toBe(2);
+    expect(result.data.summary).toEqual({
+      indices: 2,
+      by_phase: { warm: 1, hot: 1 },
+      errors: 1,
+    });
+    expect(result.data.indices).toHaveLength(1);
+    expect(result.data.indices[0]).toMatchObject({
+      index: 'transactions-000001',
+      retention: '90d',
+      error: { failed_step: 'shrink', reason: 'no room' },
+      template: { name: 'transactions', priority: 100 },
+    });
+  });
+
+  it('warns when policies or templates cannot be read', async () => {
+    mockGetIlmPolicies.mockRejectedValue({ response: { status: 403 } });
+    mockGetIndexTemplates.mockRejectedValue({ response: { status: 403 } });
+    mockLifecycleExplain.mockRejectedValue({ response: { status: 400 } });
+
+    const result = await (getIndexLifecycleTool as any).execute({
+      index: 'transactions-*',
+    });
+
+    expect(result.type).toBe('success');
+    expect(result.warnings).toEqual([
+      'ILM policies could not be read: the API key lacks the required privilege.',
+      'Index templates could not be read: the API key lacks the required privilege.',
+    ]);
+    expect(result.data.indices[1]).toMatchObject({
+      phase: 'hot',
+      retention: undefined,
+      template: undefined,
+    });
+  });
+
+  it('throws when nothing matches the pattern', async () => {
+    mockIlmExplain.mockResolvedValue({});
+
+    await expect(
+      (getIndexLifecycleTool as any).execute({ index: 'missing-*' }),
+    ).rejects.toThrow('No lifecycle information found for "missing-*"');
+  });
+
+  it('rethrows unexpected errors', async () => {
+    mockIlmExplain.mockRejectedValue(new Error('socket hang up'));
+
+    await expect(
+      (getIndexLifecycleTool as any).execute({ index: 'transactions-*' }),
+    ).rejects.toThrow('socket hang up');
+  });
+});
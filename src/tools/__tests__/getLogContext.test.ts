@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockSearch, mockMultiSearch } = vi.hoisted(() => ({
+  mockSearch: vi.fn(),
+  mockMultiSearch: vi.fn(),
+}));
+
+vi.mock('../../lib/toolWrapper', () => {
+  return {
+    config: {
+      allowedIndexPatterns: [],
+      piiRedactionEnabled: false,
+      auditEnabled: false,
+    },
+    esClient: {
+      search: mockSearch,
+      multiSearch: mockMultiSearch,
+    },
+    auditLogger: { log: vi.fn() },
+    createSecureTool: (opts: any) => {
+      return {
+        id: opts.id,
+        description: opts.description,
+        execute: async (input: any) => {
+          const config = { allowedIndexPatterns: [] as string[] };
+          const esClient = { search: mockSearch, multiSearch: mockMultiSearch };
+          return opts.execute(
+            {
+              index: 'logs-*',
+              time_field: '@timestamp',
+              size: 5,
+              search_window: '1d',
+              ...input,
+            },
+            { config, esClient },
+          );
+        },
+      };
+    },
+  };
+});
+
+// Import after mocking
+import { getLogContextTool } from '../getLogContext';
+
+const ANCHOR_TIME = '2025-10-01T10:00:00.000Z';
+
+function hit(id: string, time: string, doc: number, source: any = {}) {
+  return {
+    _id: id,
+    _index: 'logs-payments-2025.10.01',
+    _score: null,
+    sort: [time, doc],
+    _source: { '@timestamp': time, ...source },
+  };
+}
+
+describe('get_log_context tool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('pages both ways from the anchor, constrained to its host', async () => {
+    mockSearch.mockResolvedValue({
+      hits: {
+        hits: [
+          hit('anchor', ANCHOR_TIME, 42, {
+            host: { name: 'pod-7' },
+            message: 'NullPointerException in LedgerClient',
+          }),
+        ],
+      },
+    });
+    mockMultiSearch.mockResolvedValue([
+      {
+        hits: {
+          hits: [
+            hit('b1', '2025-10-01T09:59:59.000Z', 40),
+            hit('b2', '2025-10-01T09:59:58.000Z', 12),
+          ],
+        },
+      },
+      { hits: { hits: [hit('a1', '2025-10-01T10:00:01.000Z', 3)] } },
+    ]);
+
+    const result = await getLogContextTool.execute!(
+      { id: 'anchor', match_fields: ['host.name'] } as any,
+      {} as any,
+    );
+
+    expect(mockSearch.mock.calls[0][1].query.bool.filter).toEqual([
+      { ids: { values: ['anchor'] } },
+    ]);
+    const [before, after] = mockMultiSearch.mock.calls[0][0];
+    expect(before.size).toBe(5);
+    expect(before.body.search_after).toEqual([ANCHOR_TIME, 42]);
+    expect(before.body.sort).toEqual([
+      {
+        '@timestamp': {
+          order: 'desc',
+          format: 'strict_date_optional_time_nanos',
+        },
+      },
+      { _doc: 'desc' },
+    ]);
+    expect(before.body.query.bool.filter).toEqual([
+      {
+        range: {
+          '@timestamp': {
+            gte: `${ANCHOR_TIME}||-1d`,
+            lte: ANCHOR_TIME,
+            format: 'strict_date_optional_time_nanos',
+          },
+        },
+      },
+      { term: { 'host.name': 'pod-7' } },
+    ]);
+    expect(after.body.sort[1]).toEqual({ _doc: 'asc' });
+    expect(after.body.query.bool.filter[0].range['@timestamp'].lte).toBe(
+      `${ANCHOR_TIME}||+1d`,
+    );
+
+    expect(result.type).toBe('success');
+    expect(result.total).toBe(3);
+    expect(result.data.anchor._id).toBe('anchor');
+    expect(result.data.before.map((h: any) => h._id)).toEqual(['b2', 'b1']);
+    expect(result.data.after.map((h: any) => h._id)).toEqual(['a1']);
+    expect(result.data.constrained_by).toEqual({ 'host.name': 'pod-7' });
+  });
+
+  it('finds the anchor from a timestamp and warns about missing match fields', async () => {
+    mockSearch.mockResolvedValue({
+      hits: { hits: [hit('anchor', ANCHOR_TIME, 7)] },
+    });
+    mockMultiSearch.mockResolvedValue([
+      { hits: { hits: [] } },
+      { hits: { hits: [] } },
+    ]);
+
+    const result = await getLogContextTool.execute!(
+      {
+        sort_values: [Date.parse(ANCHOR_TIME)],
+        match_fields: ['trace.id'],
+      } as any,
+      {} as any,
+    );
+
+    const anchorBody = mockSearch.mock.calls[0][1];
+    expect(anchorBody.query.bool.filter[0].range['@timestamp']).toMatchObject({
+      gte: ANCHOR_TIME,
+      lte: `${ANCHOR_TIME}||+1d`,
+    });
+    expect(anchorBody.sort[0]['@timestamp'].order).toBe('asc');
+    expect(anchorBody.search_after).toBeUndefined();
+    expect(mockSearch.mock.calls[0][2]).toBe(1);
+    expect(
+      mockMultiSearch.mock.calls[0][0][0].body.query.bool.filter,
+    ).toHaveLength(1);
+    expect(result.data.constrained_by).toEqual({});
+    expect(result.warnings).toEqual([
+      'The anchor has no single "trace.id" value, so the context is not constrained by it.',
+    ]);
+  });
+
+  it('resumes from the sort values of a previous call', async () => {
+    mockSearch.mockResolvedValue({
+      hits: { hits: [hit('b2', '2025-10-01T09:59:58.000Z', 12)] },
+    });
+    mockMultiSearch.mockResolvedValue([
+      { hits: { hits: [] } },
+      { hits: { hits: [] } },
+    ]);
+
+    await getLogContextTool.execute!(
+      { sort_values: ['2025-10-01T09:59:58.000Z', 12] } as any,
+      {} as any,
+    );
+
+    expect(mockSearch.mock.calls[0][1].search_after).toEqual([
+      '2025-10-01T09:59:58.000Z',
+      11,
+    ]);
+  });
+
+  it('requires exactly one of id and sort_values', async () => {
+    await expect(
+      getLogContextTool.execute!({} as any, {} as any),
+    ).rejects.toThrow(/either id or sort_values/);
+    await expect(
+      getLogContextTool.execute!(
+        { id: 'x', sort_values: [ANCHOR_TIME] } as any,
+        {} as any,
+      ),
+    ).rejects.toThrow(/either id or sort_values/);
+    expect(mockSearch).not.toHaveBeenCalled();
+  });
+
+  it('throws when the anchor is not found', async () => {
+    mockSearch.mockResolvedValue({ hits: { hits: [] } });
+
+    await expect(
+      getLogContextTool.execute!({ id: 'gone' } as any, {} as any),
+    ).rejects.toThrow('No document with _id "gone" found in "logs-*".');
+    expect(mockMultiSearch).not.toHaveBeenCalled();
+  });
+});
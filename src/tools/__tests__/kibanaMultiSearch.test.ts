@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockMultiSearch } = vi.hoisted(() => ({
+  mockMultiSearch: vi.fn(),
+}));
+
+vi.mock('../../lib/toolWrapper', () => {
+  return {
+    config: {
+      allowedIndexPatterns: [],
+      piiRedactionEnabled: false,
+      auditEnabled: false,
+    },
+    esClient: {
+      multiSearch: mockMultiSearch,
+    },
+    auditLogger: { log: vi.fn() },
+    createSecureTool: (opts: any) => {
+      return {
+        id: opts.id,
+        description: opts.description,
+        execute: async (input: any) => {
+          const config = { allowedIndexPatterns: [] as string[] };
+          const esClient = { multiSearch: mockMultiSearch };
+          return opts.execute(input, { config, esClient });
+        },
+      };
+    },
+  };
+});
+
+// Import after mocking
+import { kibanaMultiSearchTool } from '../kibanaMultiSearch';
+
+function hitsResponse(sources: any[], total: number) {
+  return {
+    hits: {
+      total: { value: total },
+      hits: sources.map((_source) => ({ _source })),
+    },
+  };
+}
+
+describe('kibana_multi_search tool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns results keyed by label', async () => {
+    mockMultiSearch.mockResolvedValue([
+      hitsResponse([{ status: 'failed' }], 12),
+      hitsResponse([{ status: 'success' }], 340),
+    ]);
+
+    const result = await (kibanaMultiSearchTool as any).execute({
+      searches: [
+        {
+          label: 'failed',
+          index: 'transactions-*',
+          query: { query: { term: { status: 'failed' } } },
+          size: 1,
+        },
+        {
+          label: 'successful',
+          index: 'transactions-*',
+          query: { query: { term: { status: 'success' } } },
+          size: 1,
+        },
+      ],
+    });
+
+    expect(result.type).toBe('success');
+    expect(result.data.failed).toEqual({
+      type: 'success',
+      data: [{ status: 'failed' }],
+      total: 12,
+    });
+    expect(result.data.successful.total).toBe(340);
+  });
+
+  it('applies each time range to its own search', async () => {
+    mockMultiSearch.mockResolvedValue([
+      hitsResponse([], 0),
+      hitsResponse([], 0),
+    ]);
+
+    await (kibanaMultiSearchTool as any).execute({
+      searches: [
+        {
+          label: 'this_week',
+          index: 'transactions-*',
+          query: {},
+          size: 0,
+          time_range: 'now-7d',
+          time_field: 'event_time',
+        },
+        {
+          label: 'last_week',
+          index: 'transactions-*',
+          query: {},
+          size: 0,
+          time_range: { from: 'now-14d', to: 'now-7d' },
+          time_field: 'event_time',
+        },
+      ],
+    });
+
+    const [[searches]] = mockMultiSearch.mock.calls;
+    expect(searches[0].body.query.bool.filter).toEqual([
+      { range: { event_time: { gte: 'now-7d', lte: 'now' } } },
+    ]);
+    expect(searches[1].body.query.bool.filter).toEqual([
+      { range: { event_time: { gte: 'now-14d', lte: 'now-7d' } } },
+    ]);
+  });
+
+  it('reports validation and execution failures per label', async () => {
+    mockMultiSearch.mockResolvedValue([
+      {
+        error: {
+          type: 'index_not_found_exception',
+          reason: 'no such index [ledger-x]',
+        },
+        status: 404,
+      },
+      hitsResponse([{ ok: true }], 1),
+    ]);
+
+    const result = await (kibanaMultiSearchTool as any).execute({
+      searches: [
+        {
+          label: 'scripted',
+          index: 'transactions-*',
+          query: { query: { script: { script: 'true' } } },
+          size: 1,
+        },
+        { label: 'missing', index: 'ledger-x', query: {}, size: 1 },
+        { label: 'ok', index: 'transactions-*', query: {}, size: 1 },
+      ],
+    });
+
+    expect(result.data.scripted.type).toBe('error');
+    expect(result.data.scripted.error).toMatch(/Query rejected/);
+    expect(result.data.missing).toEqual({
+      type: 'error',
+      error: 'no such index [ledger-x]',
+    });
+    expect(result.data.ok.type).toBe('success');
+    expect(mockMultiSearch.mock.calls[0][0]).toHaveLength(2);
+  });
+
+  it('rejects duplicate labels', async () => {
+    await expect(
+      (kibanaMultiSearchTool as any).execute({
+        searches: [
+          { label: 'a', index: 'logs-*', query: {}, size: 1 },
+          { label: 'a', index: 'logs-*', query: {}, size: 1 },
+        ],
+      }),
+    ).rejects.toThrow('Duplicate search label "a".');
+    expect(mockMultiSearch).not.toHaveBeenCalled();
+  });
+});
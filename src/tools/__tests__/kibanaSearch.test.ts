@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockOpen, mockSearchPit, mockClose } = vi.hoisted(() => ({
+  mockOpen: vi.fn(),
+  mockSearchPit: vi.fn(),
+  mockClose: vi.fn(),
+}));
+
+vi.mock('../../lib/toolWrapper', () => {
+  return {
+    config: {
+      allowedIndexPatterns: [],
+      piiRedactionEnabled: false,
+      auditEnabled: false,
+    },
+    esClient: {
+      openPointInTime: mockOpen,
+      searchPointInTime: mockSearchPit,
+      closePointInTime: mockClose,
+    },
+    auditLogger: { log: vi.fn() },
+    createSecureTool: (opts: any) => {
+      return {
+        id: opts.id,
+        description: opts.description,
+        execute: async (input: any) => {
+          const config = {
+            allowedIndexPatterns: [] as string[],
+            maxSearchSize: 100,
+          };
+          const esClient = {
+            openPointInTime: mockOpen,
+            searchPointInTime: mockSearchPit,
+            closePointInTime: mockClose,
+          };
+          return opts.execute(
+            { query_language: 'dsl', size: 2, paginate: true, ...input },
+            { config, esClient },
+          );
+        },
+      };
+    },
+  };
+});
+
+// Import after mocking
+import { kibanaSearchTool } from '../kibanaSearch';
+import { decodeCursor, encodeCursor } from '../../lib/searchCursor';
+
+const QUERY = { query: { term: { status: 'failed' } } };
+
+function page(ids: string[], pitId = 'pit-1') {
+  return {
+    pit_id: pitId,
+    hits: {
+      total: { value: 3 },
+      hits: ids.map((id, i) => ({
+        _id: id,
+        _source: { id },
+        sort: [1.0, i],
+      })),
+    },
+  };
+}
+
+describe('kibana_search pagination', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockOpen.mockResolvedValue('pit-1');
+    mockClose.mockResolvedValue(undefined);
+  });
+
+  it('returns a cursor while pages are full and closes the PIT when exhausted', async () => {
+    mockSearchPit.mockResolvedValueOnce(page(['a', 'b'], 'pit-2'));
+
+    const first = await kibanaSearchTool.execute!(
+      { index: 'payments-*', query: QUERY } as any,
+      {} as any,
+    );
+
+    expect(mockOpen).toHaveBeenCalledWith('payments-*', {
+      sort: ['_score', { _shard_doc: 'asc' }],
+      ...QUERY,
+    });
+    expect(first.data).toEqual([{ id: 'a' }, { id: 'b' }]);
+    expect(decodeCursor(first.next_cursor!)).toMatchObject({
+      pit_id: 'pit-2',
+      index: 'payments-*',
+      search_after: [1.0, 1],
+    });
+    expect(mockClose).not.toHaveBeenCalled();
+
+    mockSearchPit.mockResolvedValueOnce(page(['c'], 'pit-2'));
+    const last = await kibanaSearchTool.execute!(
+      { cursor: first.next_cursor } as any,
+      {} as any,
+    );
+
+    expect(mockSearchPit.mock.calls[1][0]).toBe('pit-2');
+    expect(mockSearchPit.mock.calls[1][2].search_after).toEqual([1.0, 1]);
+    expect(last.next_cursor).toBeUndefined();
+    expect(mockClose).toHaveBeenCalledWith('pit-2');
+  });
+
+  it('closes the PIT when the first page fails', async () => {
+    mockSearchPit.mockRejectedValue(
+      new Error('search_phase_execution_exception'),
+    );
+
+    await expect(
+      kibanaSearchTool.execute!(
+        { index: 'payments-*', query: QUERY } as any,
+        {} as any,
+      ),
+    ).rejects.toThrow('search_phase_execution_exception');
+    expect(mockClose).toHaveBeenCalledWith('pit-1');
+  });
+
+  it('opens no PIT when the query is rejected', async () => {
+    mockOpen.mockRejectedValue(new Error('Query rejected by cost guard'));
+
+    await expect(
+      kibanaSearchTool.execute!(
+        { index: 'payments-*', query: QUERY } as any,
+        {} as any,
+      ),
+    ).rejects.toThrow('Query rejected by cost guard');
+    expect(mockSearchPit).not.toHaveBeenCalled();
+    expect(mockClose).not.toHaveBeenCalled();
+  });
+
+  it('passes the cursor index to the client to check', async () => {
+    mockSearchPit.mockRejectedValue(
+      new Error('Point-in-time is unknown or has expired.'),
+    );
+    const cursor = encodeCursor({
+      pit_id: 'pit-1',
+      index: 'audit-*',
+      body: QUERY,
+      size: 2,
+      search_after: [1.0, 1],
+    });
+
+    await expect(
+      kibanaSearchTool.execute!({ cursor } as any, {} as any),
+    ).rejects.toThrow(/unknown or has expired/);
+    expect(mockSearchPit.mock.calls[0].slice(0, 2)).toEqual([
+      'pit-1',
+      'audit-*',
+    ]);
+    // A failed later page keeps the PIT, so the cursor can be retried
+    expect(mockClose).not.toHaveBeenCalled();
+  });
+});
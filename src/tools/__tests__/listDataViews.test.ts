@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockKibanaGet, allowedPatterns } = vi.hoisted(() => ({
+  mockKibanaGet: vi.fn(),
+  allowedPatterns: { value: [] as string[] },
+}));
+
+vi.mock('../../lib/toolWrapper', () => {
+  const isAllowed = (name: string) =>
+    allowedPatterns.value.length === 0 || allowedPatterns.value.includes(name);
+  return {
+    config: {
+      allowedIndexPatterns: [],
+      piiRedactionEnabled: false,
+      auditEnabled: false,
+    },
+    esClient: {
+      kibanaGet: mockKibanaGet,
+      isAllowed,
+    },
+    auditLogger: { log: vi.fn() },
+    createSecureTool: (opts: any) => {
+      return {
+        id: opts.id,
+        description: opts.description,
+        execute: async (input: any) => {
+          const config = { allowedIndexPatterns: allowedPatterns.value };
+          const esClient = { kibanaGet: mockKibanaGet, isAllowed };
+          return opts.execute({ max_views: 20, ...input }, { config, esClient });
+        },
+      };
+    },
+  };
+});
+
+// Import after mocking
+import { listDataViewsTool } from '../listDataViews';
+
+const views: Record<string, any> = {
+  payments: {
+    id: 'payments',
+    title: 'transactions-*',
+    name: 'Payments',
+    timeFieldName: 'settlement_date',
+    runtimeFieldMap: {
+      amount_eur: {
+        type: 'double',
+        script: { source: "emit(doc['amount_minor'].value / 100.0)" },
+      },
+    },
+    fieldAttrs: {
+      amount_minor: { customLabel: 'Amount (minor units)', count: 3 },
+      status: { count: 10 },
+    },
+    fieldFormats: {
+      amount_eur: { id: 'currency', params: { currency: 'EUR' } },
+      bytes_sent: { id: 'bytes' },
+    },
+  },
+  hr: { id: 'hr', title: 'hr-salaries', timeFieldName: '' },
+};
+
+describe('list_data_views tool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    allowedPatterns.value = [];
+    mockKibanaGet.mockImplementation((path: string) => {
+      if (path === '/api/data_views') {
+        return Promise.resolve({
+          data_view: [
+            { id: 'payments', title: 'transactions-*', name: 'Payments' },
+            { id: 'hr', title: 'hr-salaries' },
+          ],
+        });
+      }
+      const id = path.split('/').pop()!;
+      return Promise.resolve({ data_view: views[id] });
+    });
+  });
+
+  it('returns pattern, time field, runtime fields, labels and formats', async () => {
+    const result = await (listDataViewsTool as any).execute({});
+
+    expect(result.type).toBe('success');
+    expect(result.data.total).toBe(2);
+    expect(result.data.data_views[0]).toEqual({
+      id: 'payments',
+      name: 'Payments',
+      pattern: 'transactions-*',
+      time_field: 'settlement_date',
+      runtime_fields: [
+        {
+          name: 'amount_eur',
+          type: 'double',
+          script: "emit(doc['amount_minor'].value / 100.0)",
+        },
+      ],
+      field_labels: { amount_minor: 'Amount (minor units)' },
+      field_formats: {
+        amount_eur: { id: 'currency', params: { currency: 'EUR' } },
+        bytes_sent: { id: 'bytes' },
+      },
+    });
+    expect(result.data.data_views[1]).toMatchObject({
+      name: 'hr-salaries',
+      time_field: undefined,
+      runtime_fields: [],
+    });
+  });
+
+  it('filters by name or pattern', async () => {
+    const result = await (listDataViewsTool as any).execute({ search: 'PAYM' });
+
+    expect(result.data.data_views.map((v: any) => v.id)).toEqual(['payments']);
+    expect(mockKibanaGet).not.toHaveBeenCalledWith('/api/data_views/data_view/hr');
+  });
+
+  it('hides data views outside the allowed index patterns', async () => {
+    allowedPatterns.value = ['transactions-*'];
+
+    const result = await (listDataViewsTool as any).execute({});
+
+    expect(result.data.total).toBe(1);
+    expect(result.data.data_views.map((v: any) => v.id)).toEqual(['payments']);
+  });
+
+  it('returns a graceful error when the data views API is unavailable', async () => {
+    mockKibanaGet.mockRejectedValue({ response: { status: 404 } });
+
+    const result = await (listDataViewsTool as any).execute({});
+
+    expect(result.type).toBe('error');
+    expect(result.error).toContain('Kibana data views are not available');
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockGetMapping, mockSearch } = vi.hoisted(() => ({
+  mockGetMapping: vi.fn(),
+  mockSearch: vi.fn(),
+}));
+
+vi.mock('../../lib/toolWrapper', () => {
+  return {
+    config: {
+      allowedIndexPatterns: [],
+      piiRedactionEnabled: false,
+      auditEnabled: false,
+    },
+    esClient: {
+      getMapping: mockGetMapping,
+      search: mockSearch,
+    },
+    auditLogger: { log: vi.fn() },
+    createSecureTool: (opts: any) => {
+      return {
+        id: opts.id,
+        description: opts.description,
+        execute: async (input: any) => {
+          const config = { allowedIndexPatterns: [] as string[] };
+          const esClient = { getMapping: mockGetMapping, search: mockSearch };
+          return opts.execute({ top_n: 10, ...input }, { config, esClient });
+        },
+      };
+    },
+  };
+});
+
+// Import after mocking
+import { profileFieldTool } from '../profileField';
+
+const mappings = {
+  'transactions-2025.07': {
+    mappings: {
+      properties: {
+        status: { type: 'text', fields: { keyword: { type: 'keyword' } } },
+        amount: { type: 'double' },
+        created_at: { type: 'date' },
+        notes: { type: 'text' },
+      },
+    },
+  },
+};
+
+describe('profile_field tool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetMapping.mockResolvedValue(mappings);
+  });
+
+  it('profiles a text field through its .keyword sub-field', async () => {
+    mockSearch.mockResolvedValue({
+      hits: { total: { value: 1000 }, hits: [] },
+      aggregations: {
+        top_terms: {
+          buckets: [
+            { key: 'SETTLED', doc_count: 900 },
+            { key: 'FAILED', doc_count: 80 },
+          ],
+        },
+        cardinality: { value: 2 },
+        missing: { doc_count: 20 },
+        examples: {
+          hits: {
+            hits: {
+              hits: [{ _source: { status: 'SETTLED' } }, { _source: { status: 'FAILED' } }],
+            },
+          },
+        },
+      },
+    });
+
+    const result = await (profileFieldTool as any).execute({
+      index: 'transactions-*',
+      field: 'status',
+    });
+
+    expect(result.data).toEqual({
+      field: 'status',
+      profiled_field: 'status.keyword',
+      type: 'keyword',
+      total_docs: 1000,
+      missing_count: 20,
+      missing_ratio: 0.02,
+      cardinality: 2,
+      top_terms: [
+        { value: 'SETTLED', count: 900 },
+        { value: 'FAILED', count: 80 },
+      ],
+      examples: ['SETTLED', 'FAILED'],
+    });
+
+    const [index, body, size] = mockSearch.mock.calls[0];
+    expect(index).toBe('transactions-*');
+    expect(size).toBe(0);
+    expect(body.aggs.top_terms).toEqual({ terms: { field: 'status.keyword', size: 10 } });
+    expect(body.aggs.stats).toBeUndefined();
+  });
+
+  it('adds stats and percentiles for numeric fields', async () => {
+    mockSearch.mockResolvedValue({
+      hits: { total: { value: 10 }, hits: [] },
+      aggregations: {
+        top_terms: { buckets: [] },
+        cardinality: { value: 10 },
+        missing: { doc_count: 0 },
+        examples: { hits: { hits: { hits: [] } } },
+        stats: { count: 10, min: 1, max: 5000, avg: 250 },
+        percentiles: {
+          values: [
+            { key: 50.0, value: 120 },
+            { key: 99.0, value: 4800 },
+          ],
+        },
+      },
+    });
+
+    const result = await (profileFieldTool as any).execute({
+      index: 'transactions-*',
+      field: 'amount',
+    });
+
+    expect(result.data.stats).toEqual({ min: 1, max: 5000, avg: 250 });
+    expect(result.data.percentiles).toEqual({ p50: 120, p99: 4800 });
+  });
+
+  it('reports dates as strings', async () => {
+    mockSearch.mockResolvedValue({
+      hits: { total: { value: 10 }, hits: [] },
+      aggregations: {
+        top_terms: { buckets: [{ key: 1751328000000, key_as_string: '2025-07-01T00:00:00.000Z', doc_count: 4 }] },
+        cardinality: { value: 3 },
+        missing: { doc_count: 0 },
+        examples: { hits: { hits: { hits: [] } } },
+        stats: {
+          count: 10,
+          min: 1751328000000,
+          max: 1751500800000,
+          min_as_string: '2025-07-01T00:00:00.000Z',
+          max_as_string: '2025-07-03T00:00:00.000Z',
+        },
+        percentiles: {
+          values: [{ key: 50.0, value: 1751414400000, value_as_string: '2025-07-02T00:00:00.000Z' }],
+        },
+      },
+    });
+
+    const result = await (profileFieldTool as any).execute({
+      index: 'transactions-*',
+      field: 'created_at',
+    });
+
+    expect(result.data.top_terms).toEqual([{ value: '2025-07-01T00:00:00.000Z', count: 4 }]);
+    expect(result.data.stats).toEqual({
+      min: '2025-07-01T00:00:00.000Z',
+      max: '2025-07-03T00:00:00.000Z',
+    });
+    expect(result.data.percentiles).toEqual({ p50: '2025-07-02T00:00:00.000Z' });
+  });
+
+  it('applies the time range on the given time field', async () => {
+    mockSearch.mockResolvedValue({ hits: { total: { value: 0 }, hits: [] }, aggregations: {} });
+
+    await (profileFieldTool as any).execute({
+      index: 'transactions-*',
+      field: 'amount',
+      time_range: 'now-7d',
+      time_field: 'created_at',
+    });
+
+    const [, body] = mockSearch.mock.calls[0];
+    expect(body.query).toEqual({
+      bool: { filter: [{ range: { created_at: { gte: 'now-7d', lte: 'now' } } }] },
+    });
+  });
+
+  it('rejects fields that are not mapped', async () => {
+    await expect(
+      (profileFieldTool as any).execute({ index: 'transactions-*', field: 'stauts' }),
+    ).rejects.toThrow('Field "stauts" is not mapped in "transactions-*"');
+    expect(mockSearch).not.toHaveBeenCalled();
+  });
+
+  it('rejects text fields without an aggregatable sub-field', async () => {
+    await expect(
+      (profileFieldTool as any).execute({ index: 'transactions-*', field: 'notes' }),
+    ).rejects.toThrow("can't be aggregated and has no aggregatable sub-field");
+    expect(mockSearch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockKibanaGet, mockSearch } = vi.hoisted(() => ({
+  mockKibanaGet: vi.fn(),
+  mockSearch: vi.fn(),
+}));
+
+vi.mock('../../lib/toolWrapper', () => {
+  return {
+    config: {
+      allowedIndexPatterns: [],
+      piiRedactionEnabled: false,
+      auditEnabled: false,
+    },
+    esClient: {
+      kibanaGet: mockKibanaGet,
+      search: mockSearch,
+    },
+    auditLogger: { log: vi.fn() },
+    createSecureTool: (opts: any) => {
+      return {
+        id: opts.id,
+        description: opts.description,
+        execute: async (input: any) => {
+          const config = { allowedIndexPatterns: [] as string[] };
+          const esClient = { kibanaGet: mockKibanaGet, search: mockSearch };
+          return opts.execute({ size: 10, ...input }, { config, esClient });
+        },
+      };
+    },
+  };
+});
+
+// Import after mocking
+import { runSavedSearchTool } from '../runSavedSearch';
+
+const savedSearch = {
+  id: 'failed-sepa',
+  type: 'search',
+  attributes: {
+    title: 'Failed SEPA instant payments',
+    columns: ['status', 'amount'],
+    sort: [['settled_at', 'desc']],
+    timeRestore: true,
+    timeRange: { from: 'now-24h', to: 'now' },
+    kibanaSavedObjectMeta: {
+      searchSourceJSON: JSON.stringify({
+        query: { query: 'status:failed', language: 'kuery' },
+        filter: [
+          {
+            meta: { type: 'phrase', key: 'channel', negate: true },
+            query: { match_phrase: { channel: 'batch' } },
+          },
+        ],
+        indexRefName: 'kibanaSavedObjectMeta.searchSourceJSON.index',
+      }),
+    },
+  },
+  references: [
+    {
+      name: 'kibanaSavedObjectMeta.searchSourceJSON.index',
+      type: 'index-pattern',
+      id: 'payments-view',
+    },
+  ],
+};
+
+describe('run_saved_search tool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockKibanaGet.mockImplementation((path: string) =>
+      Promise.resolve(
+        path.startsWith('/api/saved_objects/')
+          ? savedSearch
+          : {
+              data_view: {
+                id: 'payments-view',
+                title: 'payments-*',
+                timeFieldName: 'settled_at',
+              },
+            },
+      ),
+    );
+    mockSearch.mockResolvedValue({
+      hits: {
+        total: { value: 1 },
+        hits: [
+          {
+            fields: {
+              settled_at: ['2025-10-01T09:00:00Z'],
+              status: ['failed'],
+              amount: [120],
+            },
+          },
+        ],
+      },
+    });
+  });
+
+  it('runs the saved query, filters, sort and columns over the saved time range', async () => {
+    const result = await (runSavedSearchTool as any).execute({
+      id: 'failed-sepa',
+    });
+
+    expect(mockKibanaGet).toHaveBeenCalledWith(
+      '/api/saved_objects/search/failed-sepa',
+    );
+    expect(mockKibanaGet).toHaveBeenCalledWith(
+      '/api/data_views/data_view/payments-view',
+    );
+    expect(mockSearch).toHaveBeenCalledWith(
+      'payments-*',
+      {
+        query: {
+          bool: {
+            must: [{ match: { status: 'failed' } }],
+            must_not: [{ match_phrase: { channel: 'batch' } }],
+            filter: [{ range: { settled_at: { gte: 'now-24h', lte: 'now' } } }],
+          },
+        },
+        sort: [{ settled_at: { order: 'desc' } }],
+        _source: false,
+        fields: ['settled_at', 'status', 'amount'],
+      },
+      10,
+    );
+    expect(result.type).toBe('success');
+    expect(result.total).toBe(1);
+    expect(result.data).toMatchObject({
+      title: 'Failed SEPA instant payments',
+      index: 'payments-*',
+      columns: ['settled_at', 'status', 'amount'],
+      hits: [
+        {
+          fields: {
+            settled_at: ['2025-10-01T09:00:00Z'],
+            status: ['failed'],
+            amount: [120],
+          },
+        },
+      ],
+    });
+  });
+
+  it('lets time_range override the saved time range', async () => {
+    await (runSavedSearchTool as any).execute({
+      id: 'failed-sepa',
+      time_range: { from: '2025-09-01', to: '2025-09-30' },
+    });
+
+    const body = mockSearch.mock.calls[0][1];
+    expect(body.query.bool.filter).toEqual([
+      { range: { settled_at: { gte: '2025-09-01', lte: '2025-09-30' } } },
+    ]);
+  });
+
+  it('returns a graceful error for an unknown saved search', async () => {
+    mockKibanaGet.mockRejectedValue({ response: { status: 404 } });
+
+    const result = await (runSavedSearchTool as any).execute({ id: 'nope' });
+
+    expect(result).toEqual({
+      type: 'error',
+      error:
+        'Saved search "nope" was not found in the configured Kibana space.',
+    });
+    expect(mockSearch).not.toHaveBeenCalled();
+  });
+});
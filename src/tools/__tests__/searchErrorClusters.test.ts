@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockSearch } = vi.hoisted(() => ({
+  mockSearch: vi.fn(),
+}));
+
+vi.mock('../../lib/toolWrapper', () => {
+  return {
+    config: {
+      allowedIndexPatterns: [],
+      piiRedactionEnabled: false,
+      auditEnabled: false,
+    },
+    esClient: {
+      search: mockSearch,
+    },
+    auditLogger: { log: vi.fn() },
+    createSecureTool: (opts: any) => {
+      return {
+        id: opts.id,
+        description: opts.description,
+        execute: async (input: any) => {
+          const config = {
+            allowedIndexPatterns: [] as string[],
+            maxSearchSize: 500,
+          };
+          const esClient = { search: mockSearch };
+          return opts.execute(
+            {
+              time_range: 'now-24h',
+              time_field: '@timestamp',
+              message_field: 'message',
+              service_field: 'service.name',
+              max_clusters: 10,
+              ...input,
+            },
+            { config, esClient },
+          );
+        },
+      };
+    },
+  };
+});
+
+// Import after mocking
+import { searchErrorClustersTool } from '../searchErrorClusters';
+
+/** An HTTP 400 from Elasticsearch whose root cause has `reason`. */
+function esError(reason: string) {
+  return {
+    response: {
+      status: 400,
+      data: {
+        error: {
+          type: 'search_phase_execution_exception',
+          root_cause: [{ type: 'illegal_argument_exception', reason }],
+        },
+      },
+    },
+  };
+}
+
+describe('search_error_clusters tool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('clusters with categorize_text and reports span, services and an example', async () => {
+    mockSearch.mockResolvedValue({
+      hits: { total: { value: 1840 }, hits: [] },
+      aggregations: {
+        clusters: {
+          buckets: [
+            {
+              key: 'Timeout calling ledger after ms',
+              doc_count: 1500,
+              first_seen: { value_as_string: '2025-10-01T08:00:00.000Z' },
+              last_seen: { value_as_string: '2025-10-01T11:59:00.000Z' },
+              services: {
+                buckets: [{ key: 'payments', doc_count: 1500 }],
+              },
+              example: {
+                hits: {
+                  hits: [
+                    {
+                      _source: {
+                        message: 'Timeout calling ledger after 3000 ms',
+                      },
+                    },
+                  ],
+                },
+              },
+            },
+          ],
+        },
+      },
+    });
+
+    const result = await (searchErrorClustersTool as any).execute({
+      index: 'logs-*',
+      query: 'log.level:error',
+    });
+
+    const [index, body, size] = mockSearch.mock.calls[0];
+    expect(index).toBe('logs-*');
+    expect(size).toBe(0);
+    expect(body.aggs.clusters.categorize_text).toEqual({
+      field: 'message',
+      size: 10,
+    });
+    expect(body.query.bool.must).toEqual([{ match: { 'log.level': 'error' } }]);
+    expect(body.query.bool.filter).toEqual([
+      { range: { '@timestamp': { gte: 'now-24h', lte: 'now' } } },
+    ]);
+    expect(result.data).toEqual({
+      method: 'categorize_text',
+      total_messages: 1840,
+      clusters: [
+        {
+          template: 'Timeout calling ledger after ms',
+          count: 1500,
+          first_seen: '2025-10-01T08:00:00.000Z',
+          last_seen: '2025-10-01T11:59:00.000Z',
+          services: [{ service: 'payments', count: 1500 }],
+          example: 'Timeout calling ledger after 3000 ms',
+        },
+      ],
+    });
+  });
+
+  it('falls back to mining a sample when categorize_text is rejected', async () => {
+    mockSearch
+      .mockRejectedValueOnce(
+        esError(
+          'categorize_text agg [clusters] only works on analyzable text fields. Cannot aggregate field type [keyword] via [KeywordFieldType]',
+        ),
+      )
+      .mockResolvedValueOnce({
+        hits: {
+          total: { value: 3 },
+          hits: [
+            {
+              _source: {
+                message: 'Card 7f3a9c21 declined: limit exceeded',
+                '@timestamp': '2025-10-01T10:00:00Z',
+                service: { name: 'cards' },
+              },
+            },
+            {
+              _source: {
+                message: 'Card 19bd0e44 declined: limit exceeded',
+                '@timestamp': '2025-10-01T09:00:00Z',
+                service: { name: 'cards' },
+              },
+            },
+            { _source: { message: 'Ledger unavailable' } },
+          ],
+        },
+      });
+
+    const result = await (searchErrorClustersTool as any).execute({
+      index: 'logs-*',
+    });
+
+    const [, sampleBody, sampleSize] = mockSearch.mock.calls[1];
+    expect(sampleSize).toBe(500);
+    expect(sampleBody.sort).toEqual([{ '@timestamp': 'desc' }]);
+    expect(result.data.method).toBe('sample');
+    expect(result.data.sampled).toBe(3);
+    expect(result.data.clusters[0]).toMatchObject({
+      template: 'Card <ID> declined: limit exceeded',
+      count: 2,
+      first_seen: '2025-10-01T09:00:00Z',
+      services: [{ service: 'cards', count: 2 }],
+    });
+    expect(result.warnings[0]).toContain(
+      'clustered the 3 most recent messages',
+    );
+  });
+
+  it('rethrows errors other than a rejected aggregation', async () => {
+    mockSearch.mockRejectedValue(new Error('Index "logs-*" is not allowed'));
+
+    await expect(
+      (searchErrorClustersTool as any).execute({ index: 'logs-*' }),
+    ).rejects.toThrow('is not allowed');
+    expect(mockSearch).toHaveBeenCalledTimes(1);
+  });
+
+  it('rethrows bad requests not caused by categorize_text', async () => {
+    mockSearch.mockRejectedValue(
+      esError('field [@timestamp] of type [keyword] does not support range'),
+    );
+
+    await expect(
+      (searchErrorClustersTool as any).execute({ index: 'logs-*' }),
+    ).rejects.toMatchObject({ response: { status: 400 } });
+    expect(mockSearch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,244 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockCatIndices, mockGetMapping, mockMultiSearch, mockDataViews } =
+  vi.hoisted(() => ({
+    mockCatIndices: vi.fn(),
+    mockGetMapping: vi.fn(),
+    mockMultiSearch: vi.fn(),
+    mockDataViews: vi.fn(),
+  }));
+
+vi.mock('../../lib/toolWrapper', () => {
+  return {
+    config: {
+      allowedIndexPatterns: [],
+      piiRedactionEnabled: false,
+      auditEnabled: false,
+    },
+    esClient: {
+      catIndices: mockCatIndices,
+      getMapping: mockGetMapping,
+      multiSearch: mockMultiSearch,
+      getDataViewTimeFields: mockDataViews,
+    },
+    auditLogger: { log: vi.fn() },
+    createSecureTool: (opts: any) => {
+      return {
+        id: opts.id,
+        description: opts.description,
+        execute: async (input: any) => {
+          const config = {
+            allowedIndexPatterns: ['gateway-*', 'payments', 'audit'],
+            maxSearchSize: 500,
+          };
+          const esClient = {
+            catIndices: mockCatIndices,
+            getMapping: mockGetMapping,
+            multiSearch: mockMultiSearch,
+            getDataViewTimeFields: mockDataViews,
+            isAllowed: (name: string) =>
+              config.allowedIndexPatterns.some((p) =>
+                p.endsWith('*') ? name.startsWith(p.slice(0, -1)) : p === name,
+              ),
+          };
+          return opts.execute(
+            {
+              index: '*',
+              gap_threshold_seconds: 300,
+              max_events: 50,
+              include_source: false,
+              ...input,
+            },
+            { config, esClient },
+          );
+        },
+      };
+    },
+  };
+});
+
+// Import after mocking
+import { traceTransactionJourneyTool } from '../traceTransactionJourney';
+
+const UETR = 'eb6305c9-1f7a-4c2e-a1d8-0c9b2f6a1e55';
+
+const MAPPINGS: Record<string, any> = {
+  'gateway-*': {
+    'gateway-2025.10.01': {
+      mappings: {
+        properties: {
+          '@timestamp': { type: 'date' },
+          uetr: { type: 'keyword' },
+          service: { properties: { name: { type: 'keyword' } } },
+        },
+      },
+    },
+  },
+  payments: {
+    payments: {
+      mappings: {
+        properties: {
+          '@timestamp': { type: 'date' },
+          payment: { properties: { uetr: { type: 'keyword' } } },
+          status: { type: 'keyword' },
+        },
+      },
+    },
+  },
+  audit: {
+    audit: {
+      mappings: {
+        properties: {
+          '@timestamp': { type: 'date' },
+          note: { type: 'text' },
+        },
+      },
+    },
+  },
+};
+
+describe('trace_transaction_journey tool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDataViews.mockRejectedValue(new Error('Kibana unavailable'));
+    mockCatIndices.mockResolvedValue([
+      { index: 'gateway-2025.10.01' },
+      { index: 'gateway-2025.10.02' },
+      { index: 'payments' },
+      { index: 'audit' },
+      { index: 'hr-salaries' },
+      { index: '.kibana_1' },
+    ]);
+    mockGetMapping.mockImplementation(async (index: string) => MAPPINGS[index]);
+  });
+
+  it('searches only allowed indices that map a correlation field', async () => {
+    mockMultiSearch.mockResolvedValue([
+      { hits: { hits: [] } },
+      { hits: { hits: [] } },
+    ]);
+
+    await traceTransactionJourneyTool.execute!({ id: UETR } as any, {} as any);
+
+    expect(mockGetMapping.mock.calls.map(([index]) => index)).toEqual(
+      expect.arrayContaining(['audit', 'gateway-*', 'payments']),
+    );
+    expect(mockGetMapping).not.toHaveBeenCalledWith('hr-salaries');
+    const searches = mockMultiSearch.mock.calls[0][0];
+    expect(searches.map((s: any) => s.index)).toEqual([
+      'gateway-*',
+      'payments',
+    ]);
+    expect(searches[1].body.query.bool.should).toEqual([
+      { term: { 'payment.uetr': UETR } },
+    ]);
+    expect(searches[1].body.sort).toEqual([{ '@timestamp': 'asc' }]);
+    expect(searches[1].body.query.bool.filter).toEqual([
+      { range: { '@timestamp': { gte: 'now-7d', lte: 'now' } } },
+    ]);
+  });
+
+  it('keeps family patterns from covering data streams searched by name', async () => {
+    mockCatIndices.mockResolvedValue([
+      { index: 'gateway-2025.10.01' },
+      { index: 'gateway-2025.10.02' },
+      { index: '.ds-gateway-live-2025.10.02-000001' },
+      { index: 'payments' },
+    ]);
+    mockMultiSearch.mockResolvedValue([{ hits: { hits: [] } }]);
+
+    await traceTransactionJourneyTool.execute!({ id: UETR } as any, {} as any);
+
+    expect(mockGetMapping).toHaveBeenCalledWith('gateway-2025.10.0*');
+    expect(mockGetMapping).toHaveBeenCalledWith('gateway-live');
+    expect(mockGetMapping).not.toHaveBeenCalledWith('gateway-*');
+  });
+
+  it('merges hits into hops, gaps and silent indices', async () => {
+    mockMultiSearch.mockResolvedValue([
+      {
+        hits: {
+          hits: [
+            {
+              _index: 'gateway-2025.10.01',
+              _id: 'g1',
+              _source: {
+                '@timestamp': '2025-10-01T10:00:00Z',
+                uetr: UETR,
+                service: { name: 'swift-gateway' },
+              },
+            },
+          ],
+        },
+      },
+      {
+        hits: {
+          hits: [
+            {
+              _index: 'payments',
+              _id: 'p1',
+              _source: {
+                '@timestamp': '2025-10-01T10:30:00Z',
+                payment: { uetr: UETR },
+                status: 'pending',
+              },
+            },
+          ],
+        },
+      },
+    ]);
+
+    const result = await traceTransactionJourneyTool.execute!(
+      { id: UETR } as any,
+      {} as any,
+    );
+
+    expect(result.type).toBe('success');
+    expect(result.total).toBe(2);
+    expect(result.data.hops).toEqual([
+      expect.objectContaining({
+        service: 'swift-gateway',
+        latency_ms: undefined,
+      }),
+      expect.objectContaining({
+        service: 'payments',
+        status: 'pending',
+        latency_ms: 1_800_000,
+      }),
+    ]);
+    expect(result.data.events[1].matched_field).toBe('payment.uetr');
+    expect(result.data.gaps).toHaveLength(1);
+    expect(result.data.silent_indices).toEqual([]);
+  });
+
+  it('reports rejected searches as unsearched and empty targets as silent', async () => {
+    mockMultiSearch.mockResolvedValue([
+      { hits: { hits: [] } },
+      { error: { reason: 'Query rejected by cost guard' } },
+    ]);
+
+    const result = await traceTransactionJourneyTool.execute!(
+      { id: UETR } as any,
+      {} as any,
+    );
+
+    expect(result.data.searched.map((s: any) => s.index)).toEqual([
+      'gateway-*',
+    ]);
+    expect(result.data.silent_indices).toEqual(['gateway-*']);
+    expect(result.data.unsearched).toEqual([
+      { index: 'payments', reason: 'Query rejected by cost guard' },
+    ]);
+    expect(result.warnings).toBeUndefined();
+  });
+
+  it('throws when no index maps a correlation field', async () => {
+    await expect(
+      traceTransactionJourneyTool.execute!(
+        { id: UETR, correlation_fields: ['order_ref'] } as any,
+        {} as any,
+      ),
+    ).rejects.toThrow(/maps any of the correlation fields: order_ref/);
+    expect(mockMultiSearch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * **apm_service_overview** — Service health from Elastic APM data.
+ *
+ * Answers "how is the payments service doing?" the way the Kibana APM app
+ * does: throughput, error rate, p50/p95/p99 latency, the slowest
+ * transaction names and the most frequent error groups, read from the
+ * standard `traces-apm*` and `logs-apm.error*` data streams. Optionally
+ * compares the window with the previous window of equal length ("p95 up
+ * 240% since the last hour").
+ *
+ * Both indices are queried in one `_msearch` round trip; a `filters`
+ * aggregation splits each into the current and previous window (see
+ * {@link summarizeWindow}).
+ *
+ * **For Architects:** A performance investigation starts from numbers the
+ * APM app would show, instead of hand-written percentile aggregations.
+ *
+ * @module
+ */
+import { z } from 'zod';
+import { createSecureTool } from '../lib/toolWrapper';
+import {
+  validateReadOnlyQuery,
+  validateIndexName,
+} from '../lib/inputSanitizer';
+import {
+  applyTimeRange,
+  previousWindow,
+  timeRangeFilter,
+  timeRangeSchema,
+  TimeRange,
+  windowDurationMs,
+} from '../lib/timeRange';
+import {
+  compareApmWindows,
+  errorAggs,
+  summarizeWindow,
+  transactionAggs,
+  ApmChange,
+  ApmWindow,
+} from '../lib/apmMetrics';
+import { ToolResult } from '../lib/types';
+
+/** Top-level response shape for an APM service overview. */
+export interface ApmServiceOverview {
+  /** The selected service, or `undefined` for all services. */
+  service: string | undefined;
+  environment: string | undefined;
+  current: ApmWindow;
+  /** The previous window of equal length (`compare_previous` only). */
+  previous?: ApmWindow;
+  change?: ApmChange;
+}
+
+export const apmServiceOverviewTool = createSecureTool({
+  id: 'apm_service_overview',
+  description:
+    'Service health from Elastic APM data: throughput, error rate, p50/p95/p99 latency, slowest transaction names and top error groups for one service (or all services, with a per-service breakdown) in a time window. ' +
+    'Set compare_previous to compare against the previous window of equal length. Reads the standard traces-apm* and logs-apm.error* indices.',
+  mcp: {
+    annotations: {
+      title: 'APM Service Overview',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  inputSchema: z.object({
+    service: z
+      .string()
+      .optional()
+      .describe(
+        'APM service name (service.name), e.g. "payment-gateway". Omit for all services.',
+      ),
+    environment: z
+      .string()
+      .optional()
+      .describe('APM environment (service.environment), e.g. "production".'),
+    time_range: timeRangeSchema.optional().default('now-1h'),
+    compare_previous: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe(
+        'Also summarize the previous window of equal length and report the changes.',
+      ),
+    top_n: z
+      .number()
+      .min(1)
+      .max(20)
+      .optional()
+      .default(5)
+      .describe('Slow transactions and error groups to list (1-20).'),
+    transaction_index: z
+      .string()
+      .optional()
+      .default('traces-apm*')
+      .describe('Index pattern of APM transaction events.'),
+    error_index: z
+      .string()
+      .optional()
+      .default('logs-apm.error*')
+      .describe('Index pattern of APM error events.'),
+  }),
+  execute: async (
+    {
+      service,
+      environment,
+      time_range,
+      compare_previous,
+      top_n,
+      transaction_index,
+      error_index,
+    },
+    { esClient },
+  ): Promise<ToolResult<ApmServiceOverview>> => {
+    const transactionIndex = transaction_index ?? 'traces-apm*';
+    const errorIndex = error_index ?? 'logs-apm.error*';
+    validateIndexName(transactionIndex);
+    validateIndexName(errorIndex);
+
+    const current: TimeRange = time_range ?? 'now-1h';
+    const durationMs = windowDurationMs(current);
+    const previous = compare_previous ? previousWindow(current) : undefined;
+    // One range covering both windows, so the search stays time-bounded
+    const span: TimeRange = previous
+      ? typeof current === 'string'
+        ? { from: previous.from, to: 'now' }
+        : { ...current, from: previous.from }
+      : current;
+    const windows = {
+      filters: {
+        filters: {
+          current: timeRangeFilter(current),
+          ...(previous ? { previous: timeRangeFilter(previous) } : {}),
+        },
+      },
+    };
+
+    const scope = [
+      ...(service ? [{ term: { 'service.name': service } }] : []),
+      ...(environment
+        ? [{ term: { 'service.environment': environment } }]
+        : []),
+    ];
+    const searchBody = (event: string, aggs: Record<string, any>) => {
+      const body = applyTimeRange(
+        {
+          track_total_hits: false,
+          query: {
+            bool: {
+              filter: [{ term: { 'processor.event': event } }, ...scope],
+            },
+          },
+          aggs: { windows: { ...windows, aggs } },
+        },
+        span,
+      );
+      validateReadOnlyQuery(body);
+      return body;
+    };
+
+    const [transactions, errors] = await esClient.multiSearch([
+      {
+        index: transactionIndex,
+        body: searchBody('transaction', transactionAggs(top_n ?? 5, !service)),
+        size: 0,
+      },
+      {
+        index: errorIndex,
+        body: searchBody('error', errorAggs(top_n ?? 5)),
+        size: 0,
+      },
+    ]);
+    if (transactions.error) {
+      throw new Error(
+        `APM transaction search on "${transactionIndex}" failed: ${transactions.error.reason ?? transactions.error.type}`,
+      );
+    }
+    const warnings: string[] = [];
+    if (errors.error) {
+      warnings.push(
+        `APM error search on "${errorIndex}" failed, so error_groups is empty: ${errors.error.reason ?? errors.error.type}`,
+      );
+    }
+
+    const buckets = (response: any) =>
+      response.error ? undefined : response.aggregations?.windows?.buckets;
+    const summarize = (window: 'current' | 'previous') =>
+      summarizeWindow(
+        buckets(transactions)?.[window],
+        buckets(errors)?.[window],
+        durationMs,
+      );
+
+    const overview: ApmServiceOverview = {
+      service,
+      environment,
+      current: summarize('current'),
+    };
+    if (previous) {
+      overview.previous = summarize('previous');
+      overview.change = compareApmWindows(overview.current, overview.previous);
+    }
+    if (overview.current.transactions === 0) {
+      warnings.push(
+        `No APM transactions found in "${transactionIndex}"${service ? ` for service "${service}"` : ''} in this time range. Omit service to list the services with data, or widen time_range.`,
+      );
+    }
+
+    const result: ToolResult<ApmServiceOverview> = {
+      type: 'success',
+      data: overview,
+    };
+    if (warnings.length) result.warnings = warnings;
+    return result;
+  },
+});
@@ -0,0 +1,160 @@
+/**
+ * **async_search** — Long-running searches via the `_async_search` API.
+ *
+ * Aggregations over large time horizons (e.g., 90-day compliance reports)
+ * can exceed the HTTP request timeout. This tool submits them as async
+ * searches that keep running on the cluster while the agent polls for
+ * progress, receiving partial aggregations along the way.
+ *
+ * Three actions share one tool:
+ * - `submit` — start a search; returns an `id` if it is still running
+ * - `poll` — fetch the latest (possibly partial) results for an `id`
+ * - `cancel` — stop a running search and delete its stored result
+ *
+ * Completed results are deleted from the cluster as soon as they have been
+ * returned, and abandoned searches are deleted once their TTL expires.
+ *
+ * @module
+ */
+import { z } from 'zod';
+import { createSecureTool } from '../lib/toolWrapper';
+import { validateReadOnlyQuery, validateIndexName } from '../lib/inputSanitizer';
+import { applyTimeRange, timeRangeSchema } from '../lib/timeRange';
+import { resolveTimeField } from '../lib/timeField';
+import { ElasticsearchClient } from '../lib/esClient';
+import { ToolResult } from '../lib/types';
+
+/** Progress and results of an async search. */
+export interface AsyncSearchStatus {
+  /** Id to poll or cancel; absent once the search has completed. */
+  id: string | undefined;
+  is_running: boolean;
+  /** Whether the results cover only some of the shards so far. */
+  is_partial: boolean;
+  hits: any[];
+  start_time: string | undefined;
+  expiration_time: string | undefined;
+}
+
+/** Confirmation returned by the `cancel` action. */
+export interface AsyncSearchCancellation {
+  id: string;
+  cancelled: true;
+}
+
+function toIsoTime(millis: number | undefined): string | undefined {
+  return millis !== undefined ? new Date(millis).toISOString() : undefined;
+}
+
+/**
+ * Normalizes a raw async search response. Once the search has completed, its
+ * stored result is deleted so it does not linger on the cluster.
+ */
+async function toStatus(
+  raw: any,
+  esClient: ElasticsearchClient,
+): Promise<ToolResult<AsyncSearchStatus>> {
+  if (!raw.is_running && raw.id) {
+    // Already returned to the agent; a failed delete only means it expired
+    await esClient.deleteAsyncSearch(raw.id).catch(() => undefined);
+  }
+
+  const response = raw.response ?? {};
+  const result: ToolResult<AsyncSearchStatus> = {
+    type: 'success',
+    data: {
+      id: raw.is_running ? raw.id : undefined,
+      is_running: raw.is_running,
+      is_partial: raw.is_partial,
+      hits: (response.hits?.hits ?? []).map((hit: any) => hit._source),
+      start_time: toIsoTime(raw.start_time_in_millis),
+      expiration_time: toIsoTime(raw.expiration_time_in_millis),
+    },
+    total: response.hits?.total?.value ?? response.hits?.total,
+  };
+  if (response.aggregations) {
+    result.aggregations = response.aggregations;
+  }
+  if (raw.cost_adjustments) {
+    result.warnings = raw.cost_adjustments;
+  }
+  return result;
+}
+
+export const asyncSearchTool = createSecureTool({
+  id: 'async_search',
+  description:
+    'Run long-running read-only DSL searches (e.g., aggregations over 90 days) without hitting the request timeout. ' +
+    'action "submit" starts the search and returns an id while it is still running; "poll" returns the latest, possibly partial, ' +
+    'aggregations with is_running/is_partial flags; "cancel" stops the search and deletes its result.',
+  mcp: {
+    annotations: {
+      title: 'Async Search',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: false,
+    },
+  },
+  inputSchema: z.object({
+    action: z
+      .enum(['submit', 'poll', 'cancel'])
+      .describe('"submit" a new search, "poll" a running one, or "cancel" it.'),
+    index: z
+      .string()
+      .optional()
+      .describe('The index pattern to search (e.g., "transactions-*"). Required for "submit".'),
+    query: z
+      .record(z.any())
+      .optional()
+      .describe('The Elasticsearch DSL query object, usually with aggs. Required for "submit".'),
+    size: z
+      .number()
+      .optional()
+      .default(0)
+      .describe('Number of hits to return alongside aggregations (max capped by server config). Defaults to 0.'),
+    time_range: timeRangeSchema
+      .optional()
+      .describe('Optional time range filter for "submit", relative (e.g., "now-90d") or absolute ({"from": "2025-07-01", "to": "2025-09-30"}), applied to the index\'s time field.'),
+    time_field: z
+      .string()
+      .optional()
+      .describe('Date field to apply time_range to (e.g., "settlement_date"). Defaults to the data view time field, then @timestamp, then the only date field in the mapping.'),
+    id: z
+      .string()
+      .optional()
+      .describe('Async search id returned by "submit". Required for "poll" and "cancel".'),
+  }),
+  execute: async (
+    { action, index, query, size, time_range, time_field, id },
+    { esClient },
+  ): Promise<ToolResult<AsyncSearchStatus | AsyncSearchCancellation>> => {
+    if (action === 'submit') {
+      if (!index || !query) {
+        throw new Error('index and query are required to submit an async search.');
+      }
+      validateIndexName(index);
+      validateReadOnlyQuery(query);
+
+      let body: Record<string, any> = { ...query };
+      if (time_range) {
+        const timeField = time_field ?? (await resolveTimeField(esClient, index));
+        body = applyTimeRange(body, time_range, timeField);
+      }
+      const raw = await esClient.submitAsyncSearch(index, body, size ?? 0);
+      return toStatus(raw, esClient);
+    }
+
+    if (!id) {
+      throw new Error(`id is required to ${action} an async search.`);
+    }
+
+    if (action === 'cancel') {
+      await esClient.deleteAsyncSearch(id);
+      return { type: 'success', data: { id, cancelled: true } };
+    }
+
+    const raw = await esClient.getAsyncSearch(id);
+    return toStatus(raw, esClient);
+  },
+});
@@ -0,0 +1,92 @@
+/**
+ * **compare_mappings** — Mapping drift and type conflicts across indices.
+ *
+ * When a field changes type between index generations (`amount` from `long`
+ * to `scaled_float` mid-year), aggregations over the whole pattern fail or
+ * silently drop data. This tool compares the mappings of every concrete
+ * index behind a pattern — or of two explicit indices — and reports fields
+ * added or removed between generations, fields whose type differs between
+ * indices, and the index in which each change first appeared.
+ *
+ * **For Business Managers:** "Why did the revenue dashboard break in July?"
+ * is answered with the field that changed and the first index that has it.
+ *
+ * @module
+ */
+import { z } from 'zod';
+import { createSecureTool } from '../lib/toolWrapper';
+import { validateIndexName } from '../lib/inputSanitizer';
+import {
+  compareMappings,
+  sortByGeneration,
+  MappingDrift,
+} from '../lib/mappingDrift';
+import { ToolResult } from '../lib/types';
+
+export const compareMappingsTool = createSecureTool({
+  id: 'compare_mappings',
+  description:
+    'Compare field mappings across the concrete indices of a pattern (e.g., "transactions-*"), or between two explicit indices. ' +
+    'Reports fields added or removed between index generations, fields whose type differs between indices, and the index where each change first appeared. ' +
+    'Use this when aggregations over a pattern fail or return surprising results.',
+  mcp: {
+    annotations: {
+      title: 'Compare Mappings',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  inputSchema: z.object({
+    index: z
+      .string()
+      .optional()
+      .describe(
+        'Index pattern whose concrete indices to compare, oldest generation first (e.g., "transactions-*")',
+      ),
+    indices: z
+      .array(z.string())
+      .length(2)
+      .optional()
+      .describe(
+        'Two explicit indices to compare, older first (e.g., ["transactions-2025.06", "transactions-2025.07"]). Use instead of index.',
+      ),
+  }),
+  execute: async (
+    { index, indices },
+    { esClient },
+  ): Promise<ToolResult<MappingDrift>> => {
+    if (!index === !indices) {
+      throw new Error('Pass either index (a pattern) or indices (two names).');
+    }
+
+    if (index) {
+      validateIndexName(index);
+      const mappings = await esClient.getMapping(index);
+      const names = sortByGeneration(Object.keys(mappings ?? {}));
+      if (names.length < 2) {
+        throw new Error(
+          `"${index}" matches ${names.length === 1 ? 'only one index' : 'no indices'}; compare_mappings needs at least two.`,
+        );
+      }
+      const data = compareMappings(mappings, names);
+      return { type: 'success', data, total: names.length };
+    }
+
+    const pair = indices!;
+    pair.forEach(validateIndexName);
+    const responses = await Promise.all(
+      pair.map((name) => esClient.getMapping(name)),
+    );
+    // An alias resolves to its concrete indices; compare the first of each
+    const mappings = Object.fromEntries(
+      pair.map((name, i) => [
+        name,
+        responses[i]?.[name] ?? Object.values(responses[i] ?? {})[0],
+      ]),
+    );
+    const data = compareMappings(mappings, pair);
+    return { type: 'success', data, total: pair.length };
+  },
+});
@@ -0,0 +1,269 @@
+/**
+ * **compare_time_windows** — What changed between a baseline and a
+ * comparison window.
+ *
+ * Incident triage asks "what's different about failures since 14:00?". This
+ * tool runs the same index and query over a baseline window (by default the
+ * window of equal length just before) and the comparison window in one
+ * search, and reports:
+ *
+ * - the change in volume, as a rate so windows of different length compare;
+ * - per field, the `significant_terms` of the comparison window against the
+ *   baseline as background;
+ * - per field, the values that never occurred in the baseline and the
+ *   values whose share changed most;
+ * - the fields ranked by how much their distribution shifted (see
+ *   {@link fieldShift}).
+ *
+ * **For Developers:** One call replaces a dozen ad-hoc `kibana_search`
+ * aggregations during an incident.
+ *
+ * @module
+ */
+import { z } from 'zod';
+import { createSecureTool } from '../lib/toolWrapper';
+import {
+  validateReadOnlyQuery,
+  validateIndexName,
+} from '../lib/inputSanitizer';
+import { parseKql } from '../lib/kqlParser';
+import {
+  previousWindow,
+  timeRangeFilter,
+  timeRangeSchema,
+  TimeRange,
+  windowDurationMs,
+} from '../lib/timeRange';
+import { resolveTimeField } from '../lib/timeField';
+import { aggregatableFieldFor, flattenIndexMapping } from '../lib/mappingUtils';
+import {
+  fieldShift,
+  rankByShift,
+  significantValues,
+  FieldShift,
+  SignificantValue,
+} from '../lib/windowComparison';
+import { ToolResult } from '../lib/types';
+
+/** Documents and rate in one window. */
+export interface WindowVolume {
+  time_range: TimeRange;
+  count: number;
+  per_minute: number;
+}
+
+/** Comparison of one field between the windows. */
+export interface FieldComparison extends FieldShift {
+  /** Field the aggregations ran on (e.g., `error.message.keyword`). */
+  aggregated_field: string;
+  significant_terms: SignificantValue[];
+}
+
+/** Top-level response shape for a window comparison. */
+export interface WindowComparison {
+  baseline: WindowVolume;
+  comparison: WindowVolume;
+  /** Relative change in documents per minute, in percent. */
+  volume_change_pct: number | undefined;
+  /** Fields, the most shifted distribution first. */
+  fields: FieldComparison[];
+}
+
+/**
+ * Values compared per field: the most frequent in the comparison window,
+ * then baseline-only values if fewer occur.
+ */
+const DISTRIBUTION_SIZE = 50;
+
+function perMinute(count: number, durationMs: number): number {
+  return count / (durationMs / 60_000);
+}
+
+export const compareTimeWindowsTool = createSecureTool({
+  id: 'compare_time_windows',
+  description:
+    'Compare a baseline time window with a comparison window over the same index and query, e.g. failures since 14:00 against the hour before. ' +
+    'Reports the volume change, significant_terms per field, values that never appeared in the baseline, and the fields whose value distribution shifted most. ' +
+    'The baseline defaults to the window of equal length just before the comparison window.',
+  mcp: {
+    annotations: {
+      title: 'Compare Time Windows',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  inputSchema: z.object({
+    index: z.string().describe('The index pattern (e.g., "payments-*")'),
+    fields: z
+      .array(z.string())
+      .min(1)
+      .max(10)
+      .describe(
+        'Fields to compare, e.g. ["error.code", "service.name", "payment.scheme"]. Text fields are compared through their .keyword sub-field.',
+      ),
+    query: z
+      .string()
+      .optional()
+      .describe(
+        'KQL selecting the documents in both windows, e.g. "event.outcome:failure". Defaults to all documents.',
+      ),
+    window: timeRangeSchema.describe(
+      'The comparison window: a relative start such as "now-1h", or {from, to, time_zone}, e.g. {"from": "2025-10-01T14:00:00", "time_zone": "Europe/Amsterdam"}.',
+    ),
+    baseline: timeRangeSchema
+      .optional()
+      .describe(
+        'The baseline window, same format. Defaults to the window of equal length just before window.',
+      ),
+    time_field: z
+      .string()
+      .optional()
+      .describe(
+        'Date field for both windows. Defaults to the data view time field, then @timestamp.',
+      ),
+    top_n: z
+      .number()
+      .min(1)
+      .max(50)
+      .optional()
+      .default(10)
+      .describe(
+        'Significant terms and value changes to list per field (1-50).',
+      ),
+  }),
+  execute: async (
+    { index, fields, query, window, baseline, time_field, top_n },
+    { esClient },
+  ): Promise<ToolResult<WindowComparison>> => {
+    validateIndexName(index);
+    const topN = top_n ?? 10;
+    const comparisonRange: TimeRange = window;
+    const baselineRange: TimeRange = baseline ?? previousWindow(window);
+    const comparisonMs = windowDurationMs(comparisonRange);
+    const baselineMs = windowDurationMs(baselineRange);
+
+    const mapped = Object.values<any>(await esClient.getMapping(index)).flatMap(
+      flattenIndexMapping,
+    );
+    const aggregated = fields.map((field) => {
+      if (!mapped.some((f) => f.field === field)) {
+        throw new Error(
+          `Field "${field}" is not mapped in "${index}". Use discover_cluster to list its fields.`,
+        );
+      }
+      const target = aggregatableFieldFor(mapped, field);
+      if (!target) {
+        throw new Error(
+          `Field "${field}" in "${index}" can't be aggregated and has no aggregatable sub-field (such as "${field}.keyword").`,
+        );
+      }
+      return target.field;
+    });
+
+    const timeField = time_field ?? (await resolveTimeField(esClient, index));
+    const queryFilters = query ? [parseKql(query)] : [];
+    const baselineFilter = timeRangeFilter(baselineRange, timeField);
+    const comparisonFilter = timeRangeFilter(comparisonRange, timeField);
+
+    const aggs: Record<string, any> = {
+      windows: {
+        filters: {
+          filters: { baseline: baselineFilter, comparison: comparisonFilter },
+        },
+      },
+      significant: {
+        filter: comparisonFilter,
+        aggs: Object.fromEntries(
+          aggregated.map((field, i) => [
+            `field_${i}`,
+            {
+              significant_terms: {
+                field,
+                size: topN,
+                background_filter: {
+                  bool: { filter: [...queryFilters, baselineFilter] },
+                },
+              },
+            },
+          ]),
+        ),
+      },
+    };
+    aggregated.forEach((field, i) => {
+      aggs[`distribution_${i}`] = {
+        terms: {
+          field,
+          size: DISTRIBUTION_SIZE,
+          order: { comparison: 'desc' },
+        },
+        aggs: {
+          baseline: { filter: baselineFilter },
+          comparison: { filter: comparisonFilter },
+        },
+      };
+    });
+
+    const body = {
+      query: {
+        bool: {
+          filter: queryFilters,
+          should: [baselineFilter, comparisonFilter],
+          minimum_should_match: 1,
+        },
+      },
+      aggs,
+    };
+    validateReadOnlyQuery(body);
+    const response = await esClient.search(index, body, 0);
+    const result = response.aggregations ?? {};
+
+    const counts = {
+      baseline: result.windows?.buckets?.baseline?.doc_count ?? 0,
+      comparison: result.windows?.buckets?.comparison?.doc_count ?? 0,
+    };
+    const baselineRate = perMinute(counts.baseline, baselineMs);
+    const comparisonRate = perMinute(counts.comparison, comparisonMs);
+
+    const compared: FieldComparison[] = fields.map((field, i) => ({
+      ...fieldShift(
+        field,
+        result[`distribution_${i}`]?.buckets ?? [],
+        counts,
+        topN,
+      ),
+      aggregated_field: aggregated[i],
+      significant_terms: significantValues(result.significant?.[`field_${i}`]),
+    }));
+
+    const comparison: ToolResult<WindowComparison> = {
+      type: 'success',
+      data: {
+        baseline: {
+          time_range: baselineRange,
+          count: counts.baseline,
+          per_minute: Math.round(baselineRate * 100) / 100,
+        },
+        comparison: {
+          time_range: comparisonRange,
+          count: counts.comparison,
+          per_minute: Math.round(comparisonRate * 100) / 100,
+        },
+        volume_change_pct:
+          baselineRate === 0
+            ? undefined
+            : Math.round(
+                ((comparisonRate - baselineRate) / baselineRate) * 1000,
+              ) / 10,
+        fields: rankByShift(compared),
+      },
+    };
+    if (counts.baseline === 0) {
+      comparison.warnings = [
+        'The baseline window has no matching documents, so shifts and significant terms cannot be computed. Choose a different baseline.',
+      ];
+    }
+    return comparison;
+  },
+});
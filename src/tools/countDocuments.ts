@@ -0,0 +1,140 @@
+/**
+ * **count_documents** — Exact document counts via the `_count` API.
+ *
+ * Answers "how many X happened" without fetching documents. Search totals
+ * are lower bounds above 10,000 hits unless `track_total_hits` is set, and
+ * every fetched hit pays the PII redaction cost; `_count` returns the exact
+ * number and nothing else.
+ *
+ * **For Business Managers:** "How many SWIFT payments failed yesterday, and
+ * how many of those were over 10,000 EUR?" becomes one call with a base
+ * query and two named filters.
+ *
+ * The base query gets the same sanitization and time-range merging as
+ * `kibana_search`. Each named filter is combined with the base query and
+ * counted in parallel.
+ *
+ * @module
+ */
+import { z } from 'zod';
+import { createSecureTool } from '../lib/toolWrapper';
+import {
+  validateReadOnlyQuery,
+  validateIndexName,
+} from '../lib/inputSanitizer';
+import { applyTimeRange, timeRangeSchema } from '../lib/timeRange';
+import { resolveTimeField } from '../lib/timeField';
+import { ToolResult } from '../lib/types';
+
+/** Exact counts for a base query and, optionally, named filters on top of it. */
+export interface CountResult {
+  /** Documents matching the base query (and time range). */
+  count: number;
+  /** Documents matching the base query and each named filter. */
+  counts?: Record<string, number>;
+}
+
+/** Maximum number of named filters accepted in one call. */
+const MAX_FILTERS = 10;
+
+/** Narrows a count body by an additional filter clause. */
+function withFilter(
+  body: Record<string, any>,
+  filter: Record<string, any>,
+): Record<string, any> {
+  return {
+    query: {
+      bool: { filter: body.query ? [body.query, filter] : [filter] },
+    },
+  };
+}
+
+export const countDocumentsTool = createSecureTool({
+  id: 'count_documents',
+  description:
+    'Count documents matching a read-only DSL query using the _count API. Returns exact counts (no 10,000 lower bound) without fetching documents. ' +
+    'Supports the same time_range and time_field as kibana_search. Pass filters as a map of name to query clause ' +
+    '(e.g., {"failed": {"term": {"status": "failed"}}}) to get several counts on top of the base query in one call.',
+  mcp: {
+    annotations: {
+      title: 'Count Documents',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  inputSchema: z.object({
+    index: z
+      .string()
+      .describe('The index pattern to count in (e.g., "logs-*")'),
+    query: z
+      .record(z.any())
+      .optional()
+      .describe(
+        'Optional DSL body with a "query" key, e.g. {"query": {"term": {"payment_type": "SWIFT"}}}. Omit to count all documents.',
+      ),
+    time_range: timeRangeSchema.optional(),
+    time_field: z
+      .string()
+      .optional()
+      .describe(
+        'Date field to apply time_range to. Defaults to the detected time field of the index.',
+      ),
+    filters: z
+      .record(z.record(z.any()))
+      .optional()
+      .describe(
+        `Optional map of name to query clause (up to ${MAX_FILTERS}). Each is counted in combination with the base query.`,
+      ),
+  }),
+  execute: async (
+    { index, query, time_range, time_field, filters },
+    { esClient },
+  ): Promise<ToolResult<CountResult>> => {
+    validateIndexName(index);
+
+    let body: Record<string, any> = query ?? {};
+    const extraKeys = Object.keys(body).filter((key) => key !== 'query');
+    if (extraKeys.length > 0) {
+      throw new Error(
+        `count_documents only accepts a "query" key in the body; remove ${extraKeys.join(', ')}.`,
+      );
+    }
+    validateReadOnlyQuery(body);
+
+    const named = Object.entries(filters ?? {});
+    if (named.length > MAX_FILTERS) {
+      throw new Error(
+        `Too many filters (${named.length}); at most ${MAX_FILTERS} are allowed per call.`,
+      );
+    }
+    for (const [name, filter] of named) {
+      try {
+        validateReadOnlyQuery({ query: filter });
+      } catch (error) {
+        throw new Error(`Filter "${name}": ${(error as Error).message}`);
+      }
+    }
+
+    if (time_range) {
+      const timeField = time_field ?? (await resolveTimeField(esClient, index));
+      body = applyTimeRange(body, time_range, timeField);
+    }
+
+    const [count, ...filterCounts] = await Promise.all([
+      esClient.count(index, body),
+      ...named.map(([, filter]) =>
+        esClient.count(index, withFilter(body, filter)),
+      ),
+    ]);
+
+    const data: CountResult = { count };
+    if (named.length > 0) {
+      data.counts = Object.fromEntries(
+        named.map(([name], i) => [name, filterCounts[i]]),
+      );
+    }
+    return { type: 'success', data, total: count };
+  },
+});
@@ -11,6 +11,21 @@
  * and the agent will discover that `transactions-*` exists with fields like
  * `amount`, `currency`, and `status`.
  *
+ * Data streams and aliases are listed alongside concrete indices, since they
+ * are usually what should be queried: `logs-payments` rather than its hidden
+ * `.ds-logs-payments-*` backing indices. Aliases whose targets fall outside
+ * the allowed index patterns are not listed.
+ *
+ * Fields carry their `_field_caps` capabilities — searchable, aggregatable,
+ * type conflicts across indices and the `.keyword` sibling to aggregate on —
+ * so generated queries don't run terms aggregations on `text` fields.
+ *
+ * Daily and rollover indices (`app-logs-2025.10.01`, `app-logs-2025.10.02`,
+ * ...) are collapsed into one family entry with summed doc counts and size,
+ * the date span of its members and a merged field list in which each field
+ * says what share of the members map it. Families are expanded into their
+ * individual indices only on request.
+ *
  * @module
  */
 import { z } from 'zod';
@@ -18,7 +33,18 @@ import { match } from 'dismatch';
 import type { Model } from 'dismatch';
 import { createSecureTool } from '../lib/toolWrapper';
 import { validateIndexName } from '../lib/inputSanitizer';
-import { flattenProperties, FieldMapping } from '../lib/mappingUtils';
+import {
+  applyFieldCaps,
+  flattenIndexMapping,
+  FieldMapping,
+} from '../lib/mappingUtils';
+import { ElasticsearchClient, dataStreamOf } from '../lib/esClient';
+import {
+  groupIndexFamilies,
+  indexFamily,
+  parseByteSize,
+  IndexFamily,
+} from '../lib/indexFamilies';
 
 /** Metadata for a single discovered index, including its field mappings. */
 export interface DiscoveredIndex {
@@ -30,10 +56,62 @@ export interface DiscoveredIndex {
   fields: FieldMapping[];
 }
 
+/** A field of an index family, with the share of member indices that map it. */
+export interface FamilyFieldMapping extends FieldMapping {
+  /** Fraction (0–1) of the family's indices whose mapping has this field. */
+  presence: number;
+}
+
+/** Indices sharing a name apart from a date or rollover suffix, summarized as one. */
+export interface DiscoveredFamily {
+  /** Family name (e.g., `app-logs`). */
+  family: string;
+  /** Pattern to query the whole family with (e.g., `app-logs-*`). */
+  pattern: string;
+  index_count: number;
+  doc_count: number;
+  store_size_bytes: number;
+  /** First and last date in the member names, for date-suffixed families. */
+  time_span: { from: string; to: string } | undefined;
+  fields: FamilyFieldMapping[];
+}
+
+/** A data stream, queryable by name, with the fields of its backing indices. */
+export interface DiscoveredDataStream {
+  name: string;
+  /** Number of backing indices. */
+  backing_indices: number;
+  /** Index template the data stream was created from. */
+  template: string;
+  /** ILM policy managing the backing indices, if any. */
+  ilm_policy: string | undefined;
+  /** Timestamp field every document must have (usually `@timestamp`). */
+  time_field: string;
+  health: string;
+  fields: FieldMapping[];
+}
+
+/** An alias and the indices (or data streams) it points to. */
+export interface DiscoveredAlias {
+  alias: string;
+  indices: string[];
+  /** Target that receives writes through the alias, if one is designated. */
+  write_index: string | undefined;
+}
+
 /** Top-level response shape for cluster discovery. */
 export interface ClusterDiscovery {
-  cluster_summary: { total_indices: number; discovered: number };
+  cluster_summary: {
+    total_indices: number;
+    discovered: number;
+    families: number;
+    data_streams: number;
+    aliases: number;
+  };
+  families: DiscoveredFamily[];
   indices: DiscoveredIndex[];
+  data_streams: DiscoveredDataStream[];
+  aliases: DiscoveredAlias[];
 }
 
 /**
@@ -46,19 +124,136 @@ type MappingFetch =
 
 /** Removes duplicate field paths that can appear when an alias resolves to multiple concrete indices. */
 function deduplicateFields(fields: FieldMapping[]): FieldMapping[] {
-  const seen = new Map<string, string>();
+  const seen = new Map<string, FieldMapping>();
   for (const f of fields) {
     if (!seen.has(f.field)) {
-      seen.set(f.field, f.type);
+      seen.set(f.field, f);
     }
   }
-  return Array.from(seen.entries()).map(([field, type]) => ({ field, type }));
+  return Array.from(seen.values());
+}
+
+/**
+ * Fetches and flattens the mappings of an index, data stream or alias, then
+ * enriches them with field capabilities. Capabilities are best-effort: if
+ * `_field_caps` fails, the plain mappings are returned.
+ */
+async function fetchFields(
+  esClient: ElasticsearchClient,
+  name: string,
+): Promise<FieldMapping[]> {
+  const [mappingResult, fieldCaps]: [MappingFetch, any] = await Promise.all([
+    esClient
+      .getMapping(name)
+      .then((data: any) => ({
+        type: 'fetched' as const,
+        fields: Object.values<any>(data).flatMap(flattenIndexMapping),
+      }))
+      .catch(() => ({ type: 'failed' as const })),
+    esClient.fieldCaps(name).catch(() => undefined),
+  ]);
+
+  return match(mappingResult)({
+    fetched: ({ fields }) => {
+      const unique = deduplicateFields(fields);
+      return fieldCaps ? applyFieldCaps(unique, fieldCaps) : unique;
+    },
+    failed: () => [],
+  });
+}
+
+/**
+ * Fetches the merged field list of an index family through its pattern,
+ * counting for each field how many member indices map it. Indices that
+ * match the pattern but aren't members are ignored.
+ */
+async function fetchFamilyFields(
+  esClient: ElasticsearchClient,
+  pattern: string,
+  members: string[],
+): Promise<FamilyFieldMapping[]> {
+  const [mappingResult, fieldCaps]: [MappingFetch, any] = await Promise.all([
+    esClient
+      .getMapping(pattern)
+      .then((data: any) => ({
+        type: 'fetched' as const,
+        fields: members.flatMap((member) =>
+          deduplicateFields(flattenIndexMapping(data[member])),
+        ),
+      }))
+      .catch(() => ({ type: 'failed' as const })),
+    esClient.fieldCaps(pattern).catch(() => undefined),
+  ]);
+
+  return match(mappingResult)({
+    fetched: ({ fields }) => {
+      const mappedBy = new Map<string, number>();
+      for (const f of fields) {
+        mappedBy.set(f.field, (mappedBy.get(f.field) ?? 0) + 1);
+      }
+      const unique = deduplicateFields(fields);
+      const enriched = fieldCaps ? applyFieldCaps(unique, fieldCaps) : unique;
+      return enriched.map((f) => ({
+        ...f,
+        presence:
+          Math.round(((mappedBy.get(f.field) ?? 0) / members.length) * 100) /
+          100,
+      }));
+    },
+    failed: () => [],
+  });
+}
+
+/** Sums the `_cat/indices` rows of a family's members and finds its date span. */
+function summarizeFamily(
+  family: IndexFamily,
+  rows: Omit<DiscoveredIndex, 'fields'>[],
+): Omit<DiscoveredFamily, 'fields'> {
+  const dates = rows
+    .map((row) => indexFamily(row.index)?.date)
+    .filter((date): date is string => date !== undefined)
+    .sort();
+  return {
+    family: family.family,
+    pattern: family.pattern,
+    index_count: rows.length,
+    doc_count: rows.reduce(
+      (sum, row) => sum + (parseInt(row.doc_count, 10) || 0),
+      0,
+    ),
+    store_size_bytes: rows.reduce(
+      (sum, row) => sum + parseByteSize(row.store_size),
+      0,
+    ),
+    time_span:
+      dates.length === rows.length
+        ? { from: dates[0], to: dates[dates.length - 1] }
+        : undefined,
+  };
+}
+
+/** Groups `_cat/aliases` rows (one per alias/target pair) by alias. */
+function groupAliases(rows: any[]): DiscoveredAlias[] {
+  const byAlias = new Map<string, DiscoveredAlias>();
+  for (const row of rows) {
+    const entry: DiscoveredAlias = byAlias.get(row.alias) ?? {
+      alias: row.alias,
+      indices: [],
+      write_index: undefined,
+    };
+    entry.indices.push(row.index);
+    if (row.is_write_index === 'true') entry.write_index = row.index;
+    byAlias.set(row.alias, entry);
+  }
+  return Array.from(byAlias.values());
 }
 
 export const discoverClusterTool = createSecureTool({
   id: 'discover_cluster',
   description:
-    'Discover the Elasticsearch cluster: lists all available indices and their field mappings. Call this tool FIRST before any search to understand what data is available, what indices exist, and what fields each index contains.',
+    'Discover the Elasticsearch cluster: lists all available indices, data streams and aliases with their field mappings and capabilities (searchable, aggregatable, type conflicts, and the .keyword sibling to aggregate on instead of a text field). Call this tool FIRST before any search to understand what data is available, what indices exist, and what fields each index contains. ' +
+    'Prefer querying data streams and aliases by name over their backing indices. ' +
+    'Daily and rollover indices are summarized as families (query them with the family pattern, e.g. "app-logs-*"); pass expand_families to list a family\'s indices individually.',
   mcp: {
     annotations: {
       title: 'Discover Cluster',
@@ -78,14 +273,26 @@ export const discoverClusterTool = createSecureTool({
       .boolean()
       .optional()
       .default(false)
-      .describe('Include system/hidden indices (those starting with "."). Defaults to false.'),
+      .describe('Include system/hidden indices, data streams and aliases (those starting with "."). Defaults to false.'),
     max_indices: z
       .number()
       .optional()
       .default(50)
-      .describe('Maximum number of indices to fetch mappings for. Defaults to 50.'),
+      .describe('Maximum number of indices (and, separately, families and data streams) to fetch mappings for. Defaults to 50.'),
+    group_families: z
+      .boolean()
+      .optional()
+      .default(true)
+      .describe('Collapse indices that differ only by a date or rollover suffix (app-logs-2025.10.01, ...) into one family entry. Defaults to true.'),
+    expand_families: z
+      .array(z.string())
+      .optional()
+      .describe('Family names (e.g., ["app-logs"]) to list as individual indices instead of a summary.'),
   }),
-  execute: async ({ pattern, include_hidden, max_indices }, { config, esClient }) => {
+  execute: async (
+    { pattern, include_hidden, max_indices, group_families, expand_families },
+    { config, esClient },
+  ) => {
     validateIndexName(pattern ?? '*');
 
     // 1. List all indices
@@ -114,7 +321,41 @@ export const discoverClusterTool = createSecureTool({
 
     const totalIndices = indices.length;
 
-    // 5. Sort by doc count descending (biggest first) and cap
+    // 5. Collapse index families (unless expanded) into summaries
+    const familyGroups = group_families
+      ? Array.from(
+          groupIndexFamilies(
+            indices.map((idx) => idx.index),
+            (pattern) => esClient.isAllowed(pattern),
+          ).values(),
+        ).filter(
+          ({ family }) => !(expand_families ?? []).includes(family.family),
+        )
+      : [];
+    const grouped = new Set(familyGroups.flatMap(({ members }) => members));
+    const byName = new Map(indices.map((idx) => [idx.index, idx]));
+    indices = indices.filter((idx) => !grouped.has(idx.index));
+
+    const families: DiscoveredFamily[] = await Promise.all(
+      familyGroups
+        .map(({ family, members }) => ({
+          summary: summarizeFamily(family, members.map((m) => byName.get(m)!)),
+          members,
+        }))
+        .sort((a, b) => b.summary.doc_count - a.summary.doc_count)
+        .slice(0, max_indices)
+        .map(async ({ summary, members }) => ({
+          ...summary,
+          fields: await fetchFamilyFields(esClient, summary.pattern, members),
+        })),
+    );
+
+    const isVisible = (name: string) =>
+      (include_hidden || !name.startsWith('.')) &&
+      (config.allowedIndexPatterns.length === 0 ||
+        config.allowedIndexPatterns.some((p) => globMatch(p, name)));
+
+    // 6. Sort by doc count descending (biggest first) and cap
     indices.sort((a, b) => {
       const countA = parseInt(a.doc_count, 10) || 0;
       const countB = parseInt(b.doc_count, 10) || 0;
@@ -122,27 +363,41 @@ export const discoverClusterTool = createSecureTool({
     });
     indices = indices.slice(0, max_indices);
 
-    // 6. Fetch mappings in parallel
+    // 7. Fetch mappings in parallel
     const discoveredIndices: DiscoveredIndex[] = await Promise.all(
-      indices.map(async (idx) => {
-        const mappingResult: MappingFetch = await esClient.getMapping(idx.index)
-          .then((data: any) => {
-            const fields: FieldMapping[] = [];
-            for (const indexName of Object.keys(data)) {
-              const properties = data[indexName]?.mappings?.properties;
-              if (properties) flattenProperties(properties, '', fields);
-            }
-            return { type: 'fetched' as const, fields };
-          })
-          .catch(() => ({ type: 'failed' as const }));
-
-        const fields = match(mappingResult)({
-          fetched: ({ fields }) => deduplicateFields(fields),
-          failed: () => [],
-        });
-
-        return { ...idx, fields };
-      }),
+      indices.map(async (idx) => ({
+        ...idx,
+        fields: await fetchFields(esClient, idx.index),
+      })),
+    );
+
+    // 8. Data streams (older clusters or missing privileges: none listed)
+    const rawDataStreams = await esClient
+      .getDataStreams(pattern)
+      .catch(() => [] as any[]);
+    const dataStreams: DiscoveredDataStream[] = await Promise.all(
+      rawDataStreams
+        .filter((ds: any) => !ds.hidden && isVisible(ds.name))
+        .slice(0, max_indices)
+        .map(async (ds: any) => ({
+          name: ds.name,
+          backing_indices: ds.indices?.length ?? 0,
+          template: ds.template,
+          ilm_policy: ds.ilm_policy,
+          time_field: ds.timestamp_field?.name ?? '@timestamp',
+          health: String(ds.status ?? '').toLowerCase(),
+          fields: await fetchFields(esClient, ds.name),
+        })),
+    );
+
+    // 9. Aliases, only when the alias and every target are allowed
+    const rawAliases = await esClient
+      .catAliases(pattern)
+      .catch(() => [] as any[]);
+    const aliases = groupAliases(rawAliases).filter(
+      (a) =>
+        isVisible(a.alias) &&
+        a.indices.every((target) => isVisible(dataStreamOf(target) ?? target)),
     );
 
     return {
@@ -151,8 +406,14 @@ export const discoverClusterTool = createSecureTool({
         cluster_summary: {
           total_indices: totalIndices,
           discovered: discoveredIndices.length,
+          families: families.length,
+          data_streams: dataStreams.length,
+          aliases: aliases.length,
         },
+        families,
         indices: discoveredIndices,
+        data_streams: dataStreams,
+        aliases,
       } satisfies ClusterDiscovery,
     };
   },
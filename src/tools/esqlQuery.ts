@@ -0,0 +1,75 @@
+/**
+ * **esql_query** — Read-only ES|QL query execution.
+ *
+ * Runs the same piped queries developers write in Kibana Discover
+ * (`FROM logs-* | WHERE ... | STATS ...`) through the `_query` API. Every
+ * `FROM` source must be covered by the allowed index patterns, and only
+ * read-only commands are accepted.
+ *
+ * **For Developers:** Paste an ES|QL pipeline from Discover and the agent can
+ * run it as-is instead of translating it into DSL.
+ *
+ * Results are converted from the columnar ES|QL response into one object per
+ * row, alongside the column names and types. Row counts are capped
+ * server-side.
+ *
+ * @module
+ */
+import { z } from 'zod';
+import { createSecureTool } from '../lib/toolWrapper';
+import { validateReadOnlyEsql } from '../lib/inputSanitizer';
+
+/** A single column in an ES|QL result set. */
+export interface EsqlColumn {
+  name: string;
+  type: string;
+}
+
+/** Top-level response shape for an ES|QL query. */
+export interface EsqlQueryResult {
+  columns: EsqlColumn[];
+  rows: Record<string, any>[];
+}
+
+export const esqlQueryTool = createSecureTool({
+  id: 'esql_query',
+  description:
+    'Execute a read-only ES|QL query (e.g., "FROM logs-* | WHERE status == \\"failed\\" | STATS count = COUNT(*) BY service.name"). ' +
+    'Only FROM/ROW/SHOW source commands and row-level processing commands (WHERE, EVAL, STATS, KEEP, DROP, RENAME, SORT, LIMIT, DISSECT, GROK, MV_EXPAND) are allowed.',
+  mcp: {
+    annotations: {
+      title: 'ES|QL Query',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  inputSchema: z.object({
+    query: z.string().describe('The ES|QL query pipeline'),
+    limit: z
+      .number()
+      .optional()
+      .default(10)
+      .describe('Maximum number of rows to return (max capped by server config)'),
+  }),
+  execute: async ({ query, limit }, { esClient }) => {
+    validateReadOnlyEsql(query);
+
+    const raw = await esClient.esqlQuery(query, limit ?? 10);
+
+    const columns: EsqlColumn[] = (raw.columns ?? []).map((col: any) => ({
+      name: col.name,
+      type: col.type,
+    }));
+    const rows = (raw.values ?? []).map((values: any[]) =>
+      Object.fromEntries(columns.map((col, i) => [col.name, values[i]])),
+    );
+
+    return {
+      type: 'success' as const,
+      data: { columns, rows } satisfies EsqlQueryResult,
+      total: rows.length,
+    };
+  },
+});
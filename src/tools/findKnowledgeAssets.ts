@@ -0,0 +1,230 @@
+/**
+ * **find_knowledge_assets** — Discovery of existing Kibana dashboards,
+ * visualizations, saved searches and data views.
+ *
+ * Before building a query from scratch, the agent can check whether a team
+ * already answers the question in Kibana: "is there a dashboard for SEPA
+ * payment failures?" This tool reads saved objects from the configured
+ * space, ranks them against the question with local keyword scoring over
+ * their titles, tags and descriptions, and returns deep links the user can
+ * open directly.
+ *
+ * Each asset lists the index patterns it reads, followed one hop through
+ * dashboard panels. Assets that read an index outside the allowed patterns
+ * are not listed, and neither are assets with an index pattern or panel
+ * reference that cannot be resolved while an allow-list is configured.
+ *
+ * @module
+ */
+import { z } from 'zod';
+import { createSecureTool } from '../lib/toolWrapper';
+import { rankByKeywords } from '../lib/keywordScoring';
+import { ToolResult } from '../lib/types';
+
+/** Saved object types the tool searches. */
+const ASSET_TYPES = [
+  'dashboard',
+  'lens',
+  'visualization',
+  'search',
+  'index-pattern',
+] as const;
+
+type AssetType = (typeof ASSET_TYPES)[number];
+
+/** App path of each asset type, relative to the space URL. */
+const APP_PATHS: Record<AssetType, string> = {
+  dashboard: '/app/dashboards#/view/',
+  lens: '/app/lens#/edit/',
+  visualization: '/app/visualize#/edit/',
+  search: '/app/discover#/view/',
+  'index-pattern': '/app/management/kibana/dataViews/dataView/',
+};
+
+/** Most recently updated saved objects fetched for local ranking. */
+const MAX_CANDIDATES = 1000;
+
+/** A saved object matching the question. */
+export interface KnowledgeAsset {
+  id: string;
+  type: AssetType;
+  title: string;
+  description: string | undefined;
+  tags: string[];
+  /** Index patterns the asset reads (a data view's own pattern). */
+  index_patterns: string[];
+  /** Deep link into Kibana for the configured space. */
+  url: string;
+  score: number;
+  matched_terms: string[];
+}
+
+/** Top-level response shape for knowledge asset discovery. */
+export interface KnowledgeAssetSearch {
+  /** Saved objects ranked against the question. */
+  candidates: number;
+  returned: number;
+  assets: KnowledgeAsset[];
+}
+
+export const findKnowledgeAssetsTool = createSecureTool({
+  id: 'find_knowledge_assets',
+  description:
+    'Find existing Kibana dashboards, Lens and legacy visualizations, saved searches and data views relevant to a question, ranked by keyword match on title, tags and description. ' +
+    'Returns each asset with the index patterns it reads and a deep link into Kibana. ' +
+    'Use this before building a query from scratch: a team may already have a dashboard that answers the question.',
+  mcp: {
+    annotations: {
+      title: 'Find Knowledge Assets',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  inputSchema: z.object({
+    question: z
+      .string()
+      .min(1)
+      .describe(
+        'The question or keywords to match (e.g., "SEPA payment failures by bank")',
+      ),
+    types: z
+      .array(z.enum(ASSET_TYPES))
+      .optional()
+      .describe(
+        'Only return these saved object types. Defaults to all: dashboard, lens, visualization, search (saved Discover search) and index-pattern (data view).',
+      ),
+    max_results: z
+      .number()
+      .min(1)
+      .max(50)
+      .optional()
+      .default(10)
+      .describe('Maximum number of assets to return (1-50). Defaults to 10.'),
+  }),
+  execute: async (
+    { question, types, max_results },
+    { config, esClient },
+  ): Promise<ToolResult<KnowledgeAssetSearch>> => {
+    // Data views and panels are always fetched: they resolve the index
+    // patterns of dashboards and visualizations
+    const params = new URLSearchParams([
+      ...[...ASSET_TYPES, 'tag'].map((type) => ['type', type]),
+      ...['title', 'description', 'name'].map((field) => ['fields', field]),
+      ['per_page', String(MAX_CANDIDATES)],
+      ['sort_field', 'updated_at'],
+      ['sort_order', 'desc'],
+    ]);
+
+    let found: any;
+    try {
+      found = await esClient.kibanaGet(`/api/saved_objects/_find?${params}`);
+    } catch (error: any) {
+      const httpStatus = error.response?.status;
+      if (httpStatus === 404 || httpStatus === 403) {
+        return {
+          type: 'error',
+          error:
+            'Kibana saved objects are not available. The saved objects API requires an API key with read access to the configured space.',
+        };
+      }
+      throw error;
+    }
+
+    const objects: any[] = found?.saved_objects ?? [];
+    const byKey = new Map(objects.map((o) => [`${o.type}:${o.id}`, o]));
+    const tagName = (id: string) => byKey.get(`tag:${id}`)?.attributes?.name;
+
+    // References outside the fetched candidates, to deleted objects or
+    // beyond the hop limit are reported as unresolved
+    const patternsOf = (
+      object: any,
+      hops = 1,
+    ): { patterns: string[]; unresolved: string[] } => {
+      if (object.type === 'index-pattern') {
+        const title = object.attributes?.title;
+        return { patterns: title ? [title] : [], unresolved: [] };
+      }
+      const patterns: string[] = [];
+      const unresolved: string[] = [];
+      for (const ref of object.references ?? []) {
+        if (ref.type === 'tag') continue;
+        const key = `${ref.type}:${ref.id}`;
+        const referenced = byKey.get(key);
+        if (!referenced || (ref.type !== 'index-pattern' && hops === 0)) {
+          unresolved.push(key);
+          continue;
+        }
+        const nested = patternsOf(referenced, hops - 1);
+        patterns.push(...nested.patterns);
+        unresolved.push(...nested.unresolved);
+      }
+      return { patterns, unresolved };
+    };
+
+    const wanted = new Set<string>(types ?? ASSET_TYPES);
+    const candidates = objects
+      .filter((o) => wanted.has(o.type))
+      .map((o) => {
+        const isDataView = o.type === 'index-pattern';
+        const { patterns, unresolved } = patternsOf(o);
+        return {
+          object: o,
+          title: String(
+            (isDataView && o.attributes?.name) || o.attributes?.title || o.id,
+          ),
+          tags: (o.references ?? [])
+            .filter((ref: any) => ref.type === 'tag')
+            .map((ref: any) => tagName(ref.id))
+            .filter(Boolean) as string[],
+          index_patterns: [...new Set(patterns)],
+          unresolved,
+        };
+      })
+      .filter(
+        ({ index_patterns, unresolved }) =>
+          // Without known patterns for everything it reads, an asset can
+          // only be vetted when no allow-list is configured
+          (config.allowedIndexPatterns.length === 0 ||
+            (index_patterns.length > 0 && unresolved.length === 0)) &&
+          index_patterns.every((pattern) =>
+            pattern.split(',').every((part) => esClient.isAllowed(part.trim())),
+          ),
+      );
+
+    const ranked = rankByKeywords(question, candidates, (c) => [
+      { text: c.title, weight: 3 },
+      { text: c.tags.join(' '), weight: 2 },
+      { text: c.object.attributes?.description, weight: 1 },
+      { text: c.index_patterns.join(' '), weight: 1 },
+    ]);
+
+    const spaceUrl = config.kibanaSpace
+      ? `${config.kibanaUrl}/s/${config.kibanaSpace}`
+      : config.kibanaUrl;
+    const assets: KnowledgeAsset[] = ranked
+      .slice(0, max_results)
+      .map(({ item, score, matched_terms }) => ({
+        id: item.object.id,
+        type: item.object.type,
+        title: item.title,
+        description: item.object.attributes?.description || undefined,
+        tags: item.tags,
+        index_patterns: item.index_patterns,
+        url: `${spaceUrl}${APP_PATHS[item.object.type as AssetType]}${encodeURIComponent(item.object.id)}`,
+        score,
+        matched_terms,
+      }));
+
+    return {
+      type: 'success',
+      data: {
+        candidates: candidates.length,
+        returned: assets.length,
+        assets,
+      },
+      total: ranked.length,
+    };
+  },
+});
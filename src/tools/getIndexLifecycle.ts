@@ -0,0 +1,146 @@
+/**
+ * **get_index_lifecycle** — ILM, data stream lifecycle and index template
+ * inspection.
+ *
+ * When old transaction data is missing, the answer is usually in the
+ * lifecycle configuration: a delete phase at 30 days, a data stream
+ * retention, or an ILM step stuck in `ERROR` so rollover stopped. This tool
+ * reports, for every index behind a pattern, which lifecycle manages it,
+ * its current phase, action and age, the next phase and action, rollover
+ * conditions, effective retention, failed steps and the index template that
+ * applies.
+ *
+ * Lifecycle metadata the API key cannot read (ILM policies and index
+ * templates need cluster privileges) is skipped with a warning rather than
+ * failing the call. Clusters without ILM or data stream lifecycle (older
+ * versions, serverless projects) report those indices as unmanaged.
+ *
+ * @module
+ */
+import { z } from 'zod';
+import { createSecureTool } from '../lib/toolWrapper';
+import { validateIndexName } from '../lib/inputSanitizer';
+import { summarizeLifecycle, IndexLifecycle } from '../lib/indexLifecycle';
+import { ToolResult } from '../lib/types';
+
+/** Top-level response shape for lifecycle inspection. */
+export interface IndexLifecycleReport {
+  summary: {
+    indices: number;
+    /** Index count per ILM phase, or per lifecycle when not ILM-managed. */
+    by_phase: Record<string, number>;
+    /** Indices with a failed lifecycle step. */
+    errors: number;
+  };
+  indices: IndexLifecycle[];
+}
+
+/**
+ * Resolves an optional lifecycle source to `fallback` when the API does not
+ * exist on this cluster (400/404) or the API key may not read it (403, noted
+ * in `warnings`).
+ */
+function optional<T>(
+  request: Promise<T>,
+  fallback: T,
+  what: string,
+  warnings: string[],
+): Promise<T> {
+  return request.catch((error: any) => {
+    const httpStatus = error.response?.status;
+    if (httpStatus === 403) {
+      warnings.push(
+        `${what} could not be read: the API key lacks the required privilege.`,
+      );
+      return fallback;
+    }
+    if (httpStatus === 400 || httpStatus === 404) return fallback;
+    throw error;
+  });
+}
+
+export const getIndexLifecycleTool = createSecureTool({
+  id: 'get_index_lifecycle',
+  description:
+    'Inspect the lifecycle of the indices behind a pattern: ILM policy, phase, action, age, next phase and action, rollover conditions, effective retention (delete phase age or data stream retention), failed ILM steps, and the index template that applies. ' +
+    'Use this to explain missing old data, indices that stopped rolling over, or unexpected shard growth.',
+  mcp: {
+    annotations: {
+      title: 'Get Index Lifecycle',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  inputSchema: z.object({
+    index: z
+      .string()
+      .describe(
+        'Index, data stream or pattern to inspect (e.g., "transactions-*")',
+      ),
+    max_indices: z
+      .number()
+      .optional()
+      .default(50)
+      .describe(
+        'Maximum number of indices to detail. The summary always covers all of them. Defaults to 50.',
+      ),
+  }),
+  execute: async (
+    { index, max_indices },
+    { esClient },
+  ): Promise<ToolResult<IndexLifecycleReport>> => {
+    validateIndexName(index);
+    const warnings: string[] = [];
+
+    const [ilm, dataStreamLifecycle, policies, templates] = await Promise.all([
+      optional(esClient.ilmExplain(index), {}, 'ILM state', warnings),
+      optional(
+        esClient.lifecycleExplain(index),
+        {},
+        'Data stream lifecycle state',
+        warnings,
+      ),
+      optional(esClient.getIlmPolicies(), {}, 'ILM policies', warnings),
+      optional(esClient.getIndexTemplates(), [], 'Index templates', warnings),
+    ]);
+
+    const lifecycles = summarizeLifecycle({
+      ilm,
+      dataStreamLifecycle,
+      policies,
+      templates,
+    });
+    if (lifecycles.length === 0) {
+      throw new Error(
+        `No lifecycle information found for "${index}". Check that the pattern matches existing indices.`,
+      );
+    }
+
+    const byPhase: Record<string, number> = {};
+    for (const { phase, managed_by } of lifecycles) {
+      const key = phase ?? managed_by;
+      byPhase[key] = (byPhase[key] ?? 0) + 1;
+    }
+
+    const result: ToolResult<IndexLifecycleReport> = {
+      type: 'success',
+      data: {
+        summary: {
+          indices: lifecycles.length,
+          by_phase: byPhase,
+          errors: lifecycles.filter((l) => l.error).length,
+        },
+        // Failed indices first, so they survive the max_indices cut
+        indices: [
+          ...lifecycles.filter((l) => l.error),
+          ...lifecycles.filter((l) => !l.error),
+        ].slice(0, max_indices),
+      },
+      total: lifecycles.length,
+    };
+    if (warnings.length) result.warnings = warnings;
+    return result;
+  },
+});
@@ -0,0 +1,275 @@
+/**
+ * **get_log_context** — The documents logged just before and after one hit.
+ *
+ * Kibana Discover's "View surrounding documents": given one log line (by
+ * `_id`, or by the sort values of a previous call), fetch it and the N
+ * documents immediately before and after it in time order, optionally only
+ * those with the same `host.name`, `service.name` or `trace.id` as the
+ * anchor.
+ *
+ * Both directions use `search_after` from the anchor's sort values, sorted
+ * on the time field with `_doc` as tiebreaker — the same sort Discover
+ * uses — and run in one `_msearch` round trip. Each direction is bounded to
+ * `search_window` around the anchor, so the searches stay cheap on large
+ * indices. `_doc` is only unique within one shard, so sort values taken
+ * from a multi-shard or multi-index pattern can anchor on another document
+ * with the same timestamp; an `_id` anchor is exact.
+ *
+ * **For Developers:** "What happened on that pod right before the
+ * NullPointerException?" without guessing a time range to re-query.
+ *
+ * @module
+ */
+import { z } from 'zod';
+import { createSecureTool } from '../lib/toolWrapper';
+import {
+  validateReadOnlyQuery,
+  validateIndexName,
+} from '../lib/inputSanitizer';
+import { applyTimeRange, timeRangeSchema } from '../lib/timeRange';
+import { resolveTimeField } from '../lib/timeField';
+import { mapHits, valueAt, SearchHit } from '../lib/searchHits';
+import { ToolResult } from '../lib/types';
+
+/** Top-level response shape for a log context lookup. */
+export interface LogContext {
+  time_field: string;
+  anchor: SearchHit;
+  /** Documents before the anchor, oldest first. */
+  before: SearchHit[];
+  /** Documents after the anchor, oldest first. */
+  after: SearchHit[];
+  /** Anchor values the context was constrained to, by field. */
+  constrained_by: Record<string, string | number | boolean>;
+}
+
+/**
+ * Sort values of the time field are returned in this format, so they are
+ * readable, keep nanosecond precision, and can anchor date math ranges.
+ */
+const SORT_FORMAT = 'strict_date_optional_time_nanos';
+
+/** Time field then `_doc`, the sort Discover uses for surrounding documents. */
+function contextSort(timeField: string, order: 'asc' | 'desc'): any[] {
+  return [{ [timeField]: { order, format: SORT_FORMAT } }, { _doc: order }];
+}
+
+export const getLogContextTool = createSecureTool({
+  id: 'get_log_context',
+  description:
+    'Fetch one log document and the documents logged immediately before and after it, like Kibana Discover\'s "View surrounding documents". ' +
+    'Identify the anchor by _id (e.g., from kibana_search with include_metadata), or by sort_values from a previous get_log_context call to page further back or forward. ' +
+    'Set match_fields (e.g., ["host.name"] or ["trace.id"]) to only include documents sharing the anchor\'s values.',
+  mcp: {
+    annotations: {
+      title: 'Get Log Context',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  inputSchema: z.object({
+    index: z
+      .string()
+      .describe('The index pattern holding the document (e.g., "logs-*")'),
+    id: z.string().optional().describe('_id of the anchor document.'),
+    sort_values: z
+      .array(z.union([z.string(), z.number()]))
+      .min(1)
+      .max(2)
+      .optional()
+      .describe(
+        'Sort values of the anchor instead of id: the "sort" of the first "before" or last "after" document of a previous call, or a single timestamp to anchor on the first document at or after it. ' +
+          '_doc is only unique within one shard, so on a multi-shard or multi-index pattern sort values can anchor on another document with the same timestamp; use id when the exact document matters.',
+      ),
+    size: z
+      .number()
+      .min(1)
+      .max(100)
+      .optional()
+      .default(5)
+      .describe('Documents to return on each side of the anchor (1-100).'),
+    match_fields: z
+      .array(z.string())
+      .optional()
+      .describe(
+        'Only include documents with the same values as the anchor in these fields, e.g. ["service.name", "host.name"] or ["trace.id"].',
+      ),
+    time_field: z
+      .string()
+      .optional()
+      .describe(
+        'Date field that orders the documents. Defaults to the data view time field, then @timestamp.',
+      ),
+    time_range: timeRangeSchema
+      .optional()
+      .describe(
+        'Window containing the anchor document, used to look it up by id. Needed on large indices, where searches must be time-bounded.',
+      ),
+    search_window: z
+      .string()
+      .regex(/^\d+[smhHdw]$/)
+      .optional()
+      .default('1d')
+      .describe(
+        'How far from the anchor to look in each direction, e.g. "15m", "6h". Defaults to "1d".',
+      ),
+    source_includes: z
+      .array(z.string())
+      .optional()
+      .describe(
+        'Only return these _source fields of the surrounding documents (wildcards allowed), e.g. ["@timestamp", "log.level", "message"].',
+      ),
+  }),
+  execute: async (
+    {
+      index,
+      id,
+      sort_values,
+      size,
+      match_fields,
+      time_field,
+      time_range,
+      search_window,
+      source_includes,
+    },
+    { esClient },
+  ): Promise<ToolResult<LogContext>> => {
+    validateIndexName(index);
+    if ((id === undefined) === (sort_values === undefined)) {
+      throw new Error('Pass either id or sort_values to identify the anchor.');
+    }
+    const timeField = time_field ?? (await resolveTimeField(esClient, index));
+    const matchFields = match_fields ?? [];
+    const window = search_window ?? '1d';
+    const projection = source_includes ? { _source: source_includes } : {};
+
+    // 1. Fetch the anchor with its sort values
+    let anchorBody: Record<string, any>;
+    if (id !== undefined) {
+      anchorBody = {
+        query: { bool: { filter: [{ ids: { values: [id] } }] } },
+        sort: contextSort(timeField, 'asc'),
+      };
+      if (time_range) {
+        anchorBody = applyTimeRange(anchorBody, time_range, timeField);
+      }
+    } else {
+      const [time, doc] = sort_values!;
+      const timestamp =
+        typeof time === 'number' ? new Date(time).toISOString() : time;
+      // The first document at or after the timestamp (and the given _doc)
+      anchorBody = {
+        query: {
+          bool: {
+            filter: [
+              {
+                range: {
+                  [timeField]: {
+                    gte: timestamp,
+                    lte: `${timestamp}||+${window}`,
+                    format: SORT_FORMAT,
+                  },
+                },
+              },
+            ],
+          },
+        },
+        sort: contextSort(timeField, 'asc'),
+      };
+      if (doc !== undefined) {
+        anchorBody.search_after = [timestamp, Number(doc) - 1];
+      }
+    }
+    if (source_includes) {
+      // The anchor's match_fields values are needed even if not requested
+      anchorBody._source = [...source_includes, ...matchFields];
+    }
+    validateReadOnlyQuery(anchorBody);
+    const anchorResponse = await esClient.search(index, anchorBody, 1);
+    const anchorHit = anchorResponse.hits.hits[0];
+    if (!anchorHit) {
+      throw new Error(
+        id !== undefined
+          ? `No document with _id "${id}" found in "${index}"${time_range ? ' in the given time_range' : ''}.`
+          : `No document found in "${index}" at or within ${window} after sort values ${JSON.stringify(sort_values)}.`,
+      );
+    }
+
+    // 2. Constrain the context to the anchor's values of match_fields
+    const warnings: string[] = [];
+    const constrainedBy: LogContext['constrained_by'] = {};
+    for (const field of matchFields) {
+      const value = valueAt(anchorHit._source, field);
+      if (['string', 'number', 'boolean'].includes(typeof value)) {
+        constrainedBy[field] = value;
+      } else {
+        warnings.push(
+          `The anchor has no single "${field}" value, so the context is not constrained by it.`,
+        );
+      }
+    }
+    const matchFilters = Object.entries(constrainedBy).map(
+      ([field, value]) => ({ term: { [field]: value } }),
+    );
+
+    // 3. Page away from the anchor in both directions
+    const [anchorTime] = anchorHit.sort;
+    const contextBody = (
+      order: 'asc' | 'desc',
+      bounds: Record<string, string>,
+    ) => {
+      const body = {
+        query: {
+          bool: {
+            filter: [
+              { range: { [timeField]: { ...bounds, format: SORT_FORMAT } } },
+              ...matchFilters,
+            ],
+          },
+        },
+        sort: contextSort(timeField, order),
+        search_after: anchorHit.sort,
+        ...projection,
+      };
+      validateReadOnlyQuery(body);
+      return body;
+    };
+    const beforeBody = contextBody('desc', {
+      gte: `${anchorTime}||-${window}`,
+      lte: anchorTime,
+    });
+    const afterBody = contextBody('asc', {
+      gte: anchorTime,
+      lte: `${anchorTime}||+${window}`,
+    });
+    const [before, after] = await esClient.multiSearch([
+      { index, body: beforeBody, size: size ?? 5 },
+      { index, body: afterBody, size: size ?? 5 },
+    ]);
+    for (const response of [before, after]) {
+      if (response.error) {
+        throw new Error(
+          `Context search on "${index}" failed: ${response.error.reason ?? response.error.type}`,
+        );
+      }
+    }
+
+    const beforeHits: any[] = [...before.hits.hits].reverse();
+    const afterHits: any[] = after.hits.hits;
+    const result: ToolResult<LogContext> = {
+      type: 'success',
+      data: {
+        time_field: timeField,
+        anchor: mapHits([anchorHit], anchorBody, true)[0],
+        before: mapHits(beforeHits, beforeBody, true),
+        after: mapHits(afterHits, afterBody, true),
+        constrained_by: constrainedBy,
+      },
+      total: beforeHits.length + afterHits.length,
+    };
+    if (warnings.length) result.warnings = warnings;
+    return result;
+  },
+});
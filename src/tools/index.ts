@@ -2,10 +2,40 @@ import { kibanaSearchTool } from './kibanaSearch';
 import { discoverClusterTool } from './discoverCluster';
 import { checkClusterHealthTool } from './checkClusterHealth';
 import { getAlertStatusTool } from './getAlertStatus';
+import { esqlQueryTool } from './esqlQuery';
+import { asyncSearchTool } from './asyncSearch';
+import { kibanaMultiSearchTool } from './kibanaMultiSearch';
+import { countDocumentsTool } from './countDocuments';
+import { profileFieldTool } from './profileField';
+import { compareMappingsTool } from './compareMappings';
+import { listDataViewsTool } from './listDataViews';
+import { findKnowledgeAssetsTool } from './findKnowledgeAssets';
+import { runSavedSearchTool } from './runSavedSearch';
+import { getIndexLifecycleTool } from './getIndexLifecycle';
+import { searchErrorClustersTool } from './searchErrorClusters';
+import { traceTransactionJourneyTool } from './traceTransactionJourney';
+import { apmServiceOverviewTool } from './apmServiceOverview';
+import { getLogContextTool } from './getLogContext';
+import { compareTimeWindowsTool } from './compareTimeWindows';
 
 export const allTools = {
   discoverClusterTool,
   kibanaSearchTool,
   checkClusterHealthTool,
   getAlertStatusTool,
+  esqlQueryTool,
+  asyncSearchTool,
+  kibanaMultiSearchTool,
+  countDocumentsTool,
+  profileFieldTool,
+  compareMappingsTool,
+  listDataViewsTool,
+  findKnowledgeAssetsTool,
+  runSavedSearchTool,
+  getIndexLifecycleTool,
+  searchErrorClustersTool,
+  traceTransactionJourneyTool,
+  apmServiceOverviewTool,
+  getLogContextTool,
+  compareTimeWindowsTool,
 };
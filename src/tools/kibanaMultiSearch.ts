@@ -0,0 +1,167 @@
+/**
+ * **kibana_multi_search** — Batched read-only searches via `_msearch`.
+ *
+ * Investigations often compare slices of data side by side: failed vs.
+ * successful payments in the same window, or this week vs. last week. This
+ * tool runs several labelled DSL searches in a single round trip (one audit
+ * entry, one retry loop) and returns the results keyed by label.
+ *
+ * Every search is validated independently — index name, read-only query
+ * structure, allowed index patterns and query cost — and a failure is
+ * reported against its own label without affecting the others.
+ *
+ * @module
+ */
+import { z } from 'zod';
+import { match } from 'dismatch';
+import type { Model } from 'dismatch';
+import { createSecureTool } from '../lib/toolWrapper';
+import {
+  validateReadOnlyQuery,
+  validateIndexName,
+} from '../lib/inputSanitizer';
+import { applyTimeRange, timeRangeSchema } from '../lib/timeRange';
+import { resolveTimeField } from '../lib/timeField';
+import { ElasticsearchClient } from '../lib/esClient';
+import { ToolResult } from '../lib/types';
+
+/** Results of a multi-search, keyed by the label of each search. */
+export type MultiSearchResults = Record<string, ToolResult<any[]>>;
+
+/** Maximum number of searches accepted in one call. */
+const MAX_SEARCHES = 10;
+
+const searchItemSchema = z.object({
+  label: z
+    .string()
+    .min(1)
+    .describe('Unique name for this search, e.g. "failed" or "last_week"'),
+  index: z.string().describe('The index pattern to search (e.g., "logs-*")'),
+  query: z.record(z.any()).describe('The Elasticsearch DSL query object'),
+  size: z
+    .number()
+    .optional()
+    .default(10)
+    .describe('Number of results to return (max capped by server config)'),
+  time_range: timeRangeSchema.optional(),
+  time_field: z
+    .string()
+    .optional()
+    .describe(
+      'Date field to apply time_range to. Defaults to the detected time field of the index.',
+    ),
+});
+
+type SearchItem = z.infer<typeof searchItemSchema>;
+
+/**
+ * A search item after validation: ready to run, or invalid with the error
+ * to report under its label.
+ */
+type PreparedSearch =
+  | Model<'ready', { index: string; body: Record<string, any>; size: number }>
+  | Model<'invalid', { error: string }>;
+
+/** Validates one search item and applies its time range. */
+async function prepareSearch(
+  item: SearchItem,
+  esClient: ElasticsearchClient,
+): Promise<PreparedSearch> {
+  validateIndexName(item.index);
+  validateReadOnlyQuery(item.query);
+
+  let body = { ...item.query };
+  if (item.time_range) {
+    const timeField =
+      item.time_field ?? (await resolveTimeField(esClient, item.index));
+    body = applyTimeRange(body, item.time_range, timeField);
+  }
+  return { type: 'ready', index: item.index, body, size: item.size ?? 10 };
+}
+
+/** Converts one `_msearch` response entry into a {@link ToolResult}. */
+function toItemResult(response: any): ToolResult<any[]> {
+  if (response.error) {
+    const reason =
+      response.error.reason ??
+      response.error.root_cause?.[0]?.reason ??
+      response.error.type;
+    return { type: 'error', error: reason };
+  }
+
+  const result: ToolResult<any[]> = {
+    type: 'success',
+    data: response.hits.hits.map((hit: any) => hit._source),
+    total: response.hits.total?.value ?? response.hits.total,
+  };
+  if (response.aggregations) {
+    result.aggregations = response.aggregations;
+  }
+  if (response.cost_adjustments) {
+    result.warnings = response.cost_adjustments;
+  }
+  return result;
+}
+
+export const kibanaMultiSearchTool = createSecureTool({
+  id: 'kibana_multi_search',
+  description:
+    'Run several labelled read-only DSL searches in one request (e.g., failed vs. successful payments, or this week vs. last week). ' +
+    `Accepts up to ${MAX_SEARCHES} searches, each with its own index, query, size, time_range and time_field. ` +
+    'Returns results keyed by label; a search that fails validation or execution returns an error under its label without affecting the others.',
+  mcp: {
+    annotations: {
+      title: 'Kibana Multi-Search',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  inputSchema: z.object({
+    searches: z
+      .array(searchItemSchema)
+      .min(1)
+      .max(MAX_SEARCHES)
+      .describe('The searches to run, each identified by a unique label'),
+  }),
+  execute: async (
+    { searches },
+    { esClient },
+  ): Promise<ToolResult<MultiSearchResults>> => {
+    const labels = searches.map((s) => s.label);
+    const duplicate = labels.find((label, i) => labels.indexOf(label) !== i);
+    if (duplicate) {
+      throw new Error(`Duplicate search label "${duplicate}".`);
+    }
+
+    const prepared = await Promise.all(
+      searches.map((item) =>
+        prepareSearch(item, esClient).catch((error: Error): PreparedSearch => ({
+          type: 'invalid',
+          error: error.message,
+        })),
+      ),
+    );
+
+    const runnable = prepared.flatMap((search) =>
+      match(search)({
+        ready: ({ index, body, size }) => [{ index, body, size }],
+        invalid: () => [],
+      }),
+    );
+    const responses =
+      runnable.length > 0 ? await esClient.multiSearch(runnable) : [];
+
+    let next = 0;
+    const results: MultiSearchResults = {};
+    prepared.forEach((search, i) => {
+      results[labels[i]] = match(search)({
+        ready: () => toItemResult(responses[next++]),
+        invalid: ({ error }): ToolResult<any[]> => ({ type: 'error', error }),
+      });
+    });
+
+    return { type: 'success', data: results };
+  },
+});
@@ -2,47 +2,170 @@
  * **kibana_search** — Read-only Elasticsearch DSL query execution.
  *
  * The core data retrieval tool. Accepts a full Elasticsearch DSL query body
- * and an optional time range expression. The time range is automatically
- * merged into whatever query shape is provided (bool, simple match, or empty).
+ * (or a KQL / Lucene query string) and an optional time range — a relative
+ * expression or an absolute `{ from, to, time_zone }` window. The time range
+ * is applied to the index's time field (detected from its data view or
+ * mapping, or set via `time_field`) and merged into whatever query shape is
+ * provided (bool, simple match, or empty).
  *
  * **For Business Managers:** Ask the agent a question like "show me failed
  * SWIFT payments in the last 24 hours" and the agent will use this tool to
- * construct and execute the appropriate DSL query.
+ * construct and execute the appropriate DSL query. KQL pasted from a Kibana
+ * dashboard (`status:failed and payment_type:SWIFT`) can be run directly.
  *
  * **For Developers:** Provides raw `_source` access with aggregation support.
- * Results are PII-redacted and size-capped server-side.
+ * Results are PII-redacted and size-capped server-side. Large result sets can
+ * be walked page by page: `paginate: true` opens a point-in-time and returns a
+ * `next_cursor`, which is passed back as `cursor` to fetch the next page with
+ * `search_after`.
+ *
+ * Hits are returned as `_source` by default. `source_includes` /
+ * `source_excludes` trim the documents, and `fields`, `highlight` and
+ * `include_metadata` switch each hit to an object carrying `_id`, `_index`,
+ * `_score`, `sort`, field values and highlighted fragments.
+ *
+ * Expensive queries are stopped by the cost guard in
+ * {@link ElasticsearchClient.search}; limits it applies automatically are
+ * returned as `warnings`.
  *
  * @module
  */
 import { z } from 'zod';
-import { match } from 'dismatch';
-import type { Model } from 'dismatch';
 import { createSecureTool } from '../lib/toolWrapper';
 import { validateReadOnlyQuery, validateIndexName } from '../lib/inputSanitizer';
+import { parseKql, luceneToQuery } from '../lib/kqlParser';
+import { encodeCursor, decodeCursor, SearchCursor } from '../lib/searchCursor';
+import { applyTimeRange, timeRangeSchema } from '../lib/timeRange';
+import { resolveTimeField } from '../lib/timeField';
+import { buildHighlight, mapHits } from '../lib/searchHits';
+import { ElasticsearchClient } from '../lib/esClient';
+import { ServerConfig } from '../lib/config';
 import { ToolResult } from '../lib/types';
 
+/** Query syntaxes accepted in the `query` parameter. */
+type QueryLanguage = 'dsl' | 'kql' | 'lucene';
+
 /**
- * Discriminated union classifying the shape of an incoming Elasticsearch
- * query body. Used by the time-range merger to decide how to inject the
- * `@timestamp` filter without overwriting existing query structure.
+ * Resolves the `query` parameter into a DSL search body.
+ *
+ * In `dsl` mode the object is used as-is. In `kql` / `lucene` mode the query
+ * may be a plain string, or a body object whose `query` key is a string (so
+ * `aggs`, `sort`, etc. can still be supplied alongside it).
+ *
+ * @throws {Error} If the query shape does not match the selected language.
  */
-type QueryShape =
-  | Model<'has_bool', { bool: any; body: Record<string, any> }>
-  | Model<'has_query', { query: any; body: Record<string, any> }>
-  | Model<'no_query', { body: Record<string, any> }>;
-
-/** Inspects a query body and returns the appropriate {@link QueryShape} variant. */
-function classifyQuery(body: Record<string, any>): QueryShape {
-  if (body.query?.bool) return { type: 'has_bool', bool: body.query.bool, body };
-  if (body.query) return { type: 'has_query', query: body.query, body };
-  return { type: 'no_query', body };
+function resolveSearchBody(
+  query: string | Record<string, any>,
+  language: QueryLanguage,
+): Record<string, any> {
+  if (language === 'dsl') {
+    if (typeof query === 'string') {
+      throw new Error(
+        'query must be a DSL object when query_language is "dsl". Set query_language to "kql" or "lucene" to pass a query string.',
+      );
+    }
+    return { ...query };
+  }
+
+  const translate = language === 'kql' ? parseKql : luceneToQuery;
+  if (typeof query === 'string') {
+    return { query: translate(query) };
+  }
+  if (typeof query.query === 'string') {
+    return { ...query, query: translate(query.query) };
+  }
+  throw new Error(
+    `query must be a string (or an object with a string "query" key) when query_language is "${language}".`,
+  );
+}
+
+/** Projection parameters merged into the search body. */
+interface Projection {
+  source_includes?: string[];
+  source_excludes?: string[];
+  fields?: string[];
+  highlight?: string[];
+}
+
+/** Returns a copy of `body` with `_source`, `fields` and `highlight` applied. */
+function applyProjection(
+  body: Record<string, any>,
+  { source_includes, source_excludes, fields, highlight }: Projection,
+): Record<string, any> {
+  const projected = { ...body };
+  if (source_includes || source_excludes) {
+    projected._source = {
+      ...(source_includes ? { includes: source_includes } : {}),
+      ...(source_excludes ? { excludes: source_excludes } : {}),
+    };
+  }
+  if (fields) projected.fields = fields;
+  if (highlight) projected.highlight = buildHighlight(highlight);
+  return projected;
+}
+
+/**
+ * Default sort for paginated searches without an explicit `sort`. Keeps
+ * relevance order while giving `search_after` a unique tiebreaker.
+ */
+const DEFAULT_PAGINATION_SORT = ['_score', { _shard_doc: 'asc' }];
+
+/**
+ * Fetches one page of a point-in-time search.
+ *
+ * Returns a `next_cursor` while full pages keep coming back; once a short or
+ * empty page signals exhaustion, the PIT is closed and no cursor is returned.
+ */
+async function fetchPage(
+  page: Omit<SearchCursor, 'search_after'> & { search_after?: any[] },
+  esClient: ElasticsearchClient,
+  config: ServerConfig,
+): Promise<ToolResult<any[]>> {
+  validateReadOnlyQuery(page.body);
+
+  const body = page.search_after
+    ? { ...page.body, search_after: page.search_after }
+    : page.body;
+  const data = await esClient.searchPointInTime(page.pit_id, page.index, body, page.size);
+  const hits: any[] = data.hits.hits;
+
+  const result: ToolResult<any[]> = {
+    type: 'success',
+    data: mapHits(hits, page.body, page.include_metadata ?? false),
+    total: data.hits.total?.value ?? data.hits.total,
+  };
+  if (data.aggregations) {
+    result.aggregations = data.aggregations;
+  }
+  if (data.cost_adjustments) {
+    result.warnings = data.cost_adjustments;
+  }
+
+  if (hits.length === 0 || hits.length < Math.min(page.size, config.maxSearchSize)) {
+    // Exhausted — a failed close only means the PIT already expired
+    await esClient.closePointInTime(data.pit_id).catch(() => undefined);
+  } else {
+    // Aggregations were returned with the first page; don't recompute them
+    const { aggs, aggregations, ...rest } = page.body;
+    result.next_cursor = encodeCursor({
+      pit_id: data.pit_id,
+      index: page.index,
+      body: rest,
+      size: page.size,
+      search_after: hits[hits.length - 1].sort,
+      include_metadata: page.include_metadata,
+    });
+  }
+  return result;
 }
 
 export const kibanaSearchTool = createSecureTool({
   id: 'kibana_search',
   description:
     'Execute a read-only DSL query against an Elasticsearch index to retrieve logs or data. ' +
-    'Supports optional time_range filtering (e.g., "now-24h", "now-7d").',
+    'Supports optional time_range filtering, either relative (e.g., "now-24h", "now-7d") or absolute ({"from": "2025-07-01", "to": "2025-09-30"}), on the index\'s time field. ' +
+    'Set query_language to "kql" or "lucene" to pass a Kibana search bar query string instead of DSL. ' +
+    'Set paginate to true to get a next_cursor, then pass it back as cursor to fetch the next page.',
   mcp: {
     annotations: {
       title: 'Kibana Search',
@@ -53,66 +176,145 @@ export const kibanaSearchTool = createSecureTool({
     },
   },
   inputSchema: z.object({
-    index: z.string().describe('The index pattern to search (e.g., "logs-*")'),
-    query: z.record(z.any()).describe('The Elasticsearch DSL query object'),
+    index: z
+      .string()
+      .optional()
+      .describe('The index pattern to search (e.g., "logs-*"). Required unless cursor is set.'),
+    query: z
+      .union([z.string(), z.record(z.any())])
+      .optional()
+      .describe(
+        'The Elasticsearch DSL query object, or a KQL/Lucene string when query_language is "kql" or "lucene". Required unless cursor is set.',
+      ),
+    query_language: z
+      .enum(['dsl', 'kql', 'lucene'])
+      .optional()
+      .default('dsl')
+      .describe(
+        'Syntax of the query parameter. "dsl" (default) takes a DSL body. "kql" parses a Kibana Query Language string (e.g., "status:failed and payment_type:SWIFT") into a bool query. "lucene" wraps the string in a query_string query.',
+      ),
     size: z
       .number()
       .optional()
       .default(10)
       .describe('Number of results to return (max capped by server config)'),
-    time_range: z
+    time_range: timeRangeSchema.optional(),
+    time_field: z
+      .string()
+      .optional()
+      .describe(
+        'Date field to apply time_range to (e.g., "settlement_date"). Defaults to the data view time field, then @timestamp, then the only date field in the mapping.',
+      ),
+    source_includes: z
+      .array(z.string())
+      .optional()
+      .describe(
+        'Only return these _source fields (wildcards allowed, e.g. ["status", "payment.*"]). Saves tokens on wide documents.',
+      ),
+    source_excludes: z
+      .array(z.string())
+      .optional()
+      .describe('Omit these _source fields (wildcards allowed).'),
+    fields: z
+      .array(z.string())
+      .optional()
+      .describe(
+        'Retrieve these fields via the fields API, including runtime fields and multi-fields such as "customer_name.keyword". Returned per hit under "fields".',
+      ),
+    highlight: z
+      .array(z.string())
+      .optional()
+      .describe(
+        'Fields to highlight matches in. Returned per hit under "highlight" as fragments with <em> tags.',
+      ),
+    include_metadata: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe(
+        'Return _id, _index, _score and sort alongside each hit\'s _source.',
+      ),
+    paginate: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe(
+        'Open a point-in-time so further pages can be fetched. The response includes next_cursor while more hits remain.',
+      ),
+    cursor: z
       .string()
       .optional()
       .describe(
-        'Optional time range filter, e.g. "now-24h", "now-7d". Adds a @timestamp range filter to the query.',
+        'next_cursor from a previous kibana_search response. Fetches the next page of that search; all other parameters are ignored.',
       ),
   }),
-  execute: async ({ index, query, size, time_range }, { config, esClient }) => {
+  execute: async (
+    {
+      index,
+      query,
+      query_language,
+      size,
+      time_range,
+      time_field,
+      source_includes,
+      source_excludes,
+      fields,
+      highlight,
+      include_metadata,
+      paginate,
+      cursor,
+    },
+    { config, esClient },
+  ) => {
+    if (cursor) {
+      return fetchPage(decodeCursor(cursor), esClient, config);
+    }
+    if (!index || query === undefined) {
+      throw new Error('index and query are required unless cursor is set.');
+    }
     validateIndexName(index);
-    validateReadOnlyQuery(query);
 
-    let searchBody = { ...query };
+    let searchBody = applyProjection(
+      resolveSearchBody(query, query_language ?? 'dsl'),
+      { source_includes, source_excludes, fields, highlight },
+    );
+    validateReadOnlyQuery(searchBody);
 
     // Wrap with time range filter if specified
     if (time_range) {
-      const rangeFilter = {
-        range: { '@timestamp': { gte: time_range, lte: 'now' } },
-      };
-
-      searchBody = match(classifyQuery(searchBody))({
-        has_bool: ({ bool, body }) => ({
-          ...body,
-          query: {
-            bool: {
-              ...bool,
-              filter: [
-                ...(Array.isArray(bool.filter) ? bool.filter : bool.filter ? [bool.filter] : []),
-                rangeFilter,
-              ],
-            },
-          },
-        }),
-        has_query: ({ query, body }) => ({
-          ...body,
-          query: { bool: { must: [query], filter: [rangeFilter] } },
-        }),
-        no_query: ({ body }) => ({
-          ...body,
-          query: { bool: { filter: [rangeFilter] } },
-        }),
-      });
+      const timeField = time_field ?? (await resolveTimeField(esClient, index));
+      searchBody = applyTimeRange(searchBody, time_range, timeField);
+    }
+
+    if (paginate) {
+      const body = { sort: DEFAULT_PAGINATION_SORT, ...searchBody };
+      const pitId = await esClient.openPointInTime(index, body);
+      try {
+        return await fetchPage(
+          { pit_id: pitId, index, body, size: size ?? 10, include_metadata },
+          esClient,
+          config,
+        );
+      } catch (error) {
+        // No cursor was handed out, so nothing else would close the PIT
+        await esClient.closePointInTime(pitId).catch(() => undefined);
+        throw error;
+      }
     }
 
     const data = await esClient.search(index, searchBody, size ?? 10);
 
     const result: ToolResult<any[]> = {
       type: 'success',
-      data: data.hits.hits.map((hit: any) => hit._source),
+      data: mapHits(data.hits.hits, searchBody, include_metadata ?? false),
       total: data.hits.total?.value ?? data.hits.total,
     };
     if (data.aggregations) {
       result.aggregations = data.aggregations;
     }
+    if (data.cost_adjustments) {
+      result.warnings = data.cost_adjustments;
+    }
     return result;
   },
 });
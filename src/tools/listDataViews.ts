@@ -0,0 +1,153 @@
+/**
+ * **list_data_views** — Kibana data views discovery tool.
+ *
+ * Data views encode how teams actually look at their data: the index
+ * pattern, the time field, runtime fields computed at query time, field
+ * formatters and the custom labels shown on dashboards ("Amount (EUR)"
+ * rather than `txn.amt_minor`). This tool reads them from the Kibana data
+ * views API so the agent can use the same fields and names as the
+ * dashboards.
+ *
+ * Requests go to the configured Kibana space. Data views whose pattern
+ * falls outside the allowed index patterns are not listed.
+ *
+ * @module
+ */
+import { z } from 'zod';
+import { createSecureTool } from '../lib/toolWrapper';
+
+/** A runtime field defined on a data view. */
+export interface DataViewRuntimeField {
+  name: string;
+  type: string;
+  /** Painless source of the field, if it has a script. */
+  script: string | undefined;
+}
+
+/** A Kibana data view, reduced to what an agent needs to query it. */
+export interface DataViewSummary {
+  id: string;
+  /** Display name (falls back to the pattern when unnamed). */
+  name: string;
+  /** Index pattern the view covers (e.g., `transactions-*`). */
+  pattern: string;
+  time_field: string | undefined;
+  runtime_fields: DataViewRuntimeField[];
+  /** Field → custom label shown in Kibana. */
+  field_labels: Record<string, string>;
+  /** Field → formatter id (e.g., `currency`, `bytes`) and its parameters. */
+  field_formats: Record<string, { id: string; params?: Record<string, any> }>;
+}
+
+/** Top-level response shape for data view discovery. */
+export interface DataViewList {
+  total: number;
+  returned: number;
+  data_views: DataViewSummary[];
+}
+
+/** Normalizes a data view from `GET /api/data_views/data_view/{id}`. */
+function toSummary(view: any): DataViewSummary {
+  const fieldLabels: Record<string, string> = {};
+  for (const [field, attrs] of Object.entries<any>(view.fieldAttrs ?? {})) {
+    if (attrs?.customLabel) fieldLabels[field] = attrs.customLabel;
+  }
+
+  return {
+    id: view.id,
+    name: view.name || view.title,
+    pattern: view.title,
+    time_field: view.timeFieldName || undefined,
+    runtime_fields: Object.entries<any>(view.runtimeFieldMap ?? {}).map(
+      ([name, field]) => ({
+        name,
+        type: field.type,
+        script: field.script?.source,
+      }),
+    ),
+    field_labels: fieldLabels,
+    field_formats: Object.fromEntries(
+      Object.entries<any>(view.fieldFormats ?? {}).map(([field, format]) => [
+        field,
+        format.params
+          ? { id: format.id, params: format.params }
+          : { id: format.id },
+      ]),
+    ),
+  };
+}
+
+export const listDataViewsTool = createSecureTool({
+  id: 'list_data_views',
+  description:
+    'List Kibana data views: the index pattern, time field, runtime fields, field formatters and custom field labels each one defines. ' +
+    'Use this to query with the same fields and names as the Kibana dashboards, including runtime fields that are not in the index mappings.',
+  mcp: {
+    annotations: {
+      title: 'List Data Views',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  inputSchema: z.object({
+    search: z
+      .string()
+      .optional()
+      .describe(
+        'Only return data views whose name or pattern contains this text (case-insensitive).',
+      ),
+    max_views: z
+      .number()
+      .optional()
+      .default(20)
+      .describe('Maximum number of data views to return. Defaults to 20.'),
+  }),
+  execute: async ({ search, max_views }, { esClient }) => {
+    let listed: any;
+    try {
+      listed = await esClient.kibanaGet('/api/data_views');
+    } catch (error: any) {
+      const httpStatus = error.response?.status;
+      if (httpStatus === 404 || httpStatus === 403) {
+        return {
+          type: 'error' as const,
+          error:
+            'Kibana data views are not available. The data views API requires Kibana 8.0+ and an API key with access to the configured space.',
+        };
+      }
+      throw error;
+    }
+
+    const needle = search?.toLowerCase();
+    const matching = (listed?.data_view ?? []).filter(
+      (view: any) =>
+        String(view.title ?? '')
+          .split(',')
+          .every((part: string) => esClient.isAllowed(part.trim())) &&
+        (!needle ||
+          `${view.name ?? ''} ${view.title ?? ''}`
+            .toLowerCase()
+            .includes(needle)),
+    );
+
+    const dataViews: DataViewSummary[] = await Promise.all(
+      matching.slice(0, max_views).map(async (view: any) => {
+        const detail = await esClient.kibanaGet(
+          `/api/data_views/data_view/${encodeURIComponent(view.id)}`,
+        );
+        return toSummary(detail.data_view);
+      }),
+    );
+
+    return {
+      type: 'success' as const,
+      data: {
+        total: matching.length,
+        returned: dataViews.length,
+        data_views: dataViews,
+      } satisfies DataViewList,
+    };
+  },
+});
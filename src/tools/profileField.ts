@@ -0,0 +1,213 @@
+/**
+ * **profile_field** — Value profile of a single field.
+ *
+ * Before filtering on `status` or `error_code`, the agent needs to know the
+ * values actually stored ("FAILED"? "failed"? "REJECTED"?). This tool answers
+ * that in one aggregation request: top terms with counts, cardinality, the
+ * share of documents missing the field, min/max/percentiles for numeric and
+ * date fields, and a few example values.
+ *
+ * **For Business Managers:** "What statuses can a payment have?" is answered
+ * with the real values and how common each one is.
+ *
+ * `text` fields can't be aggregated, so the tool profiles their aggregatable
+ * multi-field (usually `.keyword`) instead, found from the index mappings.
+ * Values pass through the same PII redaction as search results.
+ *
+ * @module
+ */
+import { z } from 'zod';
+import { createSecureTool } from '../lib/toolWrapper';
+import { validateIndexName } from '../lib/inputSanitizer';
+import {
+  aggregatableFieldFor,
+  flattenIndexMapping,
+  FieldMapping,
+} from '../lib/mappingUtils';
+import { applyTimeRange, timeRangeSchema } from '../lib/timeRange';
+import { resolveTimeField } from '../lib/timeField';
+import { valueAt } from '../lib/searchHits';
+import { ToolResult } from '../lib/types';
+
+/** Value profile of one field. */
+export interface FieldProfile {
+  /** Field that was requested. */
+  field: string;
+  /** Field the aggregations ran on (e.g., `status.keyword` for `status`). */
+  profiled_field: string;
+  /** Mapping type of the profiled field. */
+  type: string;
+  /** Documents in scope (index and time range). */
+  total_docs: number;
+  /** Documents in scope without a value for the field. */
+  missing_count: number;
+  /** `missing_count / total_docs`, or 0 when there are no documents. */
+  missing_ratio: number;
+  /** Approximate number of distinct values. */
+  cardinality: number;
+  /** Most common values, most frequent first. */
+  top_terms: { value: any; count: number }[];
+  /** Range of numeric and date fields (dates as strings). */
+  stats?: { min: any; max: any; avg?: number };
+  /** Percentiles of numeric and date fields, keyed `p50`, `p95`, ... */
+  percentiles?: Record<string, any>;
+  /** Values of the requested field from a few matching documents. */
+  examples: any[];
+}
+
+const NUMERIC_TYPES = new Set([
+  'long',
+  'integer',
+  'short',
+  'byte',
+  'double',
+  'float',
+  'half_float',
+  'scaled_float',
+  'unsigned_long',
+]);
+
+const DATE_TYPES = new Set(['date', 'date_nanos']);
+
+const PERCENTS = [1, 5, 25, 50, 75, 95, 99];
+
+/** Number of example documents to read the field from. */
+const EXAMPLE_COUNT = 5;
+
+/** Builds the profiling aggregations for a field of the given type. */
+function buildAggs(
+  field: string,
+  profiled: FieldMapping,
+  topN: number,
+): Record<string, any> {
+  const aggs: Record<string, any> = {
+    top_terms: { terms: { field: profiled.field, size: topN } },
+    cardinality: { cardinality: { field: profiled.field } },
+    missing: { missing: { field: profiled.field } },
+    examples: {
+      filter: { exists: { field: profiled.field } },
+      aggs: {
+        hits: {
+          top_hits: { size: EXAMPLE_COUNT, _source: { includes: [field] } },
+        },
+      },
+    },
+  };
+  if (NUMERIC_TYPES.has(profiled.type) || DATE_TYPES.has(profiled.type)) {
+    aggs.stats = { stats: { field: profiled.field } };
+    aggs.percentiles = {
+      percentiles: { field: profiled.field, percents: PERCENTS, keyed: false },
+    };
+  }
+  return aggs;
+}
+
+export const profileFieldTool = createSecureTool({
+  id: 'profile_field',
+  description:
+    'Profile the values of one field in an index: top terms with counts, cardinality, missing ratio, min/max/percentiles for numeric and date fields, and example values. ' +
+    'Call this before filtering on a field to learn its exact values (e.g., "FAILED" vs "failed"). Text fields are profiled through their .keyword sub-field automatically.',
+  mcp: {
+    annotations: {
+      title: 'Profile Field',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  inputSchema: z.object({
+    index: z
+      .string()
+      .describe(
+        'The index pattern containing the field (e.g., "transactions-*")',
+      ),
+    field: z
+      .string()
+      .describe('Field path to profile (e.g., "status" or "error.code")'),
+    top_n: z
+      .number()
+      .int()
+      .min(1)
+      .max(100)
+      .optional()
+      .default(10)
+      .describe('Number of top terms to return. Defaults to 10.'),
+    time_range: timeRangeSchema.optional(),
+    time_field: z
+      .string()
+      .optional()
+      .describe(
+        'Date field to apply time_range to. Defaults to the detected time field of the index.',
+      ),
+  }),
+  execute: async (
+    { index, field, top_n, time_range, time_field },
+    { esClient },
+  ): Promise<ToolResult<FieldProfile>> => {
+    validateIndexName(index);
+
+    const fields = Object.values<any>(
+      (await esClient.getMapping(index)) ?? {},
+    ).flatMap(flattenIndexMapping);
+    if (!fields.some((f) => f.field === field)) {
+      throw new Error(
+        `Field "${field}" is not mapped in "${index}". Use discover_cluster to list its fields.`,
+      );
+    }
+    const profiled = aggregatableFieldFor(fields, field);
+    if (!profiled) {
+      throw new Error(
+        `Field "${field}" in "${index}" can't be aggregated and has no aggregatable sub-field (such as "${field}.keyword").`,
+      );
+    }
+
+    let body: Record<string, any> = {
+      track_total_hits: true,
+      aggs: buildAggs(field, profiled, top_n ?? 10),
+    };
+    if (time_range) {
+      const timeField = time_field ?? (await resolveTimeField(esClient, index));
+      body = applyTimeRange(body, time_range, timeField);
+    }
+
+    const response = await esClient.search(index, body, 0);
+    const aggs = response.aggregations ?? {};
+    const totalDocs: number = response.hits?.total?.value ?? 0;
+    const missingCount: number = aggs.missing?.doc_count ?? 0;
+
+    const data: FieldProfile = {
+      field,
+      profiled_field: profiled.field,
+      type: profiled.type,
+      total_docs: totalDocs,
+      missing_count: missingCount,
+      missing_ratio: totalDocs > 0 ? missingCount / totalDocs : 0,
+      cardinality: aggs.cardinality?.value ?? 0,
+      top_terms: (aggs.top_terms?.buckets ?? []).map((b: any) => ({
+        value: b.key_as_string ?? b.key,
+        count: b.doc_count,
+      })),
+      examples: (aggs.examples?.hits?.hits?.hits ?? [])
+        .map((hit: any) => valueAt(hit._source, field))
+        .filter((value: any) => value !== undefined),
+    };
+
+    if (aggs.stats && aggs.stats.count > 0) {
+      const isDate = DATE_TYPES.has(profiled.type);
+      data.stats = {
+        min: isDate ? aggs.stats.min_as_string : aggs.stats.min,
+        max: isDate ? aggs.stats.max_as_string : aggs.stats.max,
+        ...(isDate ? {} : { avg: aggs.stats.avg }),
+      };
+      data.percentiles = Object.fromEntries(
+        (aggs.percentiles?.values ?? []).map((p: any) => [
+          `p${p.key}`,
+          isDate ? (p.value_as_string ?? p.value) : p.value,
+        ]),
+      );
+    }
+
+    return { type: 'success', data, total: totalDocs };
+  },
+});
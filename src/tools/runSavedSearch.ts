@@ -0,0 +1,149 @@
+/**
+ * **run_saved_search** — Execution of a Kibana saved Discover search.
+ *
+ * Runbooks point to saved searches ("Failed SEPA instant payments") rather
+ * than to queries. This tool loads the saved search from the configured
+ * space, rebuilds its query, filter pills and sort as DSL (see
+ * {@link toSearchRequest}), and runs it through the same read-only
+ * validation, index access check and cost guard as `kibana_search`.
+ *
+ * Hits contain only the saved columns, plus the data view's time field, so
+ * the agent sees what the runbook author saw in Discover. Columns are read
+ * through the fields API, as Discover does, so runtime fields and
+ * multi-fields such as `customer.keyword` have values too. The saved time
+ * range is used unless `time_range` overrides it; searches saved without
+ * one cover all time, like Discover with its time picker cleared.
+ *
+ * @module
+ */
+import { z } from 'zod';
+import { createSecureTool } from '../lib/toolWrapper';
+import {
+  validateReadOnlyQuery,
+  validateIndexName,
+} from '../lib/inputSanitizer';
+import { toSearchRequest } from '../lib/savedSearch';
+import { applyTimeRange, timeRangeSchema } from '../lib/timeRange';
+import { resolveTimeField } from '../lib/timeField';
+import { mapHits } from '../lib/searchHits';
+import { ToolResult } from '../lib/types';
+
+/** The saved search that was run, as the agent needs to describe it. */
+export interface SavedSearchRun {
+  id: string;
+  title: string;
+  /** Index pattern of the saved search's data view. */
+  index: string;
+  columns: string[];
+  /** DSL body that was executed, including the time range filter. */
+  query: Record<string, any>;
+  hits: any[];
+}
+
+export const runSavedSearchTool = createSecureTool({
+  id: 'run_saved_search',
+  description:
+    'Run a Kibana saved Discover search by its id: its KQL/Lucene query, filter pills (including negated and range filters), sort and data view are converted to DSL and executed read-only. ' +
+    'Returns only the saved columns. Find saved search ids with find_knowledge_assets (type "search"). ' +
+    'The saved time range is used unless time_range overrides it.',
+  mcp: {
+    annotations: {
+      title: 'Run Saved Search',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  inputSchema: z.object({
+    id: z.string().min(1).describe('Id of the saved search object'),
+    time_range: timeRangeSchema.optional(),
+    size: z
+      .number()
+      .optional()
+      .default(10)
+      .describe('Number of hits to return (max capped by server config)'),
+  }),
+  execute: async (
+    { id, time_range, size },
+    { esClient },
+  ): Promise<ToolResult<SavedSearchRun>> => {
+    let savedObject: any;
+    try {
+      savedObject = await esClient.kibanaGet(
+        `/api/saved_objects/search/${encodeURIComponent(id)}`,
+      );
+    } catch (error: any) {
+      const httpStatus = error.response?.status;
+      if (httpStatus === 404) {
+        return {
+          type: 'error',
+          error: `Saved search "${id}" was not found in the configured Kibana space.`,
+        };
+      }
+      if (httpStatus === 403) {
+        return {
+          type: 'error',
+          error:
+            'Kibana saved objects are not available. The saved objects API requires an API key with read access to the configured space.',
+        };
+      }
+      throw error;
+    }
+
+    const request = toSearchRequest(savedObject);
+    let index: string;
+    let timeField: string | undefined;
+    if ('id' in request.data_view) {
+      const detail = await esClient.kibanaGet(
+        `/api/data_views/data_view/${encodeURIComponent(request.data_view.id)}`,
+      );
+      index = detail.data_view.title;
+      timeField = detail.data_view.timeFieldName || undefined;
+    } else {
+      index = request.data_view.title;
+      timeField = request.data_view.time_field;
+    }
+    validateIndexName(index);
+
+    const columns =
+      request.columns.length &&
+      timeField &&
+      !request.columns.includes(timeField)
+        ? [timeField, ...request.columns]
+        : request.columns;
+    // Runtime fields and multi-fields never appear in _source
+    let searchBody: Record<string, any> = columns.length
+      ? { ...request.body, _source: false, fields: columns }
+      : request.body;
+    validateReadOnlyQuery(searchBody);
+
+    const timeRange = time_range ?? request.time_range;
+    if (timeRange) {
+      searchBody = applyTimeRange(
+        searchBody,
+        timeRange,
+        timeField ?? (await resolveTimeField(esClient, index)),
+      );
+    }
+
+    const data = await esClient.search(index, searchBody, size ?? 10);
+
+    const result: ToolResult<SavedSearchRun> = {
+      type: 'success',
+      data: {
+        id,
+        title: request.title,
+        index,
+        columns,
+        query: searchBody,
+        hits: mapHits(data.hits.hits, searchBody, false),
+      },
+      total: data.hits.total?.value ?? data.hits.total,
+    };
+    if (data.cost_adjustments) {
+      result.warnings = data.cost_adjustments;
+    }
+    return result;
+  },
+});
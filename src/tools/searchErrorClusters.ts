@@ -0,0 +1,236 @@
+/**
+ * **search_error_clusters** — Grouping of error logs into message templates.
+ *
+ * Thousands of error logs collapse into a dozen distinct messages once IDs,
+ * amounts and timestamps are stripped. This tool groups the messages of an
+ * index in a time window into templates and reports, per template, how
+ * often it occurred, when it was first and last seen, which services
+ * logged it, and one example.
+ *
+ * Grouping runs in Elasticsearch with the `categorize_text` aggregation,
+ * which counts every matching document. Where it is unavailable (clusters
+ * before 7.16, or a message field that is not `text`), the most recent
+ * messages are sampled and grouped locally by {@link mineTemplates}; counts
+ * then refer to the sample.
+ *
+ * **For Developers:** "What is breaking in payments since the deploy?"
+ * becomes a ranked list of distinct failures instead of a page of raw logs.
+ *
+ * @module
+ */
+import { z } from 'zod';
+import { createSecureTool } from '../lib/toolWrapper';
+import {
+  validateReadOnlyQuery,
+  validateIndexName,
+} from '../lib/inputSanitizer';
+import { parseKql } from '../lib/kqlParser';
+import { applyTimeRange, timeRangeSchema } from '../lib/timeRange';
+import { resolveTimeField } from '../lib/timeField';
+import { valueAt } from '../lib/searchHits';
+import { mineTemplates, LogCluster } from '../lib/logTemplates';
+import { ToolResult } from '../lib/types';
+
+/** Top-level response shape for error clustering. */
+export interface ErrorClusters {
+  /** `categorize_text` in Elasticsearch, or local mining of a `sample`. */
+  method: 'categorize_text' | 'sample';
+  /** Documents matching the query in the time window. */
+  total_messages: number;
+  /** Messages grouped locally (`sample` method only). */
+  sampled?: number;
+  clusters: LogCluster[];
+}
+
+/** Services listed per cluster. */
+const TOP_SERVICES = 5;
+
+/** Reads a field's value from `_source`, taking the first of an array. */
+function firstValue(source: any, field: string): any {
+  const value = valueAt(source, field);
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Whether a search was rejected because `categorize_text` cannot run: the
+ * aggregation is unknown (before 7.16) or the message field is not an
+ * analyzable text field. Any other 400 is a real error and is surfaced.
+ */
+function categorizeTextUnavailable(error: any): boolean {
+  if (error?.response?.status !== 400) return false;
+  const esError = error.response.data?.error;
+  const causes: any[] = [...(esError?.root_cause ?? [])];
+  for (let cause = esError; cause; cause = cause.caused_by) causes.push(cause);
+  return causes.some((cause) =>
+    /categorize_text|analyzable text field/i.test(cause?.reason ?? ''),
+  );
+}
+
+export const searchErrorClustersTool = createSecureTool({
+  id: 'search_error_clusters',
+  description:
+    'Group log messages into templates with variable parts (IDs, amounts, timestamps) stripped, e.g. "Timeout calling ledger after <NUM> ms". ' +
+    'Returns each cluster with its count, first and last occurrence, the services logging it and one example message. ' +
+    'Use query to select error logs (e.g., "log.level:error") and time_range to focus on an incident window.',
+  mcp: {
+    annotations: {
+      title: 'Search Error Clusters',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  inputSchema: z.object({
+    index: z.string().describe('The log index pattern (e.g., "logs-*")'),
+    query: z
+      .string()
+      .optional()
+      .describe(
+        'KQL selecting the logs to cluster, e.g. "log.level:error and service.name:payments". Defaults to all logs in the time range.',
+      ),
+    time_range: timeRangeSchema.optional().default('now-24h'),
+    time_field: z
+      .string()
+      .optional()
+      .describe(
+        'Date field for the time range and first/last seen. Defaults to the data view time field, then @timestamp.',
+      ),
+    message_field: z
+      .string()
+      .optional()
+      .default('message')
+      .describe('Field holding the log message. Defaults to "message".'),
+    service_field: z
+      .string()
+      .optional()
+      .default('service.name')
+      .describe(
+        'Keyword field naming the emitting service. Defaults to "service.name".',
+      ),
+    max_clusters: z
+      .number()
+      .min(1)
+      .max(50)
+      .optional()
+      .default(10)
+      .describe('Number of clusters to return, largest first (1-50).'),
+  }),
+  execute: async (
+    {
+      index,
+      query,
+      time_range,
+      time_field,
+      message_field,
+      service_field,
+      max_clusters,
+    },
+    { config, esClient },
+  ): Promise<ToolResult<ErrorClusters>> => {
+    validateIndexName(index);
+    const timeField = time_field ?? (await resolveTimeField(esClient, index));
+    const filtered = applyTimeRange(
+      query ? { query: parseKql(query) } : {},
+      time_range ?? 'now-24h',
+      timeField,
+    );
+
+    const body = {
+      ...filtered,
+      track_total_hits: true,
+      aggs: {
+        clusters: {
+          categorize_text: { field: message_field, size: max_clusters },
+          aggs: {
+            first_seen: { min: { field: timeField } },
+            last_seen: { max: { field: timeField } },
+            services: { terms: { field: service_field, size: TOP_SERVICES } },
+            example: {
+              top_hits: {
+                size: 1,
+                sort: [{ [timeField]: 'desc' }],
+                _source: [message_field],
+              },
+            },
+          },
+        },
+      },
+    };
+    validateReadOnlyQuery(body);
+
+    let response: any;
+    try {
+      response = await esClient.search(index, body, 0);
+    } catch (error) {
+      if (!categorizeTextUnavailable(error)) throw error;
+    }
+
+    if (response) {
+      const buckets: any[] = response.aggregations?.clusters?.buckets ?? [];
+      return {
+        type: 'success',
+        data: {
+          method: 'categorize_text',
+          total_messages: response.hits.total?.value ?? response.hits.total,
+          clusters: buckets.map((bucket) => ({
+            template: bucket.key,
+            count: bucket.doc_count,
+            first_seen: bucket.first_seen?.value_as_string,
+            last_seen: bucket.last_seen?.value_as_string,
+            services: (bucket.services?.buckets ?? []).map((s: any) => ({
+              service: s.key,
+              count: s.doc_count,
+            })),
+            example: String(
+              firstValue(
+                bucket.example?.hits?.hits?.[0]?._source,
+                message_field,
+              ) ?? '',
+            ),
+          })),
+        },
+        total: buckets.length,
+      };
+    }
+
+    const sampleBody = {
+      ...filtered,
+      track_total_hits: true,
+      sort: [{ [timeField]: 'desc' }],
+      _source: [message_field, service_field, timeField],
+    };
+    validateReadOnlyQuery(sampleBody);
+    const sample = await esClient.search(
+      index,
+      sampleBody,
+      config.maxSearchSize,
+    );
+    const lines = sample.hits.hits
+      .map((hit: any) => {
+        const timestamp = firstValue(hit._source, timeField);
+        const service = firstValue(hit._source, service_field);
+        return {
+          message: firstValue(hit._source, message_field),
+          timestamp: timestamp == null ? undefined : String(timestamp),
+          service: service == null ? undefined : String(service),
+        };
+      })
+      .filter((line: any) => typeof line.message === 'string');
+
+    const clusters = mineTemplates(lines, max_clusters ?? 10);
+    return {
+      type: 'success',
+      data: {
+        method: 'sample',
+        total_messages: sample.hits.total?.value ?? sample.hits.total,
+        sampled: lines.length,
+        clusters,
+      },
+      total: clusters.length,
+      warnings: [
+        `categorize_text is not available for "${message_field}"; clustered the ${lines.length} most recent messages instead. Counts refer to this sample.`,
+      ],
+    };
+  },
+});
@@ -0,0 +1,367 @@
+/**
+ * **trace_transaction_journey** — Cross-index timeline for one transaction.
+ *
+ * When a SWIFT payment goes missing, its trail is spread over gateway logs,
+ * APM traces, core-banking events and audit indices, each naming the
+ * identifier differently (`transaction.id`, `uetr`, `payment.uetr`, ...).
+ * This tool finds the allowed indices whose mappings contain any of the
+ * correlation field candidates, searches them for the identifier in one
+ * `_msearch` round trip, and merges the hits into a timeline: hops per
+ * service with their status and the latency between them, and the gaps
+ * where nothing happened for longer than a threshold (see
+ * {@link buildJourney}).
+ *
+ * Indices that map a correlation field but hold no event for the
+ * identifier are listed as `silent_indices` — the hops the transaction
+ * never reached. Targets whose search was rejected (e.g. by the query cost
+ * guard) or failed are listed as `unsearched` instead: the transaction may
+ * still be there. Searches are bounded to the last 7 days unless
+ * `time_range` says otherwise.
+ *
+ * **For Developers:** "Where did UETR eb6305c9-... stop?" becomes one call.
+ *
+ * @module
+ */
+import { z } from 'zod';
+import { createSecureTool } from '../lib/toolWrapper';
+import { validateIndexName } from '../lib/inputSanitizer';
+import { dataStreamOf, ElasticsearchClient } from '../lib/esClient';
+import { groupIndexFamilies } from '../lib/indexFamilies';
+import { flattenIndexMapping } from '../lib/mappingUtils';
+import { applyTimeRange, timeRangeSchema } from '../lib/timeRange';
+import { resolveTimeField } from '../lib/timeField';
+import { valueAt } from '../lib/searchHits';
+import { buildJourney, Journey, JourneyEvent } from '../lib/journey';
+import { ToolResult } from '../lib/types';
+
+/** Correlation fields searched when none are given. */
+const DEFAULT_CORRELATION_FIELDS = [
+  'transaction.id',
+  'transaction_id',
+  'trace.id',
+  'uetr',
+  'payment.uetr',
+];
+
+const DEFAULT_SERVICE_FIELDS = ['service.name', 'service', 'application'];
+
+const DEFAULT_STATUS_FIELDS = [
+  'event.outcome',
+  'status',
+  'transaction.result',
+  'http.response.status_code',
+];
+
+/** Search targets (data streams, index families, indices) searched at most. */
+const MAX_TARGETS = 50;
+
+/** Window searched when no `time_range` is given. */
+const DEFAULT_TIME_RANGE = 'now-7d';
+
+const EXACT_TYPES = new Set([
+  'keyword',
+  'constant_keyword',
+  'wildcard',
+  'ip',
+  'version',
+]);
+const TEXT_TYPES = new Set(['text', 'match_only_text']);
+const NUMERIC_TYPES = new Set([
+  'long',
+  'integer',
+  'short',
+  'byte',
+  'unsigned_long',
+]);
+
+/** Top-level response shape for a traced transaction. */
+export interface TransactionJourney extends Journey {
+  id: string;
+  /** Targets searched, with the correlation fields they map. */
+  searched: { index: string; fields: string[]; events: number }[];
+  /** Searched targets without any event for the identifier. */
+  silent_indices: string[];
+  /** Targets whose search was rejected or failed, with the reason. */
+  unsearched: { index: string; reason: string }[];
+}
+
+/** A search target with the correlation fields its mapping contains. */
+interface Target {
+  index: string;
+  fields: Map<string, string>;
+}
+
+/**
+ * Groups concrete indices into search targets: data streams by name, index
+ * families by pattern, everything else by itself.
+ */
+function searchTargets(
+  names: string[],
+  esClient: ElasticsearchClient,
+): string[] {
+  const visible = names.filter((name) => {
+    const target = dataStreamOf(name) ?? name;
+    return !target.startsWith('.') && esClient.isAllowed(target);
+  });
+  const targets = new Set(
+    visible.flatMap((name) => {
+      const dataStream = dataStreamOf(name);
+      return dataStream ? [dataStream] : [];
+    }),
+  );
+  const standalone = new Set(visible.filter((name) => !dataStreamOf(name)));
+  // A family pattern must not also read a data stream searched on its own
+  const families = groupIndexFamilies(
+    [...standalone],
+    (pattern) =>
+      esClient.isAllowed(pattern) &&
+      ![...targets].some((stream) => stream.startsWith(pattern.slice(0, -1))),
+  );
+  for (const { family, members } of families.values()) {
+    targets.add(family.pattern);
+    members.forEach((member) => standalone.delete(member));
+  }
+  return [...targets, ...standalone].sort();
+}
+
+/**
+ * Builds the clause matching `id` on one correlation field, or `undefined`
+ * when the field's type cannot hold it.
+ */
+function matchClause(
+  field: string,
+  type: string,
+  id: string,
+): Record<string, any> | undefined {
+  if (EXACT_TYPES.has(type)) return { term: { [field]: id } };
+  if (TEXT_TYPES.has(type)) return { match_phrase: { [field]: id } };
+  if (NUMERIC_TYPES.has(type) && /^\d+$/.test(id)) {
+    return { term: { [field]: id } };
+  }
+  return undefined;
+}
+
+/** First of several candidate fields with a value in `_source`, as a string. */
+function firstOf(source: any, fields: string[]): string | undefined {
+  for (const field of fields) {
+    const value = valueAt(source, field);
+    const first = Array.isArray(value) ? value[0] : value;
+    if (first != null && typeof first !== 'object') return String(first);
+  }
+  return undefined;
+}
+
+export const traceTransactionJourneyTool = createSecureTool({
+  id: 'trace_transaction_journey',
+  description:
+    'Trace one transaction (transaction id, UETR, trace id) across every allowed index that maps one of the correlation fields: gateway logs, APM traces, core-banking events, audit records. ' +
+    'Returns a merged timeline in time order, hops per service with status and latency between hops, gaps where nothing was recorded for longer than gap_threshold_seconds, and the indices the transaction never reached. ' +
+    'Searches the last 7 days unless time_range is set; indices that could not be searched are listed as unsearched.',
+  mcp: {
+    annotations: {
+      title: 'Trace Transaction Journey',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  inputSchema: z.object({
+    id: z
+      .string()
+      .min(1)
+      .describe(
+        'The identifier to trace (e.g., a UETR "eb6305c9-1f7a-4c2e-a1d8-0c9b2f6a1e55")',
+      ),
+    correlation_fields: z
+      .array(z.string())
+      .min(1)
+      .optional()
+      .describe(
+        `Fields that may hold the identifier, in any index. Defaults to ${DEFAULT_CORRELATION_FIELDS.join(', ')}.`,
+      ),
+    index: z
+      .string()
+      .optional()
+      .default('*')
+      .describe(
+        'Index pattern limiting where to look (e.g., "payments-*"). Defaults to all allowed indices.',
+      ),
+    time_range: timeRangeSchema.optional().default(DEFAULT_TIME_RANGE),
+    service_fields: z
+      .array(z.string())
+      .optional()
+      .describe(
+        `Fields naming the service of an event, first present wins. Defaults to ${DEFAULT_SERVICE_FIELDS.join(', ')}.`,
+      ),
+    status_fields: z
+      .array(z.string())
+      .optional()
+      .describe(
+        `Fields holding the status of an event, first present wins. Defaults to ${DEFAULT_STATUS_FIELDS.join(', ')}.`,
+      ),
+    gap_threshold_seconds: z
+      .number()
+      .optional()
+      .default(300)
+      .describe(
+        'Report silences between consecutive events longer than this. Defaults to 300 (5 minutes).',
+      ),
+    max_events: z
+      .number()
+      .optional()
+      .default(50)
+      .describe(
+        'Maximum events per index (capped by server config). Defaults to 50.',
+      ),
+    include_source: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Include each event's full _source in the timeline."),
+  }),
+  execute: async (
+    {
+      id,
+      correlation_fields,
+      index,
+      time_range,
+      service_fields,
+      status_fields,
+      gap_threshold_seconds,
+      max_events,
+      include_source,
+    },
+    { esClient },
+  ): Promise<ToolResult<TransactionJourney>> => {
+    const pattern = index ?? '*';
+    validateIndexName(pattern);
+    const candidates = correlation_fields ?? DEFAULT_CORRELATION_FIELDS;
+    const warnings: string[] = [];
+
+    // 1. Find the targets whose mappings contain a correlation field
+    const names = (await esClient.catIndices(pattern)).map(
+      (row: any) => row.index as string,
+    );
+    let targetNames = searchTargets(names, esClient);
+    if (targetNames.length > MAX_TARGETS) {
+      warnings.push(
+        `${targetNames.length} indices match "${pattern}"; only the first ${MAX_TARGETS} were checked. Narrow index to search the rest.`,
+      );
+      targetNames = targetNames.slice(0, MAX_TARGETS);
+    }
+
+    const targets: Target[] = (
+      await Promise.all(
+        targetNames.map(async (name): Promise<Target | undefined> => {
+          const mapping = await esClient.getMapping(name).catch(() => {
+            warnings.push(`Could not read the mapping of "${name}".`);
+            return undefined;
+          });
+          const fields = new Map<string, string>();
+          for (const indexMapping of Object.values<any>(mapping ?? {})) {
+            for (const { field, type } of flattenIndexMapping(indexMapping)) {
+              if (candidates.includes(field) && !fields.has(field)) {
+                fields.set(field, type);
+              }
+            }
+          }
+          return fields.size > 0 ? { index: name, fields } : undefined;
+        }),
+      )
+    ).filter((target): target is Target => target !== undefined);
+
+    if (targets.length === 0) {
+      throw new Error(
+        `No allowed index matching "${pattern}" maps any of the correlation fields: ${candidates.join(', ')}.`,
+      );
+    }
+
+    // 2. Search every target for the identifier in one round trip
+    const timeFields = await Promise.all(
+      targets.map((target) =>
+        resolveTimeField(esClient, target.index).catch(() => undefined),
+      ),
+    );
+    const searches = targets.map((target, i) => {
+      const clauses = [...target.fields]
+        .map(([field, type]) => matchClause(field, type, id))
+        .filter((clause) => clause !== undefined);
+      let body: Record<string, any> = {
+        query: {
+          bool: {
+            should: clauses.length ? clauses : [{ match_none: {} }],
+            minimum_should_match: 1,
+          },
+        },
+      };
+      const timeField = timeFields[i];
+      if (timeField) body.sort = [{ [timeField]: 'asc' }];
+      if (timeField) {
+        body = applyTimeRange(
+          body,
+          time_range ?? DEFAULT_TIME_RANGE,
+          timeField,
+        );
+      }
+      return { index: target.index, body, size: max_events ?? 50 };
+    });
+    const responses = await esClient.multiSearch(searches);
+
+    // 3. Merge the hits into one timeline
+    const serviceFields = service_fields ?? DEFAULT_SERVICE_FIELDS;
+    const statusFields = status_fields ?? DEFAULT_STATUS_FIELDS;
+    const events: JourneyEvent[] = [];
+    const searched: TransactionJourney['searched'] = [];
+    const unsearched: TransactionJourney['unsearched'] = [];
+    responses.forEach((response, i) => {
+      const target = targets[i];
+      if (response.error) {
+        unsearched.push({
+          index: target.index,
+          reason:
+            response.error.reason ?? response.error.type ?? 'unknown error',
+        });
+        return;
+      }
+      const hits: any[] = response.hits?.hits ?? [];
+      searched.push({
+        index: target.index,
+        fields: [...target.fields.keys()],
+        events: hits.length,
+      });
+      for (const hit of hits) {
+        const timeField = timeFields[i];
+        events.push({
+          timestamp: timeField ? firstOf(hit._source, [timeField]) : undefined,
+          index: hit._index,
+          _id: hit._id,
+          service: firstOf(hit._source, serviceFields),
+          status: firstOf(hit._source, statusFields),
+          message: firstOf(hit._source, ['message', 'event.action']),
+          matched_field: [...target.fields.keys()].find(
+            (field) => firstOf(hit._source, [field]) === id,
+          ),
+          ...(include_source ? { _source: hit._source } : {}),
+        });
+      }
+    });
+
+    const journey = buildJourney(events, (gap_threshold_seconds ?? 300) * 1000);
+    const result: ToolResult<TransactionJourney> = {
+      type: 'success',
+      data: {
+        id,
+        ...journey,
+        searched,
+        silent_indices: searched
+          .filter((s) => s.events === 0)
+          .map((s) => s.index),
+        unsearched,
+      },
+      total: events.length,
+    };
+    if (warnings.length) result.warnings = warnings;
+    return result;
+  },
+});